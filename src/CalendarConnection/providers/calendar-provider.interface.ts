@@ -0,0 +1,69 @@
+import type { Logger } from '@nestjs/common';
+import type { CalendarConnection, CalendarProvider } from '@prisma/client';
+import type { DateTime } from 'luxon';
+import type { PrismaService } from 'src/prisma/prisma.service';
+
+/** A busy interval returned by free/busy queries (UTC) */
+export interface BusyWindow {
+  start: DateTime;
+  end: DateTime;
+}
+
+export interface CalendarEventInput {
+  summary: string;
+  description: string;
+  startUtc: DateTime;
+  endUtc: DateTime;
+  /** Invited attendee (providers send the invitation/cancellation mails) */
+  attendeeEmail?: string | null;
+}
+
+export interface CreatedCalendarEvent {
+  /** null when nothing is created outside the database (internal ledger) */
+  id: string | null;
+  /** Online-meeting / web link when the provider returns one */
+  link?: string | null;
+}
+
+/** Tokens + account returned by an OAuth code exchange */
+export interface CalendarOAuthResult {
+  accessToken: string;
+  refreshToken: string;
+  accessTokenExpiresAt: Date;
+  accountEmail: string;
+}
+
+/**
+ * One connected calendar, ready to use (tokens already refreshed).
+ * Event ids are provider-specific and stored on Appointment.calendarEventId.
+ */
+export interface CalendarClient {
+  /** null = internal ledger (Appointment rows only) */
+  readonly provider: CalendarProvider | null;
+  readonly calendarId: string;
+  getBusyWindows(timeMinISO: string, timeMaxISO: string): Promise<BusyWindow[]>;
+  createEvent(input: CalendarEventInput): Promise<CreatedCalendarEvent>;
+  updateEventTime(
+    eventId: string,
+    startUtc: DateTime,
+    endUtc: DateTime,
+  ): Promise<void>;
+  /** Remove the event (attendees get a cancellation). Missing events are not an error. */
+  deleteEvent(eventId: string): Promise<void>;
+}
+
+/**
+ * A calendar backend (Google, Microsoft Graph, ...): OAuth exchange and
+ * turning a stored CalendarConnection into a CalendarClient.
+ */
+export interface CalendarProviderAdapter {
+  readonly provider: CalendarProvider;
+  getAuthUrl(state?: string): string;
+  exchangeCode(code: string): Promise<CalendarOAuthResult>;
+  /** Refresh tokens if needed (persisting them) and return a client. Throws OAUTH_REFRESH_FAILED. */
+  connect(
+    conn: CalendarConnection,
+    prisma: PrismaService,
+    logger: Logger,
+  ): Promise<CalendarClient>;
+}
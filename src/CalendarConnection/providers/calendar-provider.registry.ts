@@ -0,0 +1,41 @@
+import type { Logger } from '@nestjs/common';
+import { CalendarConnection, CalendarProvider } from '@prisma/client';
+import type { PrismaService } from 'src/prisma/prisma.service';
+import type {
+  CalendarClient,
+  CalendarProviderAdapter,
+} from './calendar-provider.interface';
+import { GoogleCalendarProvider } from './google-calendar.provider';
+import { OutlookCalendarProvider } from './outlook-calendar.provider';
+
+const providers = new Map<CalendarProvider, CalendarProviderAdapter>([
+  [CalendarProvider.GOOGLE, new GoogleCalendarProvider()],
+  [CalendarProvider.OUTLOOK, new OutlookCalendarProvider()],
+]);
+
+export function getCalendarProvider(
+  provider: CalendarProvider,
+): CalendarProviderAdapter {
+  const adapter = providers.get(provider);
+  if (!adapter) throw new Error(`Unsupported calendar provider: ${provider}`);
+  return adapter;
+}
+
+/**
+ * Replace the implementation for a provider, e.g.
+ * `registerCalendarProvider(new OutlookCalendarProvider(fakeGraphApi))` in tests.
+ */
+export function registerCalendarProvider(
+  adapter: CalendarProviderAdapter,
+): void {
+  providers.set(adapter.provider, adapter);
+}
+
+/** Pick the implementation from CalendarConnection.provider and connect. */
+export function connectCalendar(
+  conn: CalendarConnection,
+  prisma: PrismaService,
+  logger: Logger,
+): Promise<CalendarClient> {
+  return getCalendarProvider(conn.provider).connect(conn, prisma, logger);
+}
@@ -0,0 +1,136 @@
+import type { Logger } from '@nestjs/common';
+import { CalendarConnection, CalendarProvider } from '@prisma/client';
+import { google } from 'googleapis';
+import type { DateTime } from 'luxon';
+import type { PrismaService } from 'src/prisma/prisma.service';
+import { getOAuth2Client } from 'src/agentModules/whatsapp/handlers/tools/google-calendar/connection.utils';
+import { getBusyWindowsFromGoogle } from 'src/agentModules/whatsapp/handlers/tools/google-calendar/google-api.utils';
+import {
+  cancelGoogleCalendarEvent,
+  createGoogleCalendarEvent,
+  rescheduleGoogleCalendarEvent,
+} from 'src/agentModules/whatsapp/handlers/tools/google-calendar/booking.utils';
+import type {
+  BusyWindow,
+  CalendarClient,
+  CalendarEventInput,
+  CalendarOAuthResult,
+  CalendarProviderAdapter,
+  CreatedCalendarEvent,
+} from './calendar-provider.interface';
+
+const GOOGLE_SCOPES = [
+  'https://www.googleapis.com/auth/calendar',
+  'https://www.googleapis.com/auth/userinfo.email',
+  'https://www.googleapis.com/auth/userinfo.profile',
+];
+
+class GoogleCalendarClient implements CalendarClient {
+  readonly provider = CalendarProvider.GOOGLE;
+
+  constructor(
+    private readonly auth: any,
+    readonly calendarId: string,
+    private readonly logger: Logger,
+  ) {}
+
+  getBusyWindows(
+    timeMinISO: string,
+    timeMaxISO: string,
+  ): Promise<BusyWindow[]> {
+    return getBusyWindowsFromGoogle(
+      this.auth,
+      this.calendarId,
+      timeMinISO,
+      timeMaxISO,
+      this.logger,
+    );
+  }
+
+  async createEvent(input: CalendarEventInput): Promise<CreatedCalendarEvent> {
+    const res = await createGoogleCalendarEvent(
+      this.auth,
+      this.calendarId,
+      input.summary,
+      input.description,
+      input.startUtc,
+      input.endUtc,
+      input.attendeeEmail ?? null,
+    );
+    return { id: res.data.id!, link: res.data.hangoutLink ?? null };
+  }
+
+  async updateEventTime(
+    eventId: string,
+    startUtc: DateTime,
+    endUtc: DateTime,
+  ): Promise<void> {
+    await rescheduleGoogleCalendarEvent(
+      this.auth,
+      this.calendarId,
+      eventId,
+      startUtc,
+      endUtc,
+    );
+  }
+
+  deleteEvent(eventId: string): Promise<void> {
+    return cancelGoogleCalendarEvent(this.auth, this.calendarId, eventId);
+  }
+}
+
+/**
+ * Google Calendar via googleapis.
+ * Env: GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, GOOGLE_REDIRECT_URI.
+ */
+export class GoogleCalendarProvider implements CalendarProviderAdapter {
+  readonly provider = CalendarProvider.GOOGLE;
+
+  private oauthClient() {
+    return new google.auth.OAuth2(
+      process.env.GOOGLE_CLIENT_ID,
+      process.env.GOOGLE_CLIENT_SECRET,
+      process.env.GOOGLE_REDIRECT_URI,
+    );
+  }
+
+  getAuthUrl(state?: string): string {
+    return this.oauthClient().generateAuthUrl({
+      access_type: 'offline',
+      prompt: 'consent',
+      scope: GOOGLE_SCOPES,
+      state,
+    });
+  }
+
+  async exchangeCode(code: string): Promise<CalendarOAuthResult> {
+    const client = this.oauthClient();
+    const { tokens } = await client.getToken(code);
+    if (!tokens.access_token || !tokens.refresh_token || !tokens.expiry_date) {
+      throw new Error('Incomplete token data received from Google.');
+    }
+
+    client.setCredentials({ access_token: tokens.access_token });
+    const { data } = await google
+      .oauth2({ version: 'v2', auth: client })
+      .userinfo.get();
+    if (!data.email)
+      throw new Error('Could not retrieve email from Google profile.');
+
+    return {
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      accessTokenExpiresAt: new Date(tokens.expiry_date),
+      accountEmail: data.email,
+    };
+  }
+
+  async connect(
+    conn: CalendarConnection,
+    prisma: PrismaService,
+    logger: Logger,
+  ): Promise<CalendarClient> {
+    const auth = await getOAuth2Client(conn, prisma, logger);
+    return new GoogleCalendarClient(auth, conn.calendarId || 'primary', logger);
+  }
+}
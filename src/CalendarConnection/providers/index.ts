@@ -0,0 +1,6 @@
+export * from './calendar-provider.interface';
+export * from './calendar-provider.registry';
+export * from './google-calendar.provider';
+export * from './internal-ledger.client';
+export * from './microsoft-graph.api';
+export * from './outlook-calendar.provider';
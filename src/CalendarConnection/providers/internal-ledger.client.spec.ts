@@ -0,0 +1,67 @@
+import { AppointmentStatus } from '@prisma/client';
+import { DateTime } from 'luxon';
+import type { PrismaService } from 'src/prisma/prisma.service';
+
+import type { CalendarClient } from './calendar-provider.interface';
+import { InternalLedgerCalendarClient } from './internal-ledger.client';
+
+describe('InternalLedgerCalendarClient', () => {
+  let findMany: jest.Mock;
+  let client: CalendarClient;
+
+  beforeEach(() => {
+    findMany = jest.fn().mockResolvedValue([
+      {
+        startTime: new Date('2030-01-01T09:00:00Z'),
+        endTime: new Date('2030-01-01T09:30:00Z'),
+      },
+    ]);
+    const prisma = { appointment: { findMany } };
+    client = new InternalLedgerCalendarClient(
+      prisma as unknown as PrismaService,
+      'agent-1',
+    );
+  });
+
+  it('reports the active appointments of the agent in the window as busy', async () => {
+    const busy = await client.getBusyWindows(
+      '2030-01-01T00:00:00Z',
+      '2030-01-02T00:00:00Z',
+    );
+
+    expect(findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          agentId: 'agent-1',
+          status: {
+            in: [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED],
+          },
+          startTime: { lt: new Date('2030-01-02T00:00:00Z') },
+          endTime: { gt: new Date('2030-01-01T00:00:00Z') },
+        },
+      }),
+    );
+    expect(busy).toHaveLength(1);
+    expect(busy[0].start.toISO()).toBe('2030-01-01T09:00:00.000Z');
+    expect(busy[0].end.toISO()).toBe('2030-01-01T09:30:00.000Z');
+  });
+
+  it('keeps events in the database only', async () => {
+    const start = DateTime.fromISO('2030-01-01T09:00:00Z');
+    const end = start.plus({ minutes: 30 });
+
+    expect(client.provider).toBeNull();
+    await expect(
+      client.createEvent({
+        summary: 'Appointment',
+        description: '',
+        startUtc: start,
+        endUtc: end,
+      }),
+    ).resolves.toEqual({ id: null });
+    await expect(
+      client.updateEventTime('x', start, end),
+    ).resolves.toBeUndefined();
+    await expect(client.deleteEvent('x')).resolves.toBeUndefined();
+  });
+});
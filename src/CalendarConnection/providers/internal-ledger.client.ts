@@ -0,0 +1,56 @@
+import { DateTime } from 'luxon';
+import type { PrismaService } from 'src/prisma/prisma.service';
+import { ACTIVE_APPOINTMENT_STATUSES } from 'src/agentModules/appointment/appointment-ledger';
+import type {
+  BusyWindow,
+  CalendarClient,
+  CreatedCalendarEvent,
+} from './calendar-provider.interface';
+
+/**
+ * Internal calendar: the agent's own Appointment rows are the only busy time
+ * and bookings are written to Postgres only (no external event). Used when no
+ * CalendarConnection is assigned; double bookings are prevented by withSlotGuard.
+ */
+export class InternalLedgerCalendarClient implements CalendarClient {
+  readonly provider = null;
+  readonly calendarId = 'internal';
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly agentId: string,
+  ) {}
+
+  async getBusyWindows(
+    timeMinISO: string,
+    timeMaxISO: string,
+  ): Promise<BusyWindow[]> {
+    const rows = await this.prisma.appointment.findMany({
+      where: {
+        agentId: this.agentId,
+        status: { in: ACTIVE_APPOINTMENT_STATUSES },
+        startTime: { lt: DateTime.fromISO(timeMaxISO).toJSDate() },
+        endTime: { gt: DateTime.fromISO(timeMinISO).toJSDate() },
+      },
+      select: { startTime: true, endTime: true },
+      orderBy: { startTime: 'asc' },
+    });
+    return rows.map((r) => ({
+      start: DateTime.fromJSDate(r.startTime, { zone: 'utc' }),
+      end: DateTime.fromJSDate(r.endTime, { zone: 'utc' }),
+    }));
+  }
+
+  /** Nothing to create outside the database */
+  createEvent(): Promise<CreatedCalendarEvent> {
+    return Promise.resolve({ id: null });
+  }
+
+  updateEventTime(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  deleteEvent(): Promise<void> {
+    return Promise.resolve();
+  }
+}
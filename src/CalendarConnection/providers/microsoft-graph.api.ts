@@ -0,0 +1,174 @@
+/** Token endpoint response (Microsoft identity platform v2) */
+export interface MicrosoftTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  /** seconds */
+  expires_in: number;
+  scope?: string;
+  token_type?: string;
+}
+
+export interface GraphRequestOptions {
+  query?: Record<string, string>;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/** Error thrown for non-2xx Graph/identity responses; `status` mirrors the HTTP status. */
+export class MicrosoftGraphError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: string,
+  ) {
+    super(message);
+    this.name = 'MicrosoftGraphError';
+  }
+}
+
+/**
+ * The HTTP surface OutlookCalendarProvider needs. The default implementation
+ * talks to Microsoft; tests can pass a local stand-in (or point the base URLs
+ * at one with MICROSOFT_GRAPH_BASE_URL / MICROSOFT_LOGIN_BASE_URL).
+ */
+export interface MicrosoftGraphApi {
+  readonly clientId: string;
+  readonly redirectUri: string;
+  authorizeUrl(params: Record<string, string>): string;
+  exchangeCode(code: string, scope: string): Promise<MicrosoftTokenResponse>;
+  refreshToken(
+    refreshToken: string,
+    scope: string,
+  ): Promise<MicrosoftTokenResponse>;
+  /** `path` is relative to the Graph base URL, or an absolute @odata.nextLink */
+  request<T = unknown>(
+    accessToken: string,
+    method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+    path: string,
+    options?: GraphRequestOptions,
+  ): Promise<T>;
+}
+
+/**
+ * fetch-based Microsoft Graph client.
+ * Env: MICROSOFT_CLIENT_ID, MICROSOFT_CLIENT_SECRET, MICROSOFT_REDIRECT_URI,
+ * MICROSOFT_TENANT_ID (default "common").
+ */
+export class HttpMicrosoftGraphApi implements MicrosoftGraphApi {
+  readonly clientId = process.env.MICROSOFT_CLIENT_ID || '';
+  readonly redirectUri = process.env.MICROSOFT_REDIRECT_URI || '';
+  private readonly clientSecret = process.env.MICROSOFT_CLIENT_SECRET || '';
+  private readonly tenant = process.env.MICROSOFT_TENANT_ID || 'common';
+  private readonly graphBaseUrl = (
+    process.env.MICROSOFT_GRAPH_BASE_URL || 'https://graph.microsoft.com/v1.0'
+  ).replace(/\/+$/, '');
+  private readonly loginBaseUrl = (
+    process.env.MICROSOFT_LOGIN_BASE_URL || 'https://login.microsoftonline.com'
+  ).replace(/\/+$/, '');
+
+  authorizeUrl(params: Record<string, string>): string {
+    const qs = new URLSearchParams({
+      client_id: this.clientId,
+      redirect_uri: this.redirectUri,
+      response_type: 'code',
+      response_mode: 'query',
+      ...params,
+    });
+    return `${this.loginBaseUrl}/${this.tenant}/oauth2/v2.0/authorize?${qs.toString()}`;
+  }
+
+  exchangeCode(code: string, scope: string): Promise<MicrosoftTokenResponse> {
+    return this.token({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.redirectUri,
+      scope,
+    });
+  }
+
+  refreshToken(
+    refreshToken: string,
+    scope: string,
+  ): Promise<MicrosoftTokenResponse> {
+    return this.token({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      scope,
+    });
+  }
+
+  async request<T = unknown>(
+    accessToken: string,
+    method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+    path: string,
+    options: GraphRequestOptions = {},
+  ): Promise<T> {
+    const url = new URL(
+      /^https?:\/\//i.test(path) ? path : `${this.graphBaseUrl}${path}`,
+    );
+    for (const [k, v] of Object.entries(options.query ?? {})) {
+      url.searchParams.set(k, v);
+    }
+
+    const res = await fetch(url, {
+      method,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        ...(options.body !== undefined
+          ? { 'Content-Type': 'application/json' }
+          : {}),
+        ...options.headers,
+      },
+      body:
+        options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    });
+
+    if (!res.ok) throw await this.toError(res);
+    if (res.status === 204) return undefined as T;
+    const text = await res.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
+  private async token(
+    params: Record<string, string>,
+  ): Promise<MicrosoftTokenResponse> {
+    if (!this.clientId || !this.clientSecret) {
+      throw new Error('Microsoft OAuth credentials are not configured');
+    }
+    const res = await fetch(
+      `${this.loginBaseUrl}/${this.tenant}/oauth2/v2.0/token`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          client_id: this.clientId,
+          client_secret: this.clientSecret,
+          ...params,
+        }).toString(),
+      },
+    );
+    if (!res.ok) throw await this.toError(res);
+    return (await res.json()) as MicrosoftTokenResponse;
+  }
+
+  private async toError(res: Response): Promise<MicrosoftGraphError> {
+    let code: string | undefined;
+    let message = `${res.status} ${res.statusText}`;
+    try {
+      const body = (await res.json()) as {
+        error?: { code?: string; message?: string } | string;
+        error_description?: string;
+      };
+      if (typeof body.error === 'string') {
+        code = body.error;
+        message = body.error_description || body.error;
+      } else if (body.error) {
+        code = body.error.code;
+        message = body.error.message || message;
+      }
+    } catch {
+      // non-JSON error body
+    }
+    return new MicrosoftGraphError(message, res.status, code);
+  }
+}
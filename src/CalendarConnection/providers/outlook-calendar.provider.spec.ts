@@ -0,0 +1,293 @@
+import { Logger } from '@nestjs/common';
+import { CalendarConnection, CalendarProvider } from '@prisma/client';
+import { DateTime } from 'luxon';
+import type { PrismaService } from 'src/prisma/prisma.service';
+
+import {
+  connectCalendar,
+  registerCalendarProvider,
+} from './calendar-provider.registry';
+import {
+  MicrosoftGraphError,
+  type GraphRequestOptions,
+  type MicrosoftGraphApi,
+  type MicrosoftTokenResponse,
+} from './microsoft-graph.api';
+import { OutlookCalendarProvider } from './outlook-calendar.provider';
+
+// The registry also builds the Google provider; keep googleapis out of this suite
+jest.mock('./google-calendar.provider', () => ({
+  GoogleCalendarProvider: class {
+    readonly provider = 'GOOGLE';
+  },
+}));
+
+type GraphCall = {
+  accessToken: string;
+  method: string;
+  path: string;
+  options?: GraphRequestOptions;
+};
+
+/** In-memory Graph: canned responses per "METHOD path", every call recorded */
+class FakeGraphApi implements MicrosoftGraphApi {
+  readonly clientId = 'client-id';
+  readonly redirectUri = 'https://app.example.com/outlook/callback';
+  readonly calls: GraphCall[] = [];
+  readonly responses = new Map<string, unknown>();
+  refreshToken = jest.fn((): Promise<MicrosoftTokenResponse> =>
+    Promise.resolve({
+      access_token: 'fresh-token',
+      refresh_token: 'rotated-refresh',
+      expires_in: 3600,
+    }),
+  );
+
+  authorizeUrl(params: Record<string, string>): string {
+    return `https://login.example.com/authorize?${new URLSearchParams(params).toString()}`;
+  }
+
+  exchangeCode(): Promise<MicrosoftTokenResponse> {
+    return Promise.resolve({
+      access_token: 'code-token',
+      refresh_token: 'code-refresh',
+      expires_in: 3600,
+    });
+  }
+
+  request<T = unknown>(
+    accessToken: string,
+    method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+    path: string,
+    options?: GraphRequestOptions,
+  ): Promise<T> {
+    this.calls.push({ accessToken, method, path, options });
+    const response = this.responses.get(`${method} ${path}`);
+    if (response instanceof Error) return Promise.reject(response);
+    return Promise.resolve(response as T);
+  }
+}
+
+function connection(overrides: Partial<CalendarConnection> = {}) {
+  return {
+    id: 'conn-1',
+    provider: CalendarProvider.OUTLOOK,
+    accountEmail: 'owner@example.com',
+    refreshToken: 'refresh',
+    isPrimary: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    accessToken: 'valid-token',
+    accessTokenExpiresAt: new Date(Date.now() + 3_600_000),
+    calendarId: 'primary',
+    userId: 'user-1',
+    ...overrides,
+  } satisfies CalendarConnection;
+}
+
+describe('OutlookCalendarProvider', () => {
+  const logger = new Logger('OutlookCalendarProviderSpec');
+  let graph: FakeGraphApi;
+  let prisma: { calendarConnection: { update: jest.Mock } };
+
+  beforeEach(() => {
+    graph = new FakeGraphApi();
+    registerCalendarProvider(new OutlookCalendarProvider(graph));
+    prisma = { calendarConnection: { update: jest.fn() } };
+  });
+
+  afterAll(() => {
+    registerCalendarProvider(new OutlookCalendarProvider());
+  });
+
+  const connect = (conn = connection()) =>
+    connectCalendar(conn, prisma as unknown as PrismaService, logger);
+
+  describe('connect', () => {
+    it('uses a valid access token as is', async () => {
+      const client = await connect();
+
+      expect(client.provider).toBe(CalendarProvider.OUTLOOK);
+      expect(graph.refreshToken).not.toHaveBeenCalled();
+      expect(prisma.calendarConnection.update).not.toHaveBeenCalled();
+    });
+
+    it('refreshes an expired token and keeps the rotated refresh token', async () => {
+      const client = await connect(
+        connection({ accessTokenExpiresAt: new Date(Date.now() - 1000) }),
+      );
+      graph.responses.set('GET /me/calendar/calendarView', { value: [] });
+      await client.getBusyWindows(
+        '2030-01-01T00:00:00Z',
+        '2030-01-02T00:00:00Z',
+      );
+
+      expect(graph.refreshToken).toHaveBeenCalledWith(
+        'refresh',
+        expect.stringContaining('Calendars.ReadWrite'),
+      );
+      expect(prisma.calendarConnection.update).toHaveBeenCalledWith({
+        where: { id: 'conn-1' },
+        data: expect.objectContaining({
+          accessToken: 'fresh-token',
+          refreshToken: 'rotated-refresh',
+        }),
+      });
+      expect(graph.calls[0].accessToken).toBe('fresh-token');
+    });
+
+    it('fails with OAUTH_REFRESH_FAILED when the refresh is rejected', async () => {
+      graph.refreshToken.mockRejectedValueOnce(
+        new MicrosoftGraphError('invalid_grant', 400, 'invalid_grant'),
+      );
+
+      await expect(connect(connection({ accessToken: null }))).rejects.toThrow(
+        'OAUTH_REFRESH_FAILED',
+      );
+      await expect(
+        connect(connection({ accessToken: null, refreshToken: null })),
+      ).rejects.toThrow('OAUTH_REFRESH_FAILED');
+    });
+  });
+
+  describe('getBusyWindows', () => {
+    it('follows nextLink pages and skips free or cancelled events', async () => {
+      const nextLink =
+        'https://graph.microsoft.com/v1.0/me/calendars/work/calendarView?$skip=100';
+      graph.responses.set('GET /me/calendars/work/calendarView', {
+        value: [
+          {
+            start: { dateTime: '2030-01-01T09:00:00.0000000' },
+            end: { dateTime: '2030-01-01T10:00:00.0000000' },
+            showAs: 'busy',
+          },
+          {
+            start: { dateTime: '2030-01-01T11:00:00.0000000' },
+            end: { dateTime: '2030-01-01T12:00:00.0000000' },
+            showAs: 'free',
+          },
+        ],
+        '@odata.nextLink': nextLink,
+      });
+      graph.responses.set(`GET ${nextLink}`, {
+        value: [
+          {
+            start: { dateTime: '2030-01-01T13:00:00.0000000' },
+            end: { dateTime: '2030-01-01T14:00:00.0000000' },
+            isCancelled: true,
+          },
+          {
+            start: { dateTime: '2030-01-01T15:00:00.0000000' },
+            end: { dateTime: '2030-01-01T15:30:00.0000000' },
+            showAs: 'tentative',
+          },
+        ],
+      });
+
+      const client = await connect(connection({ calendarId: 'work' }));
+      const busy = await client.getBusyWindows(
+        '2030-01-01T00:00:00Z',
+        '2030-01-02T00:00:00Z',
+      );
+
+      expect(busy.map((b) => [b.start.toISO(), b.end.toISO()])).toEqual([
+        ['2030-01-01T09:00:00.000Z', '2030-01-01T10:00:00.000Z'],
+        ['2030-01-01T15:00:00.000Z', '2030-01-01T15:30:00.000Z'],
+      ]);
+      expect(graph.calls[0].options?.query).toMatchObject({
+        startDateTime: '2030-01-01T00:00:00Z',
+        endDateTime: '2030-01-02T00:00:00Z',
+      });
+      expect(graph.calls[1].options?.query).toBeUndefined();
+    });
+  });
+
+  describe('events', () => {
+    const start = DateTime.fromISO('2030-01-01T09:00:00Z', { zone: 'utc' });
+    const end = start.plus({ minutes: 30 });
+
+    it('creates the event in UTC with the attendee invited', async () => {
+      graph.responses.set('POST /me/calendar/events', {
+        id: 'evt-1',
+        onlineMeeting: { joinUrl: 'https://teams.example.com/j/1' },
+      });
+      const client = await connect();
+
+      const event = await client.createEvent({
+        summary: 'Consultation',
+        description: 'Notes',
+        startUtc: start,
+        endUtc: end,
+        attendeeEmail: 'jane@example.com',
+      });
+
+      expect(event).toEqual({
+        id: 'evt-1',
+        link: 'https://teams.example.com/j/1',
+      });
+      expect(graph.calls[0].options?.body).toMatchObject({
+        subject: 'Consultation',
+        start: { dateTime: '2030-01-01T09:00:00', timeZone: 'UTC' },
+        end: { dateTime: '2030-01-01T09:30:00', timeZone: 'UTC' },
+        attendees: [
+          {
+            emailAddress: { address: 'jane@example.com' },
+            type: 'required',
+          },
+        ],
+      });
+    });
+
+    it('moves the event with a PATCH', async () => {
+      const client = await connect();
+
+      await client.updateEventTime('evt/1', start, end);
+
+      expect(graph.calls[0]).toMatchObject({
+        method: 'PATCH',
+        path: '/me/events/evt%2F1',
+        options: {
+          body: {
+            start: { dateTime: '2030-01-01T09:00:00', timeZone: 'UTC' },
+            end: { dateTime: '2030-01-01T09:30:00', timeZone: 'UTC' },
+          },
+        },
+      });
+    });
+
+    it('treats an already deleted event as deleted', async () => {
+      graph.responses.set(
+        'DELETE /me/events/gone',
+        new MicrosoftGraphError('Not found', 404),
+      );
+      graph.responses.set(
+        'DELETE /me/events/broken',
+        new MicrosoftGraphError('Server error', 500),
+      );
+      const client = await connect();
+
+      await expect(client.deleteEvent('gone')).resolves.toBeUndefined();
+      await expect(client.deleteEvent('broken')).rejects.toThrow(
+        'Server error',
+      );
+    });
+  });
+
+  describe('exchangeCode', () => {
+    it('returns the tokens and the profile email', async () => {
+      graph.responses.set('GET /me', {
+        userPrincipalName: 'owner@example.com',
+      });
+
+      const result = await new OutlookCalendarProvider(graph).exchangeCode(
+        'auth-code',
+      );
+
+      expect(result).toMatchObject({
+        accessToken: 'code-token',
+        refreshToken: 'code-refresh',
+        accountEmail: 'owner@example.com',
+      });
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import type { Logger } from '@nestjs/common';
+import { CalendarConnection, CalendarProvider } from '@prisma/client';
+import { DateTime } from 'luxon';
+import type { PrismaService } from 'src/prisma/prisma.service';
+import type {
+  BusyWindow,
+  CalendarClient,
+  CalendarEventInput,
+  CalendarOAuthResult,
+  CalendarProviderAdapter,
+  CreatedCalendarEvent,
+} from './calendar-provider.interface';
+import {
+  HttpMicrosoftGraphApi,
+  MicrosoftGraphError,
+  type MicrosoftGraphApi,
+} from './microsoft-graph.api';
+
+const TOOL_DEBUG = process.env.TOOL_DEBUG === '1';
+
+const GRAPH_SCOPES = 'offline_access User.Read Calendars.ReadWrite';
+
+/** Graph wants local date-times + a zone; we always send UTC. */
+function toGraphDateTime(dt: DateTime) {
+  return {
+    dateTime: dt.toUTC().toFormat("yyyy-LL-dd'T'HH:mm:ss"),
+    timeZone: 'UTC',
+  };
+}
+
+type GraphEventTime = { dateTime: string; timeZone?: string };
+
+type GraphCalendarViewItem = {
+  start: GraphEventTime;
+  end: GraphEventTime;
+  showAs?: string;
+  isCancelled?: boolean;
+};
+
+class OutlookCalendarClient implements CalendarClient {
+  readonly provider = CalendarProvider.OUTLOOK;
+
+  constructor(
+    private readonly api: MicrosoftGraphApi,
+    private readonly accessToken: string,
+    readonly calendarId: string,
+    private readonly logger: Logger,
+  ) {}
+
+  /** "primary" maps to the user's default calendar */
+  private get calendarPath(): string {
+    return this.calendarId === 'primary'
+      ? '/me/calendar'
+      : `/me/calendars/${encodeURIComponent(this.calendarId)}`;
+  }
+
+  async getBusyWindows(
+    timeMinISO: string,
+    timeMaxISO: string,
+  ): Promise<BusyWindow[]> {
+    const windows: BusyWindow[] = [];
+    let next: string | null = `${this.calendarPath}/calendarView`;
+    let query: Record<string, string> | undefined = {
+      startDateTime: timeMinISO,
+      endDateTime: timeMaxISO,
+      $select: 'start,end,showAs,isCancelled',
+      $top: '100',
+    };
+
+    while (next) {
+      const page: {
+        value?: GraphCalendarViewItem[];
+        '@odata.nextLink'?: string;
+      } = await this.api.request(this.accessToken, 'GET', next, {
+        query,
+        headers: { Prefer: 'outlook.timezone="UTC"' },
+      });
+
+      for (const item of page.value ?? []) {
+        if (item.isCancelled || item.showAs === 'free') continue;
+        windows.push({
+          start: DateTime.fromISO(item.start.dateTime, { zone: 'utc' }),
+          end: DateTime.fromISO(item.end.dateTime, { zone: 'utc' }),
+        });
+      }
+      next = page['@odata.nextLink'] ?? null;
+      query = undefined; // nextLink already carries the query
+    }
+
+    if (TOOL_DEBUG)
+      this.logger.log(`[graph calendarView] busyCount=${windows.length}`);
+    return windows;
+  }
+
+  async createEvent(input: CalendarEventInput): Promise<CreatedCalendarEvent> {
+    const event = await this.api.request<{
+      id: string;
+      webLink?: string;
+      onlineMeeting?: { joinUrl?: string } | null;
+    }>(this.accessToken, 'POST', `${this.calendarPath}/events`, {
+      body: {
+        subject: input.summary,
+        body: { contentType: 'text', content: input.description },
+        start: toGraphDateTime(input.startUtc),
+        end: toGraphDateTime(input.endUtc),
+        attendees: input.attendeeEmail
+          ? [
+              {
+                emailAddress: { address: input.attendeeEmail },
+                type: 'required',
+              },
+            ]
+          : [],
+      },
+    });
+    return { id: event.id, link: event.onlineMeeting?.joinUrl ?? null };
+  }
+
+  async updateEventTime(
+    eventId: string,
+    startUtc: DateTime,
+    endUtc: DateTime,
+  ): Promise<void> {
+    await this.api.request(
+      this.accessToken,
+      'PATCH',
+      `/me/events/${encodeURIComponent(eventId)}`,
+      {
+        body: {
+          start: toGraphDateTime(startUtc),
+          end: toGraphDateTime(endUtc),
+        },
+      },
+    );
+  }
+
+  /** Deleting an organizer's meeting sends cancellations to attendees. */
+  async deleteEvent(eventId: string): Promise<void> {
+    try {
+      await this.api.request(
+        this.accessToken,
+        'DELETE',
+        `/me/events/${encodeURIComponent(eventId)}`,
+      );
+    } catch (err) {
+      if (
+        err instanceof MicrosoftGraphError &&
+        (err.status === 404 || err.status === 410)
+      ) {
+        return;
+      }
+      throw err;
+    }
+  }
+}
+
+/**
+ * Outlook / Microsoft 365 calendars via Microsoft Graph.
+ * Pass a MicrosoftGraphApi to swap the HTTP layer (e.g. a local stand-in in tests).
+ */
+export class OutlookCalendarProvider implements CalendarProviderAdapter {
+  readonly provider = CalendarProvider.OUTLOOK;
+
+  constructor(
+    private readonly api: MicrosoftGraphApi = new HttpMicrosoftGraphApi(),
+  ) {}
+
+  getAuthUrl(state?: string): string {
+    return this.api.authorizeUrl({
+      scope: GRAPH_SCOPES,
+      prompt: 'select_account',
+      ...(state ? { state } : {}),
+    });
+  }
+
+  async exchangeCode(code: string): Promise<CalendarOAuthResult> {
+    const tokens = await this.api.exchangeCode(code, GRAPH_SCOPES);
+    if (!tokens.access_token || !tokens.refresh_token) {
+      throw new Error('Incomplete token data received from Microsoft.');
+    }
+
+    const me = await this.api.request<{
+      mail?: string | null;
+      userPrincipalName?: string | null;
+    }>(tokens.access_token, 'GET', '/me', {
+      query: { $select: 'mail,userPrincipalName' },
+    });
+    const accountEmail = me.mail || me.userPrincipalName;
+    if (!accountEmail)
+      throw new Error('Could not retrieve email from Microsoft profile.');
+
+    return {
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      accessTokenExpiresAt: new Date(Date.now() + tokens.expires_in * 1000),
+      accountEmail,
+    };
+  }
+
+  async connect(
+    conn: CalendarConnection,
+    prisma: PrismaService,
+    logger: Logger,
+  ): Promise<CalendarClient> {
+    let accessToken = conn.accessToken;
+    const expiresAt = conn.accessTokenExpiresAt?.getTime() ?? 0;
+
+    if (!accessToken || expiresAt < Date.now() + 60_000) {
+      if (!conn.refreshToken) {
+        logger.error(`[graph oauth] no refresh token for ${conn.accountEmail}`);
+        throw new Error('OAUTH_REFRESH_FAILED');
+      }
+      try {
+        const tokens = await this.api.refreshToken(
+          conn.refreshToken,
+          GRAPH_SCOPES,
+        );
+        accessToken = tokens.access_token;
+        await prisma.calendarConnection.update({
+          where: { id: conn.id },
+          data: {
+            accessToken,
+            accessTokenExpiresAt: new Date(
+              Date.now() + tokens.expires_in * 1000,
+            ),
+            // Microsoft rotates refresh tokens; keep the newest
+            refreshToken: tokens.refresh_token ?? conn.refreshToken,
+            updatedAt: new Date(),
+          },
+        });
+        if (TOOL_DEBUG)
+          logger.log(`[graph oauth] tokens updated for ${conn.accountEmail}`);
+      } catch (e: any) {
+        logger.error(
+          `[graph oauth] token refresh failed: ${e?.message}`,
+          e?.stack,
+        );
+        throw new Error('OAUTH_REFRESH_FAILED');
+      }
+    }
+
+    return new OutlookCalendarClient(
+      this.api,
+      accessToken,
+      conn.calendarId || 'primary',
+      logger,
+    );
+  }
+}
@@ -47,6 +47,7 @@ import {
   OpenAIModel,
   GeminiModel,
   ClaudeModel,
+  VoiceReplyMode,
 } from '@prisma/client';
 
 import { AgentService, GetAllAgentsQuery } from './agent.service';
@@ -88,6 +89,11 @@ class AgentResponseDto {
   @ApiProperty() isVoiceResponseAvailable!: boolean;
   @ApiProperty() isImageDataExtraction!: boolean;
 
+  /** Voice reply settings */
+  @ApiProperty({ enum: VoiceReplyMode }) voiceReplyMode!: VoiceReplyMode;
+  @ApiProperty({ nullable: true, example: 'alloy' }) ttsVoice!: string | null;
+  @ApiProperty({ nullable: true, example: 'en' }) ttsLanguage!: string | null;
+
   @ApiProperty({ type: String, format: 'date-time' }) createdAt!: Date;
   @ApiProperty({ type: String, format: 'date-time' }) updatedAt!: Date;
   @ApiProperty({ format: 'uuid' }) userId!: string;
@@ -216,6 +222,9 @@ export class AgentController {
       isEmailActive: a.isEmailActive,
       isVoiceResponseAvailable: (a as any).isVoiceResponseAvailable ?? false,
       isImageDataExtraction: (a as any).isImageDataExtraction ?? false,
+      voiceReplyMode: a.voiceReplyMode ?? VoiceReplyMode.MIRROR,
+      ttsVoice: a.ttsVoice ?? null,
+      ttsLanguage: a.ttsLanguage ?? null,
       createdAt: a.createdAt,
       updatedAt: a.updatedAt,
       userId: a.userId,
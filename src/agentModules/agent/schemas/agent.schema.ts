@@ -10,8 +10,18 @@ import {
   OpenAIModel,
   GeminiModel,
   ClaudeModel,
+  VoiceReplyMode,
 } from "@prisma/client";
 
+/** OpenAI TTS voice id (e.g. "alloy", "nova") */
+const ttsVoiceSchema = z.string().trim().min(1).max(32);
+/** ISO-639-1 language code used for transcription + TTS */
+const ttsLanguageSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z]{2}$/, "ttsLanguage must be an ISO-639-1 code (e.g. en)");
+
 /* ----------------- DB shape you return to clients ----------------- */
 export const agentSchema = z.object({
   id: z.string().uuid(),
@@ -26,6 +36,11 @@ export const agentSchema = z.object({
   isVoiceResponseAvailable: z.boolean(),
   isImageDataExtraction: z.boolean(),
 
+  /** Voice reply settings */
+  voiceReplyMode: z.nativeEnum(VoiceReplyMode),
+  ttsVoice: z.string().nullable(),
+  ttsLanguage: z.string().nullable(),
+
   createdAt: z.date(),
   updatedAt: z.date(),
   userId: z.string().uuid(),
@@ -87,6 +102,11 @@ const createAgentCore = z.object({
   isVoiceResponseAvailable: z.boolean().default(false),
   isImageDataExtraction: z.boolean().default(false),
 
+  /** Voice reply settings */
+  voiceReplyMode: z.nativeEnum(VoiceReplyMode).default(VoiceReplyMode.MIRROR),
+  ttsVoice: ttsVoiceSchema.optional().nullable(),
+  ttsLanguage: ttsLanguageSchema.optional().nullable(),
+
   /** Default number of messages to keep in BUFFER memory */
   historyLimit: z.number().int().min(0).default(20),
 
@@ -151,6 +171,11 @@ export const updateAgentSchema = z
     isVoiceResponseAvailable: z.boolean().optional(),
     isImageDataExtraction: z.boolean().optional(),
 
+    /** Voice reply settings */
+    voiceReplyMode: z.nativeEnum(VoiceReplyMode).optional(),
+    ttsVoice: ttsVoiceSchema.optional().nullable(),
+    ttsLanguage: ttsLanguageSchema.optional().nullable(),
+
     /** Update the BUFFER memory window size */
     historyLimit: z.number().int().min(0).optional(),
 
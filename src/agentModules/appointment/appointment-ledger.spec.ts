@@ -0,0 +1,296 @@
+import { AppointmentStatus, Prisma } from '@prisma/client';
+import type { PrismaService } from 'src/prisma/prisma.service';
+
+import {
+  APPOINTMENT_OVERLAP_CONSTRAINT,
+  DailyLimitReachedError,
+  MAX_SLOT_HOLDS,
+  SlotTakenError,
+  holdOfferedSlots,
+  withSlotGuard,
+  type AppointmentSlot,
+} from './appointment-ledger';
+
+type Row = {
+  id: string;
+  agentId: string;
+  startTime: Date;
+  endTime: Date;
+  status: AppointmentStatus;
+  calendarConnectionId: string | null;
+};
+
+type Hold = {
+  agentId: string;
+  senderJid: string;
+  startTime: Date;
+  endTime: Date;
+  expiresAt: Date;
+};
+
+type Where = Record<string, unknown>;
+
+/** Minimal Prisma `where` evaluation for the filters the ledger builds */
+function matches(row: Record<string, unknown>, where: Where): boolean {
+  return Object.entries(where).every(([key, cond]) => {
+    if (key === 'OR') return (cond as Where[]).some((c) => matches(row, c));
+    const value = row[key] as Date | string | null;
+    if (cond === null || typeof cond !== 'object') return value === cond;
+    return Object.entries(cond as Record<string, any>).every(([op, arg]) => {
+      switch (op) {
+        case 'in':
+          return (arg as unknown[]).includes(value);
+        case 'not':
+          return value !== arg;
+        case 'lt':
+          return value! < arg;
+        case 'lte':
+          return value! <= arg;
+        case 'gt':
+          return value! > arg;
+        case 'gte':
+          return value! >= arg;
+        default:
+          throw new Error(`unsupported operator ${op}`);
+      }
+    });
+  });
+}
+
+/**
+ * In-memory stand-in for Postgres: pg_advisory_xact_lock is a per-key mutex
+ * held until the transaction ends, so concurrent guards really interleave.
+ */
+function fakeLedgerDb() {
+  const rows: Row[] = [];
+  let holds: Hold[] = [];
+  const locks = new Map<string, Promise<void>>();
+
+  const prisma = {
+    $transaction: async <T>(fn: (tx: unknown) => Promise<T>): Promise<T> => {
+      const released: (() => void)[] = [];
+      const tx = {
+        $executeRaw: async (_sql: TemplateStringsArray, key: string) => {
+          const previous = locks.get(key) ?? Promise.resolve();
+          let release!: () => void;
+          const current = new Promise<void>((r) => (release = r));
+          locks.set(
+            key,
+            previous.then(() => current),
+          );
+          released.push(release);
+          await previous;
+          return 1;
+        },
+        appointment: {
+          findFirst: ({ where }: { where: Where }) =>
+            Promise.resolve(rows.find((r) => matches(r, where)) ?? null),
+          count: ({ where }: { where: Where }) =>
+            Promise.resolve(rows.filter((r) => matches(r, where)).length),
+          create: async ({ data }: { data: Omit<Row, 'id' | 'status'> }) => {
+            // Yield so a second booking gets to run its overlap check meanwhile
+            await new Promise((r) => setTimeout(r, 5));
+            const row: Row = {
+              id: `appt-${rows.length + 1}`,
+              status: AppointmentStatus.CONFIRMED,
+              ...data,
+            };
+            rows.push(row);
+            return row;
+          },
+        },
+        slotHold: {
+          findFirst: ({ where }: { where: Where }) =>
+            Promise.resolve(holds.find((h) => matches(h, where)) ?? null),
+          findMany: ({ where }: { where: Where }) =>
+            Promise.resolve(holds.filter((h) => matches(h, where))),
+          deleteMany: ({ where }: { where: Where }) => {
+            const before = holds.length;
+            holds = holds.filter((h) => !matches(h, where));
+            return Promise.resolve({ count: before - holds.length });
+          },
+          createMany: ({ data }: { data: Hold[] }) => {
+            holds.push(...data);
+            return Promise.resolve({ count: data.length });
+          },
+        },
+      };
+      try {
+        return await fn(tx);
+      } finally {
+        released.forEach((release) => release());
+      }
+    },
+  };
+  return {
+    prisma: prisma as unknown as PrismaService,
+    rows,
+    holds: () => holds,
+  };
+}
+
+const at = (iso: string) => new Date(`2030-01-01T${iso}:00Z`);
+
+function slot(overrides: Partial<AppointmentSlot> = {}): AppointmentSlot {
+  return {
+    agentId: 'agent-1',
+    startTime: at('09:00'),
+    endTime: at('09:30'),
+    calendarConnectionId: null,
+    ...overrides,
+  };
+}
+
+const book =
+  (s: AppointmentSlot) =>
+  (tx: Prisma.TransactionClient): Promise<unknown> =>
+    tx.appointment.create({
+      data: {
+        agentId: s.agentId,
+        startTime: s.startTime,
+        endTime: s.endTime,
+        calendarConnectionId: s.calendarConnectionId ?? null,
+      },
+    });
+
+describe('withSlotGuard', () => {
+  it('lets exactly one of two concurrent bookings take the slot', async () => {
+    const { prisma, rows } = fakeLedgerDb();
+    const s = slot();
+
+    const results = await Promise.allSettled([
+      withSlotGuard(prisma, s, book(s)),
+      withSlotGuard(prisma, s, book(s)),
+    ]);
+
+    expect(results.map((r) => r.status).sort()).toEqual([
+      'fulfilled',
+      'rejected',
+    ]);
+    const rejected = results.find((r) => r.status === 'rejected');
+    expect(rejected?.reason).toBeInstanceOf(SlotTakenError);
+    expect((rejected?.reason as SlotTakenError).conflictId).toBe(rows[0].id);
+    expect(rows).toHaveLength(1);
+  });
+
+  it('books concurrent adjacent slots', async () => {
+    const { prisma, rows } = fakeLedgerDb();
+    const first = slot();
+    const second = slot({ startTime: at('09:30'), endTime: at('10:00') });
+
+    await Promise.all([
+      withSlotGuard(prisma, first, book(first)),
+      withSlotGuard(prisma, second, book(second)),
+    ]);
+
+    expect(rows).toHaveLength(2);
+  });
+
+  it('keeps the buffer free around other appointments', async () => {
+    const { prisma } = fakeLedgerDb();
+    const first = slot();
+    await withSlotGuard(prisma, first, book(first));
+
+    const next = slot({
+      startTime: at('09:40'),
+      endTime: at('10:10'),
+      bufferBeforeMin: 15,
+    });
+    await expect(withSlotGuard(prisma, next, book(next))).rejects.toThrow(
+      SlotTakenError,
+    );
+  });
+
+  it('allows overlaps on different calendars', async () => {
+    const { prisma, rows } = fakeLedgerDb();
+    const a = slot({ calendarConnectionId: 'cal-a' });
+    const b = slot({ calendarConnectionId: 'cal-b' });
+
+    await withSlotGuard(prisma, a, book(a));
+    await withSlotGuard(prisma, b, book(b));
+
+    expect(rows).toHaveLength(2);
+  });
+
+  it('re-counts the daily limit under the lock', async () => {
+    const { prisma, rows } = fakeLedgerDb();
+    const dailyLimit = { max: 1, zone: 'UTC' };
+    const morning = slot({ dailyLimit });
+    const afternoon = slot({
+      startTime: at('15:00'),
+      endTime: at('15:30'),
+      dailyLimit,
+    });
+
+    const results = await Promise.allSettled([
+      withSlotGuard(prisma, morning, book(morning)),
+      withSlotGuard(prisma, afternoon, book(afternoon)),
+    ]);
+
+    expect(rows).toHaveLength(1);
+    expect(results.find((r) => r.status === 'rejected')?.reason).toBeInstanceOf(
+      DailyLimitReachedError,
+    );
+  });
+
+  it('reports an exclusion constraint violation as SlotTakenError', async () => {
+    const { prisma } = fakeLedgerDb();
+    const violation = new Prisma.PrismaClientKnownRequestError(
+      `Database error. Code: \`23P01\`. Message: \`conflicting key value violates exclusion constraint "${APPOINTMENT_OVERLAP_CONSTRAINT}"\``,
+      { code: 'P2039', clientVersion: 'test' },
+    );
+
+    const guarded = withSlotGuard(prisma, slot(), () =>
+      Promise.reject(violation),
+    );
+
+    await expect(guarded).rejects.toThrow(SlotTakenError);
+    await expect(guarded).rejects.toMatchObject({ conflictId: null });
+  });
+});
+
+describe('holdOfferedSlots', () => {
+  const offer = (count: number) =>
+    Array.from({ length: count }, (_, i) => {
+      const start = new Date(at('09:00').getTime() + i * 30 * 60_000);
+      return {
+        startUtc: start.toISOString(),
+        endUtc: new Date(start.getTime() + 30 * 60_000).toISOString(),
+      };
+    });
+
+  it('returns only the slots it holds for the chat', async () => {
+    const { prisma, holds } = fakeLedgerDb();
+
+    const offered = await holdOfferedSlots(
+      prisma,
+      'agent-1',
+      'chat-a',
+      offer(MAX_SLOT_HOLDS + 5),
+    );
+
+    expect(offered).toHaveLength(MAX_SLOT_HOLDS);
+    expect(holds().map((h) => h.startTime.toISOString())).toEqual(
+      offered.map((s) => s.startUtc),
+    );
+  });
+
+  it("leaves out other chats' holds and blocks them in the guard", async () => {
+    const { prisma } = fakeLedgerDb();
+    const [first, second] = offer(2);
+    await holdOfferedSlots(prisma, 'agent-1', 'chat-a', [first]);
+
+    const offered = await holdOfferedSlots(prisma, 'agent-1', 'chat-b', [
+      first,
+      second,
+    ]);
+    expect(offered).toEqual([second]);
+
+    const taken = slot({ holder: 'chat-b' });
+    await expect(withSlotGuard(prisma, taken, book(taken))).rejects.toThrow(
+      SlotTakenError,
+    );
+    const own = slot({ holder: 'chat-a' });
+    await expect(withSlotGuard(prisma, own, book(own))).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,271 @@
+// src/agentModules/appointment/appointment-ledger.ts
+import { AppointmentStatus, Prisma } from '@prisma/client';
+import { DateTime } from 'luxon';
+import type { PrismaService } from 'src/prisma/prisma.service';
+
+/** Statuses that still occupy a slot and can be changed */
+export const ACTIVE_APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.PENDING,
+  AppointmentStatus.CONFIRMED,
+];
+
+/**
+ * The slot is held by another active appointment or another chat's hold
+ * (`conflictId`; null when the database constraint rejected the write).
+ */
+export class SlotTakenError extends Error {
+  constructor(readonly conflictId: string | null) {
+    super('SLOT_TAKEN');
+    this.name = 'SlotTakenError';
+  }
+}
+
+/** The agent's maxAppointmentsPerDay is already reached on the slot's day. */
+export class DailyLimitReachedError extends Error {
+  constructor() {
+    super('DAILY_LIMIT_REACHED');
+    this.name = 'DailyLimitReachedError';
+  }
+}
+
+export interface AppointmentSlot {
+  agentId: string;
+  startTime: Date;
+  endTime: Date;
+  /** The appointment being moved (reschedule) */
+  excludeId?: string;
+  /**
+   * Calendar the booking lives on. With several assigned calendars only
+   * bookings on the same calendar (or on none) clash; null = any booking clashes.
+   */
+  calendarConnectionId?: string | null;
+  /**
+   * Chat booking the slot: unexpired holds of other chats block it as well
+   * (null = booking without a chat, every hold blocks). Omit to ignore holds.
+   */
+  holder?: string | null;
+  /** Free time required around the slot (BookingSettings buffers) */
+  bufferBeforeMin?: number;
+  bufferAfterMin?: number;
+  /** maxAppointmentsPerDay, counted per local date in `zone` */
+  dailyLimit?: { max: number; zone: string } | null;
+}
+
+/** Postgres exclusion constraint behind withSlotGuard */
+export const APPOINTMENT_OVERLAP_CONSTRAINT = 'appointment_no_overlap';
+
+/** Minutes an offered slot stays reserved for the chat it was offered to */
+export const SLOT_HOLD_TTL_MIN = Number(process.env.SLOT_HOLD_TTL_MIN) || 5;
+/** Holds kept per chat; a new offer replaces the chat's previous holds */
+export const MAX_SLOT_HOLDS = 10;
+
+/** Active appointments overlapping the slot (widened by its buffers) */
+export function overlappingAppointmentsWhere(
+  slot: AppointmentSlot,
+): Prisma.AppointmentWhereInput {
+  const before = (slot.bufferBeforeMin ?? 0) * 60_000;
+  const after = (slot.bufferAfterMin ?? 0) * 60_000;
+  return {
+    agentId: slot.agentId,
+    status: { in: ACTIVE_APPOINTMENT_STATUSES },
+    startTime: { lt: new Date(slot.endTime.getTime() + after) },
+    endTime: { gt: new Date(slot.startTime.getTime() - before) },
+    ...(slot.excludeId ? { id: { not: slot.excludeId } } : {}),
+    ...(slot.calendarConnectionId
+      ? {
+          OR: [
+            { calendarConnectionId: slot.calendarConnectionId },
+            { calendarConnectionId: null },
+          ],
+        }
+      : {}),
+  };
+}
+
+/** Unexpired holds overlapping [startTime, endTime) that belong to another chat */
+export function otherHoldsWhere(
+  agentId: string,
+  holder: string | null,
+  startTime: Date,
+  endTime: Date,
+): Prisma.SlotHoldWhereInput {
+  return {
+    agentId,
+    expiresAt: { gt: new Date() },
+    startTime: { lt: endTime },
+    endTime: { gt: startTime },
+    ...(holder ? { senderJid: { not: holder } } : {}),
+  };
+}
+
+/**
+ * DB-level double-booking guard: active appointments of an agent on the same
+ * calendar (or both on the internal ledger) cannot overlap, whatever writes
+ * them. Prisma cannot declare exclusion constraints, so this creates it
+ * (idempotent); it needs the btree_gist extension.
+ */
+export async function ensureAppointmentOverlapConstraint(
+  prisma: PrismaService,
+): Promise<void> {
+  const active = ACTIVE_APPOINTMENT_STATUSES.map((s) => `'${s}'`).join(', ');
+  await prisma.$executeRawUnsafe('CREATE EXTENSION IF NOT EXISTS btree_gist');
+  await prisma.$executeRawUnsafe(`
+    DO $$ BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = '${APPOINTMENT_OVERLAP_CONSTRAINT}'
+      ) THEN
+        ALTER TABLE "Appointment" ADD CONSTRAINT ${APPOINTMENT_OVERLAP_CONSTRAINT}
+          EXCLUDE USING gist (
+            "agentId" WITH =,
+            (COALESCE("calendarConnectionId", '')) WITH =,
+            tsrange("startTime", "endTime", '[)') WITH &&
+          ) WHERE (status IN (${active}));
+      END IF;
+    END $$`);
+}
+
+function isOverlapViolation(e: unknown): boolean {
+  return (
+    e instanceof Prisma.PrismaClientKnownRequestError &&
+    e.message.includes(APPOINTMENT_OVERLAP_CONSTRAINT)
+  );
+}
+
+function lockAgent(tx: Prisma.TransactionClient, agentId: string) {
+  const lockKey = `appointment:${agentId}`;
+  return tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`;
+}
+
+/** Active appointments on the slot's local date, other than the one being moved */
+function countSameDay(
+  tx: Prisma.TransactionClient,
+  slot: AppointmentSlot,
+  zone: string,
+): Promise<number> {
+  const day = DateTime.fromJSDate(slot.startTime).setZone(zone).startOf('day');
+  return tx.appointment.count({
+    where: {
+      agentId: slot.agentId,
+      status: { in: ACTIVE_APPOINTMENT_STATUSES },
+      startTime: {
+        gte: day.toJSDate(),
+        lt: day.plus({ days: 1 }).toJSDate(),
+      },
+      ...(slot.excludeId ? { id: { not: slot.excludeId } } : {}),
+    },
+  });
+}
+
+/**
+ * Drop slots held by other chats and (for a chat) hold the first MAX_SLOT_HOLDS
+ * of the rest for SLOT_HOLD_TTL_MIN. Runs under the booking lock so two chats
+ * cannot hold the same slot. Returns the slots that may be offered: for a chat,
+ * only the ones now held for it.
+ */
+export function holdOfferedSlots<
+  T extends { startUtc: string; endUtc: string },
+>(
+  prisma: PrismaService,
+  agentId: string,
+  holder: string | null,
+  slots: T[],
+): Promise<T[]> {
+  if (!slots.length) return Promise.resolve(slots);
+  const windowStart = new Date(
+    Math.min(...slots.map((s) => Date.parse(s.startUtc))),
+  );
+  const windowEnd = new Date(
+    Math.max(...slots.map((s) => Date.parse(s.endUtc))),
+  );
+
+  return prisma.$transaction(async (tx) => {
+    await lockAgent(tx, agentId);
+    await tx.slotHold.deleteMany({
+      where: { agentId, expiresAt: { lte: new Date() } },
+    });
+
+    const held = await tx.slotHold.findMany({
+      where: otherHoldsWhere(agentId, holder, windowStart, windowEnd),
+      select: { startTime: true, endTime: true },
+    });
+    const free = slots.filter((s) => {
+      const start = new Date(s.startUtc);
+      const end = new Date(s.endUtc);
+      return !held.some((h) => h.startTime < end && h.endTime > start);
+    });
+    if (!holder) return free;
+
+    const offered = free.slice(0, MAX_SLOT_HOLDS);
+    const expiresAt = new Date(Date.now() + SLOT_HOLD_TTL_MIN * 60_000);
+    await tx.slotHold.deleteMany({ where: { agentId, senderJid: holder } });
+    await tx.slotHold.createMany({
+      data: offered.map((s) => ({
+        agentId,
+        senderJid: holder,
+        startTime: new Date(s.startUtc),
+        endTime: new Date(s.endUtc),
+        expiresAt,
+      })),
+    });
+    return offered;
+  });
+}
+
+/**
+ * Run `write` in a transaction that holds a per-agent advisory lock and has
+ * just verified the slot is free. Concurrent bookings for the same agent are
+ * serialised, so the overlap check and the insert/update cannot interleave;
+ * the exclusion constraint catches writes that bypass the lock.
+ * With `slot.holder` set, other chats' holds count as taken and the holder's
+ * own holds are released after `write`.
+ * Throws SlotTakenError when the slot (plus buffers) is already taken and
+ * DailyLimitReachedError when `slot.dailyLimit` is already used up.
+ */
+export function withSlotGuard<T>(
+  prisma: PrismaService,
+  slot: AppointmentSlot,
+  write: (tx: Prisma.TransactionClient) => Promise<T>,
+): Promise<T> {
+  return prisma.$transaction(async (tx) => {
+    await lockAgent(tx, slot.agentId);
+
+    const clash = await tx.appointment.findFirst({
+      where: overlappingAppointmentsWhere(slot),
+      select: { id: true },
+    });
+    if (clash) throw new SlotTakenError(clash.id);
+
+    if (slot.dailyLimit) {
+      const booked = await countSameDay(tx, slot, slot.dailyLimit.zone);
+      if (booked >= slot.dailyLimit.max) throw new DailyLimitReachedError();
+    }
+
+    if (slot.holder !== undefined) {
+      const hold = await tx.slotHold.findFirst({
+        where: otherHoldsWhere(
+          slot.agentId,
+          slot.holder,
+          slot.startTime,
+          slot.endTime,
+        ),
+        select: { id: true },
+      });
+      if (hold) throw new SlotTakenError(hold.id);
+    }
+
+    let result: T;
+    try {
+      result = await write(tx);
+    } catch (e) {
+      if (isOverlapViolation(e)) throw new SlotTakenError(null);
+      throw e;
+    }
+    // Booked: the chat's holds are no longer needed
+    if (slot.holder) {
+      await tx.slotHold.deleteMany({
+        where: { agentId: slot.agentId, senderJid: slot.holder },
+      });
+    }
+    return result;
+  });
+}
@@ -0,0 +1,119 @@
+// src/agentModules/appointment/appointment.controller.ts
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import type { Request } from 'express';
+
+import { AppointmentService } from './appointment.service';
+import { AppointmentIcsService } from './ics/appointment-ics.service';
+import type {
+  CancelAppointmentDto,
+  ListAppointmentsQueryDto,
+  RescheduleAppointmentDto,
+} from './dto/appointment.dto';
+import { ClerkAuthGuard } from 'src/auth/clerk-auth.guard';
+import { UserService } from 'src/user/services/user.service';
+
+type ReqWithAuth = Request & {
+  auth?: {
+    clerkUserId?: string;
+    sessionId?: string;
+  };
+};
+
+@ApiTags('Appointments')
+@UseGuards(ClerkAuthGuard)
+@Controller('agents/:agentId/appointments')
+export class AppointmentController {
+  constructor(
+    private readonly appointments: AppointmentService,
+    private readonly ics: AppointmentIcsService,
+    private readonly userService: UserService,
+  ) {}
+
+  @Get()
+  async list(
+    @Param('agentId', new ParseUUIDPipe()) agentId: string,
+    @Query() query: ListAppointmentsQueryDto,
+    @Req() req: ReqWithAuth,
+  ) {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.appointments.list(agentId, me.id, query);
+  }
+
+  // Declared before ':id' so "ics-feed" is not parsed as an appointment id
+  @Get('ics-feed')
+  async getIcsFeed(
+    @Param('agentId', new ParseUUIDPipe()) agentId: string,
+    @Req() req: ReqWithAuth,
+  ) {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.ics.getFeed(agentId, me.id);
+  }
+
+  @Post('ics-feed/rotate')
+  @HttpCode(HttpStatus.OK)
+  async rotateIcsFeed(
+    @Param('agentId', new ParseUUIDPipe()) agentId: string,
+    @Req() req: ReqWithAuth,
+  ) {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.ics.rotateFeed(agentId, me.id);
+  }
+
+  @Get(':id')
+  async findOne(
+    @Param('agentId', new ParseUUIDPipe()) agentId: string,
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Req() req: ReqWithAuth,
+  ) {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.appointments.findOne(agentId, id, me.id);
+  }
+
+  @Post(':id/reschedule')
+  @HttpCode(HttpStatus.OK)
+  async reschedule(
+    @Param('agentId', new ParseUUIDPipe()) agentId: string,
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Body() dto: RescheduleAppointmentDto,
+    @Req() req: ReqWithAuth,
+  ) {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.appointments.reschedule(agentId, id, dto, me.id);
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  async cancel(
+    @Param('agentId', new ParseUUIDPipe()) agentId: string,
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Body() dto: CancelAppointmentDto,
+    @Req() req: ReqWithAuth,
+  ) {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.appointments.cancel(agentId, id, dto, me.id);
+  }
+
+  @Post(':id/complete')
+  @HttpCode(HttpStatus.OK)
+  async complete(
+    @Param('agentId', new ParseUUIDPipe()) agentId: string,
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Req() req: ReqWithAuth,
+  ) {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.appointments.complete(agentId, id, me.id);
+  }
+}
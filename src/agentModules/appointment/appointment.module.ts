@@ -0,0 +1,25 @@
+// src/agentModules/appointment/appointment.module.ts
+import { Module } from '@nestjs/common';
+import { AppointmentController } from './appointment.controller';
+import { AppointmentService } from './appointment.service';
+import { AppointmentReminderService } from './reminders/appointment-reminder.service';
+import { AppointmentIcsService } from './ics/appointment-ics.service';
+import { AppointmentIcsFeedController } from './ics/appointment-ics-feed.controller';
+import { UserModule } from 'src/user/user.module';
+import { EmailModule } from 'src/agentModules/email/email.module';
+
+@Module({
+  imports: [UserModule, EmailModule],
+  controllers: [AppointmentController, AppointmentIcsFeedController],
+  providers: [
+    AppointmentService,
+    AppointmentReminderService,
+    AppointmentIcsService,
+  ],
+  exports: [
+    AppointmentService,
+    AppointmentReminderService,
+    AppointmentIcsService,
+  ],
+})
+export class AppointmentModule {}
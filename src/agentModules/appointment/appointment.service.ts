@@ -0,0 +1,598 @@
+// src/agentModules/appointment/appointment.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { DateTime, Interval } from 'luxon';
+import { z, ZodError } from 'zod';
+import {
+  Appointment,
+  AppointmentStatus,
+  CalendarConnection,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { BookingNotificationService } from 'src/agentModules/email/notifications/booking-notification.service';
+import {
+  getBookingRules,
+  pickCalendarConnection,
+  validateCalendarConnection,
+  type BookingRules,
+} from 'src/agentModules/whatsapp/handlers/tools/google-calendar';
+import {
+  connectCalendar,
+  type CalendarClient,
+} from 'src/CalendarConnection/providers';
+
+import {
+  cancelAppointmentSchema,
+  listAppointmentsQuerySchema,
+  rescheduleAppointmentSchema,
+} from './schema/appointment.schema';
+import type {
+  CancelAppointmentDto,
+  ListAppointmentsQueryDto,
+  RescheduleAppointmentDto,
+} from './dto/appointment.dto';
+import type {
+  AppointmentChange,
+  AppointmentChangeListener,
+  AppointmentChangeType,
+  PaginatedAppointments,
+} from './interface/appointment.interface';
+import {
+  ACTIVE_APPOINTMENT_STATUSES,
+  DailyLimitReachedError,
+  SlotTakenError,
+  ensureAppointmentOverlapConstraint,
+  overlappingAppointmentsWhere,
+  withSlotGuard,
+  type AppointmentSlot,
+} from './appointment-ledger';
+
+const PrismaClientKnownRequestError = Prisma.PrismaClientKnownRequestError;
+
+export { ACTIVE_APPOINTMENT_STATUSES };
+
+/**
+ * Read and change booked appointments. Reschedule/cancel keep the linked
+ * calendar event (Google or Outlook) in sync and send booking notification emails.
+ *
+ * `userId` is optional on the mutating methods: the owner API passes it
+ * (ownership enforced), internal callers such as WhatsApp tools omit it.
+ */
+@Injectable()
+export class AppointmentService implements OnModuleInit {
+  private readonly logger = new Logger(AppointmentService.name);
+  private readonly listeners: AppointmentChangeListener[] = [];
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notifications: BookingNotificationService,
+  ) {}
+
+  /** Without the constraint only the advisory lock prevents double bookings */
+  async onModuleInit() {
+    try {
+      await ensureAppointmentOverlapConstraint(this.prisma);
+    } catch (e: any) {
+      this.logger.warn(
+        `[onModuleInit] appointment overlap constraint not installed: ${e?.message}`,
+      );
+    }
+  }
+
+  // ---------- Read ----------
+
+  async list(
+    agentId: string,
+    userId: string,
+    query: ListAppointmentsQueryDto,
+  ): Promise<PaginatedAppointments> {
+    await this.assertAgentOwned(agentId, userId);
+    const q = this.safeParse(
+      listAppointmentsQuerySchema,
+      query,
+      'Invalid query',
+    );
+
+    const where: Prisma.AppointmentWhereInput = {
+      agentId,
+      ...(q.status ? { status: { in: q.status } } : {}),
+      ...(q.senderJid ? { senderJid: q.senderJid } : {}),
+      ...(q.attendee
+        ? {
+            OR: [
+              { attendeeName: { contains: q.attendee, mode: 'insensitive' } },
+              { attendeeEmail: { contains: q.attendee, mode: 'insensitive' } },
+              { attendeePhone: { contains: q.attendee } },
+            ],
+          }
+        : {}),
+      // Range filter: anything that overlaps [from, to]
+      ...(q.from ? { endTime: { gt: q.from } } : {}),
+      ...(q.to ? { startTime: { lt: q.to } } : {}),
+    };
+
+    try {
+      const [data, total] = await this.prisma.$transaction([
+        this.prisma.appointment.findMany({
+          where,
+          orderBy: { startTime: 'asc' },
+          skip: (q.page - 1) * q.limit,
+          take: q.limit,
+        }),
+        this.prisma.appointment.count({ where }),
+      ]);
+
+      return {
+        data,
+        total,
+        page: q.page,
+        limit: q.limit,
+        totalPages: Math.ceil(total / q.limit),
+      };
+    } catch (e) {
+      this.handlePrismaError(e, 'list');
+    }
+  }
+
+  async findOne(
+    agentId: string,
+    id: string,
+    userId?: string,
+  ): Promise<Appointment> {
+    if (userId) await this.assertAgentOwned(agentId, userId);
+    const appt = await this.prisma.appointment.findFirst({
+      where: { id, agentId },
+    });
+    if (!appt) throw new NotFoundException('Appointment not found');
+    return appt;
+  }
+
+  /** Upcoming active appointments booked from a WhatsApp chat, soonest first. */
+  async listUpcomingForContact(
+    agentId: string,
+    senderJid: string,
+    limit = 10,
+  ): Promise<Appointment[]> {
+    try {
+      return await this.prisma.appointment.findMany({
+        where: {
+          agentId,
+          senderJid,
+          status: { in: ACTIVE_APPOINTMENT_STATUSES },
+          endTime: { gt: new Date() },
+        },
+        orderBy: { startTime: 'asc' },
+        take: limit,
+      });
+    } catch (e) {
+      this.handlePrismaError(e, 'listUpcomingForContact');
+    }
+  }
+
+  // ---------- Change listeners ----------
+
+  /**
+   * Called after an appointment is booked, rescheduled or cancelled (e.g. to
+   * send the attendee an updated .ics). Listener errors are logged, never thrown.
+   */
+  onChange(listener: AppointmentChangeListener): void {
+    this.listeners.push(listener);
+  }
+
+  /** Booking happens in the WhatsApp book tool; it reports the new row here. */
+  announceBooked(appt: Appointment): void {
+    this.emitChange('BOOKED', appt);
+  }
+
+  private emitChange(type: AppointmentChangeType, appointment: Appointment) {
+    const change: AppointmentChange = { type, appointment };
+    for (const listener of this.listeners) {
+      void Promise.resolve()
+        .then(() => listener(change))
+        .catch((e: any) =>
+          this.logger.error(
+            `[onChange] ${type} ${appointment.id} listener failed: ${e?.message}`,
+          ),
+        );
+    }
+  }
+
+  // ---------- Actions ----------
+
+  /**
+   * Move an active appointment. The new slot must be in the future and free
+   * of other appointments. Unless `force` is set, calendar busy time, the
+   * agent's buffers and the daily appointment cap are checked as well.
+   */
+  async reschedule(
+    agentId: string,
+    id: string,
+    dto: RescheduleAppointmentDto,
+    userId?: string,
+  ): Promise<Appointment> {
+    const appt = await this.findOne(agentId, id, userId);
+    this.assertActive(appt, 'rescheduled');
+    const data = this.safeParse(
+      rescheduleAppointmentSchema,
+      dto,
+      'Invalid reschedule payload',
+    );
+
+    const durationMs = appt.endTime.getTime() - appt.startTime.getTime();
+    const startUtc = DateTime.fromJSDate(data.startTime).toUTC();
+    const endUtc = data.endTime
+      ? DateTime.fromJSDate(data.endTime).toUTC()
+      : startUtc.plus({ milliseconds: durationMs });
+
+    if (startUtc <= DateTime.utc()) {
+      throw new BadRequestException('The new time must be in the future');
+    }
+    if (
+      startUtc.toMillis() === appt.startTime.getTime() &&
+      endUtc.toMillis() === appt.endTime.getTime()
+    ) {
+      return appt;
+    }
+
+    const eventId = this.eventIdOf(appt);
+    const calendar = await this.loadCalendar(appt);
+    if (eventId && !calendar) {
+      throw new ServiceUnavailableException(
+        'Calendar connection unavailable; cannot update the linked event',
+      );
+    }
+
+    const rules = data.force ? null : await this.loadBookingRules(appt);
+    const slot = this.slotOf(appt, startUtc, endUtc, rules, data.timezone);
+    if (rules) {
+      await this.assertSlotFree(appt, slot, calendar);
+    }
+
+    if (eventId && calendar) {
+      try {
+        await calendar.updateEventTime(eventId, startUtc, endUtc);
+      } catch (e: any) {
+        this.logger.error(`[reschedule] ${id} event=${eventId}: ${e?.message}`);
+        throw new ServiceUnavailableException(
+          'Failed to update the calendar event',
+        );
+      }
+    }
+
+    const move = async (tx: Prisma.TransactionClient) => {
+      // Reminders (and confirm/cancel replies) were for the old time; the rules start over
+      await tx.appointmentReminder.deleteMany({
+        where: { appointmentId: appt.id },
+      });
+      return tx.appointment.update({
+        where: { id: appt.id },
+        data: {
+          startTime: startUtc.toJSDate(),
+          endTime: endUtc.toJSDate(),
+          ...(data.timezone ? { timezone: data.timezone } : {}),
+          icsSequence: { increment: 1 },
+          rescheduledAt: new Date(),
+          ...(eventId && !appt.calendarEventId
+            ? { calendarEventId: eventId, calendarProvider: calendar!.provider }
+            : {}),
+        },
+      });
+    };
+
+    let updated: Appointment;
+    try {
+      // Re-checked under the per-agent lock so two moves cannot take the same slot
+      // (`force` only drops buffers and the daily cap, never the overlap check)
+      updated = await withSlotGuard(this.prisma, slot, move);
+    } catch (e) {
+      if (e instanceof SlotTakenError || e instanceof DailyLimitReachedError) {
+        if (eventId && calendar) {
+          await calendar
+            .updateEventTime(
+              eventId,
+              DateTime.fromJSDate(appt.startTime),
+              DateTime.fromJSDate(appt.endTime),
+            )
+            .catch((err: any) =>
+              this.logger.error(
+                `[reschedule] ${id} could not restore event=${eventId}: ${err?.message}`,
+              ),
+            );
+        }
+        throw new ConflictException(
+          e instanceof DailyLimitReachedError
+            ? 'The new day is already fully booked'
+            : 'The new time overlaps another appointment',
+        );
+      }
+      this.handlePrismaError(e, 'reschedule');
+    }
+
+    void this.notifications.notify('RESCHEDULED', {
+      ...this.notificationDetails(updated),
+      previousStartTime: appt.startTime,
+      previousEndTime: appt.endTime,
+    });
+    this.emitChange('RESCHEDULED', updated);
+
+    return updated;
+  }
+
+  /** Cancel an active appointment and delete its calendar event. */
+  async cancel(
+    agentId: string,
+    id: string,
+    dto: CancelAppointmentDto,
+    userId?: string,
+  ): Promise<Appointment> {
+    const appt = await this.findOne(agentId, id, userId);
+    this.assertActive(appt, 'cancelled');
+    const data = this.safeParse(
+      cancelAppointmentSchema,
+      dto ?? {},
+      'Invalid cancel payload',
+    );
+
+    const eventId = this.eventIdOf(appt);
+    if (eventId) {
+      const calendar = await this.loadCalendar(appt);
+      if (!calendar) {
+        throw new ServiceUnavailableException(
+          'Calendar connection unavailable; cannot cancel the linked event',
+        );
+      }
+      try {
+        await calendar.deleteEvent(eventId);
+      } catch (e: any) {
+        this.logger.error(`[cancel] ${id} event=${eventId}: ${e?.message}`);
+        throw new ServiceUnavailableException(
+          'Failed to cancel the calendar event',
+        );
+      }
+    }
+
+    let updated: Appointment;
+    try {
+      updated = await this.prisma.appointment.update({
+        where: { id: appt.id },
+        data: {
+          status: AppointmentStatus.CANCELLED,
+          cancelledAt: new Date(),
+          cancelReason: data.reason ?? null,
+          icsSequence: { increment: 1 },
+        },
+      });
+    } catch (e) {
+      this.handlePrismaError(e, 'cancel');
+    }
+
+    void this.notifications.notify('CANCELLED', {
+      ...this.notificationDetails(updated),
+      reason: data.reason ?? null,
+    });
+    this.emitChange('CANCELLED', updated);
+
+    return updated;
+  }
+
+  /** Mark an active appointment as attended. The calendar event is left as is. */
+  async complete(
+    agentId: string,
+    id: string,
+    userId?: string,
+  ): Promise<Appointment> {
+    const appt = await this.findOne(agentId, id, userId);
+    this.assertActive(appt, 'completed');
+    try {
+      return await this.prisma.appointment.update({
+        where: { id: appt.id },
+        data: { status: AppointmentStatus.COMPLETED },
+      });
+    } catch (e) {
+      this.handlePrismaError(e, 'complete');
+    }
+  }
+
+  // ---------- Helpers ----------
+
+  /** Column first; rows booked before the column existed kept it in notes as `eventId=...` */
+  private eventIdOf(appt: Appointment): string | null {
+    if (appt.calendarEventId) return appt.calendarEventId;
+    const legacy = appt.notes?.match(/^eventId=(\S+)$/m);
+    return legacy ? legacy[1] : null;
+  }
+
+  private notificationDetails(appt: Appointment) {
+    return {
+      agentId: appt.agentId,
+      appointmentId: appt.id,
+      startTime: appt.startTime,
+      endTime: appt.endTime,
+      timezone: appt.timezone,
+      attendeeName: appt.attendeeName,
+      attendeeEmail: appt.attendeeEmail,
+      attendeePhone: appt.attendeePhone,
+      location: appt.location,
+      notes: appt.notes,
+    };
+  }
+
+  /**
+   * The calendar the appointment was routed to; bookings made before routing
+   * existed fall back to the agent's primary assigned calendar.
+   */
+  private async loadCalendar(
+    appt: Appointment,
+  ): Promise<CalendarClient | null> {
+    let conn: CalendarConnection | null = null;
+    if (appt.calendarConnectionId) {
+      conn = await this.prisma.calendarConnection.findUnique({
+        where: { id: appt.calendarConnectionId },
+      });
+    } else {
+      const agent = await this.prisma.agent.findUnique({
+        where: { id: appt.agentId },
+        select: {
+          calendarAssignments: { include: { calendarConnection: true } },
+        },
+      });
+      conn = agent ? (pickCalendarConnection(agent)?.conn ?? null) : null;
+    }
+
+    if (!conn || !validateCalendarConnection(conn, this.logger).ok) {
+      return null;
+    }
+    try {
+      return await connectCalendar(conn, this.prisma, this.logger);
+    } catch {
+      return null;
+    }
+  }
+
+  private async loadBookingRules(appt: Appointment): Promise<BookingRules> {
+    const settings = await this.prisma.bookingSettings.findUnique({
+      where: { agentId: appt.agentId },
+    });
+    return getBookingRules(settings);
+  }
+
+  private async assertSlotFree(
+    appt: Appointment,
+    slot: AppointmentSlot,
+    calendar: CalendarClient | null,
+  ): Promise<void> {
+    const clash = await this.prisma.appointment.findFirst({
+      where: overlappingAppointmentsWhere(slot),
+      select: { id: true },
+    });
+    if (clash) {
+      throw new ConflictException('The new time overlaps another appointment');
+    }
+
+    if (!calendar) return;
+
+    const startUtc = DateTime.fromJSDate(slot.startTime).minus({
+      minutes: slot.bufferBeforeMin ?? 0,
+    });
+    const endUtc = DateTime.fromJSDate(slot.endTime).plus({
+      minutes: slot.bufferAfterMin ?? 0,
+    });
+    const busy = await calendar.getBusyWindows(
+      startUtc.toISO()!,
+      endUtc.toISO()!,
+    );
+    // The appointment's own event shows up as busy; ignore windows inside its current slot
+    const own = Interval.fromDateTimes(
+      DateTime.fromJSDate(appt.startTime),
+      DateTime.fromJSDate(appt.endTime),
+    );
+    const wanted = Interval.fromDateTimes(startUtc, endUtc);
+    const blocked = busy.some((b) => {
+      const window = Interval.fromDateTimes(b.start, b.end);
+      if (this.eventIdOf(appt) && own.engulfs(window)) return false;
+      return window.overlaps(wanted);
+    });
+    if (blocked) {
+      throw new ConflictException('The new time is not available');
+    }
+  }
+
+  /**
+   * The new slot; `rules` adds buffers, the daily cap and other chats' slot
+   * holds (the booking chat is the holder). null = plain overlap only.
+   */
+  private slotOf(
+    appt: Appointment,
+    startUtc: DateTime,
+    endUtc: DateTime,
+    rules: BookingRules | null,
+    timezone?: string,
+  ): AppointmentSlot {
+    return {
+      agentId: appt.agentId,
+      startTime: startUtc.toJSDate(),
+      endTime: endUtc.toJSDate(),
+      excludeId: appt.id,
+      calendarConnectionId: appt.calendarConnectionId,
+      ...(rules
+        ? {
+            holder: appt.senderJid,
+            bufferBeforeMin: rules.bufferBeforeMin,
+            bufferAfterMin: rules.bufferAfterMin,
+            dailyLimit:
+              rules.maxAppointmentsPerDay != null
+                ? {
+                    max: rules.maxAppointmentsPerDay,
+                    zone: timezone ?? appt.timezone,
+                  }
+                : null,
+          }
+        : {}),
+    };
+  }
+
+  private assertActive(appt: Appointment, action: string): void {
+    if (!ACTIVE_APPOINTMENT_STATUSES.includes(appt.status)) {
+      throw new ConflictException(
+        `Appointment is ${appt.status} and cannot be ${action}`,
+      );
+    }
+  }
+
+  // ---------- Guards / errors ----------
+
+  private async assertAgentOwned(
+    agentId: string,
+    userId: string,
+  ): Promise<void> {
+    const agent = await this.prisma.agent.findFirst({
+      where: { id: agentId, userId },
+    });
+    if (!agent)
+      throw new NotFoundException('Agent not found or not owned by user');
+  }
+
+  private safeParse<T extends z.ZodTypeAny, O = z.infer<T>>(
+    schema: T,
+    payload: unknown,
+    message = 'Validation failed',
+  ): O {
+    try {
+      return schema.parse(payload) as O;
+    } catch (e) {
+      if (e instanceof ZodError) {
+        throw new BadRequestException({
+          message,
+          issues: e.issues.map((i) => ({
+            path: i.path.join('.'),
+            message: i.message,
+            code: i.code,
+          })),
+        });
+      }
+      throw e;
+    }
+  }
+
+  private handlePrismaError(e: unknown, context: string): never {
+    if (e instanceof PrismaClientKnownRequestError) {
+      if (e.code === 'P2025')
+        throw new NotFoundException('Appointment not found');
+      if (e.code === 'P2003')
+        throw new BadRequestException('Invalid reference');
+      this.logger.error(`[${context}] Prisma error ${e.code}: ${e.message}`);
+      throw new InternalServerErrorException('Database error');
+    }
+    this.logger.error(`[${context}] Unexpected error`, e as any);
+    throw new InternalServerErrorException('Unexpected server error');
+  }
+}
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import {
+  cancelAppointmentSchema,
+  listAppointmentsQuerySchema,
+  rescheduleAppointmentSchema,
+} from '../schema/appointment.schema';
+
+export type ListAppointmentsQueryDto = z.input<
+  typeof listAppointmentsQuerySchema
+>;
+export type RescheduleAppointmentDto = z.input<
+  typeof rescheduleAppointmentSchema
+>;
+export type CancelAppointmentDto = z.infer<typeof cancelAppointmentSchema>;
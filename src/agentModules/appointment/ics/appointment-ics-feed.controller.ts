@@ -0,0 +1,27 @@
+// src/agentModules/appointment/ics/appointment-ics-feed.controller.ts
+import { Controller, Get, Param, Res } from '@nestjs/common';
+import { ApiExcludeController } from '@nestjs/swagger';
+import type { Response } from 'express';
+
+import { AppointmentIcsService } from './appointment-ics.service';
+
+/**
+ * Public (unauthenticated) iCalendar feed polled by calendar apps.
+ * The token in the URL is the only secret; see AppointmentIcsService.getFeed().
+ */
+@ApiExcludeController()
+@Controller('calendar-feeds')
+export class AppointmentIcsFeedController {
+  constructor(private readonly ics: AppointmentIcsService) {}
+
+  @Get(':token/appointments.ics')
+  async feed(@Param('token') token: string, @Res() res: Response) {
+    const body = await this.ics.renderFeed(token);
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="appointments.ics"',
+      'Cache-Control': 'private, max-age=300',
+    });
+    res.send(body);
+  }
+}
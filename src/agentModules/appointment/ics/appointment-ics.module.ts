@@ -0,0 +1,12 @@
+// src/agentModules/appointment/ics/appointment-ics.module.ts
+import { Module } from '@nestjs/common';
+import { AppointmentModule } from '../appointment.module';
+import { WhatsappModule } from 'src/agentModules/whatsapp/whatsapp.module';
+import { AppointmentIcsSender } from './appointment-ics.sender';
+
+/** Hosts the WhatsApp .ics sender (needs WhatsappModule, which itself imports AppointmentModule). */
+@Module({
+  imports: [AppointmentModule, WhatsappModule],
+  providers: [AppointmentIcsSender],
+})
+export class AppointmentIcsModule {}
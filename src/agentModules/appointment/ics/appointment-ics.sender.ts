@@ -0,0 +1,53 @@
+// src/agentModules/appointment/ics/appointment-ics.sender.ts
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DateTime } from 'luxon';
+import { WhatsappService } from 'src/agentModules/whatsapp/whatsapp.service';
+
+import { AppointmentService } from '../appointment.service';
+import type { AppointmentChange } from '../interface/appointment.interface';
+import { AppointmentIcsService } from './appointment-ics.service';
+
+/**
+ * Sends the attendee an .ics document over WhatsApp whenever an appointment
+ * booked from a chat is booked (REQUEST), rescheduled (REQUEST, higher
+ * SEQUENCE) or cancelled (CANCEL). Appointments without a senderJid are skipped.
+ */
+@Injectable()
+export class AppointmentIcsSender implements OnModuleInit {
+  private readonly logger = new Logger(AppointmentIcsSender.name);
+
+  constructor(
+    private readonly appointments: AppointmentService,
+    private readonly ics: AppointmentIcsService,
+    private readonly whatsapp: WhatsappService,
+  ) {}
+
+  onModuleInit() {
+    this.appointments.onChange((change) => this.send(change));
+  }
+
+  private async send({ type, appointment: appt }: AppointmentChange) {
+    if (!appt.senderJid) return;
+
+    const method = type === 'CANCELLED' ? 'CANCEL' : 'REQUEST';
+    const body = await this.ics.renderInvite(appt, method);
+    const when = DateTime.fromJSDate(appt.startTime)
+      .setZone(appt.timezone || 'UTC')
+      .toFormat("cccc, d LLLL 'at' HH:mm");
+
+    const caption =
+      type === 'BOOKED'
+        ? `Add your appointment on ${when} to your calendar.`
+        : type === 'RESCHEDULED'
+          ? `Your appointment moved to ${when}. Open the file to update your calendar.`
+          : `Your appointment on ${when} was cancelled. Open the file to remove it from your calendar.`;
+
+    await this.whatsapp.sendMedia(appt.agentId, appt.senderJid, {
+      mimeType: 'text/calendar',
+      data: Buffer.from(body, 'utf8'),
+      filename: method === 'CANCEL' ? 'cancellation.ics' : 'appointment.ics',
+      caption,
+    });
+    this.logger.log(`[ics] ${type} sent for appointment ${appt.id}`);
+  }
+}
@@ -0,0 +1,162 @@
+// src/agentModules/appointment/ics/appointment-ics.service.ts
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { Appointment, AppointmentStatus } from '@prisma/client';
+import { DateTime } from 'luxon';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+import { ACTIVE_APPOINTMENT_STATUSES } from '../appointment-ledger';
+import type { AppointmentIcsFeed } from '../interface/appointment.interface';
+import { buildIcsCalendar, type IcsOrganizer } from './ics.utils';
+
+/** Past appointments kept in the feed */
+const FEED_PAST_DAYS = 30;
+const FEED_MAX_EVENTS = 500;
+
+/**
+ * iCalendar output for appointments: the per-agent subscription feed
+ * (token-secured, see AppointmentIcsFeedController) and single-event
+ * invites/updates sent to attendees.
+ */
+@Injectable()
+export class AppointmentIcsService {
+  private readonly logger = new Logger(AppointmentIcsService.name);
+
+  private readonly organizerEmail =
+    process.env.EMAIL_FROM || 'no-reply@localhost';
+  /** Public base URL of this API, used to build the feed URL */
+  private readonly publicBaseUrl = (
+    process.env.PUBLIC_API_BASE_URL || ''
+  ).replace(/\/+$/, '');
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ---------- Feed ----------
+
+  /** Feed URL for the agent; the token is created on first use. */
+  async getFeed(agentId: string, userId: string): Promise<AppointmentIcsFeed> {
+    await this.assertAgentOwned(agentId, userId);
+    const settings = await this.requireSettings(agentId);
+    const token =
+      settings.icsFeedToken ?? (await this.saveNewToken(agentId)).icsFeedToken;
+    return this.toFeed(token!);
+  }
+
+  /** Replace the token; the previous feed URL stops working. */
+  async rotateFeed(
+    agentId: string,
+    userId: string,
+  ): Promise<AppointmentIcsFeed> {
+    await this.assertAgentOwned(agentId, userId);
+    await this.requireSettings(agentId);
+    const saved = await this.saveNewToken(agentId);
+    this.logger.log(`[ics-feed] token rotated for agent ${agentId}`);
+    return this.toFeed(saved.icsFeedToken!);
+  }
+
+  /**
+   * Public feed body: upcoming and recent appointments, cancelled ones included
+   * (STATUS:CANCELLED) so subscribed calendars drop them. Unknown token → 404.
+   */
+  async renderFeed(token: string): Promise<string> {
+    const settings = token
+      ? await this.prisma.bookingSettings.findUnique({
+          where: { icsFeedToken: token },
+          select: { agentId: true, agent: { select: { name: true } } },
+        })
+      : null;
+    if (!settings) throw new NotFoundException('Calendar feed not found');
+
+    const appointments = await this.prisma.appointment.findMany({
+      where: {
+        agentId: settings.agentId,
+        status: {
+          in: [...ACTIVE_APPOINTMENT_STATUSES, AppointmentStatus.CANCELLED],
+        },
+        endTime: {
+          gt: DateTime.utc().minus({ days: FEED_PAST_DAYS }).toJSDate(),
+        },
+      },
+      orderBy: { startTime: 'asc' },
+      take: FEED_MAX_EVENTS,
+    });
+
+    return buildIcsCalendar({
+      method: 'PUBLISH',
+      appointments,
+      organizer: this.organizer(settings.agent.name),
+      calendarName: `${settings.agent.name} appointments`,
+    });
+  }
+
+  // ---------- Invites ----------
+
+  /** Single-event .ics for the attendee: REQUEST for new/moved, CANCEL for cancelled. */
+  async renderInvite(
+    appt: Appointment,
+    method: 'REQUEST' | 'CANCEL',
+  ): Promise<string> {
+    const agent = await this.prisma.agent.findUnique({
+      where: { id: appt.agentId },
+      select: { name: true },
+    });
+    return buildIcsCalendar({
+      method,
+      appointments: [appt],
+      organizer: this.organizer(agent?.name ?? ''),
+    });
+  }
+
+  // ---------- Helpers ----------
+
+  private organizer(agentName: string): IcsOrganizer {
+    return { name: agentName, email: this.organizerEmail };
+  }
+
+  private toFeed(token: string): AppointmentIcsFeed {
+    if (!this.publicBaseUrl) {
+      throw new ServiceUnavailableException(
+        'PUBLIC_API_BASE_URL is not configured',
+      );
+    }
+    return {
+      token,
+      url: `${this.publicBaseUrl}/calendar-feeds/${token}/appointments.ics`,
+    };
+  }
+
+  private async requireSettings(agentId: string) {
+    const settings = await this.prisma.bookingSettings.findUnique({
+      where: { agentId },
+      select: { icsFeedToken: true },
+    });
+    if (!settings) {
+      throw new NotFoundException('Booking settings not found for this agent');
+    }
+    return settings;
+  }
+
+  private saveNewToken(agentId: string) {
+    return this.prisma.bookingSettings.update({
+      where: { agentId },
+      data: { icsFeedToken: randomBytes(24).toString('base64url') },
+      select: { icsFeedToken: true },
+    });
+  }
+
+  private async assertAgentOwned(
+    agentId: string,
+    userId: string,
+  ): Promise<void> {
+    const agent = await this.prisma.agent.findFirst({
+      where: { id: agentId, userId },
+    });
+    if (!agent)
+      throw new NotFoundException('Agent not found or not owned by user');
+  }
+}
@@ -0,0 +1,124 @@
+// src/agentModules/appointment/ics/ics.utils.ts
+import { Appointment, AppointmentStatus } from '@prisma/client';
+import { DateTime } from 'luxon';
+
+/**
+ * REQUEST = invite/update sent to the attendee, CANCEL = withdraw it,
+ * PUBLISH = read-only subscription feed.
+ */
+export type IcsMethod = 'REQUEST' | 'CANCEL' | 'PUBLISH';
+
+export type IcsOrganizer = { name: string; email: string };
+
+export type IcsCalendarInput = {
+  method: IcsMethod;
+  appointments: Appointment[];
+  organizer: IcsOrganizer;
+  /** X-WR-CALNAME shown by subscribing clients */
+  calendarName?: string;
+  /** Event title (defaults to "Appointment with <organizer>") */
+  summary?: string;
+};
+
+const PRODID = '-//WhatsApp Chatbot Builder//Appointments//EN';
+const UID_DOMAIN = process.env.ICS_UID_DOMAIN || 'appointments.local';
+
+/** RFC 5545 §3.3.11 TEXT escaping */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** RFC 5545 §3.1: lines longer than 75 octets are folded with CRLF + space */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const ch of line) {
+    const len = Buffer.byteLength(ch, 'utf8');
+    // Continuation lines start with a space, so they hold 74 octets of content
+    const limit = parts.length ? 74 : 75;
+    if (size + len > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += ch;
+    size += len;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatUtc(date: Date): string {
+  return DateTime.fromJSDate(date, { zone: 'utc' }).toFormat(
+    "yyyyLLdd'T'HHmmss'Z'",
+  );
+}
+
+export function appointmentUid(appt: Pick<Appointment, 'id'>): string {
+  return `${appt.id}@${UID_DOMAIN}`;
+}
+
+function eventLines(
+  appt: Appointment,
+  input: IcsCalendarInput,
+  stamp: string,
+): string[] {
+  const cancelled =
+    input.method === 'CANCEL' || appt.status === AppointmentStatus.CANCELLED;
+  const summary =
+    input.summary || `Appointment with ${input.organizer.name || 'us'}`;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${appointmentUid(appt)}`,
+    `SEQUENCE:${appt.icsSequence}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatUtc(appt.startTime)}`,
+    `DTEND:${formatUtc(appt.endTime)}`,
+    `SUMMARY:${escapeIcsText(summary)}`,
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    `ORGANIZER;CN=${escapeIcsText(input.organizer.name)}:mailto:${input.organizer.email}`,
+  ];
+  if (appt.attendeeEmail) {
+    const cn = appt.attendeeName
+      ? `;CN=${escapeIcsText(appt.attendeeName)}`
+      : '';
+    lines.push(
+      `ATTENDEE${cn};ROLE=REQ-PARTICIPANT;RSVP=FALSE:mailto:${appt.attendeeEmail}`,
+    );
+  }
+  if (appt.location) lines.push(`LOCATION:${escapeIcsText(appt.location)}`);
+  if (appt.notes) lines.push(`DESCRIPTION:${escapeIcsText(appt.notes)}`);
+  lines.push(`LAST-MODIFIED:${formatUtc(appt.updatedAt)}`, 'END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serialise appointments as a VCALENDAR (CRLF line endings, folded lines).
+ * Times are written in UTC; the UID is stable per appointment so updates and
+ * cancellations replace the earlier copy in the attendee's calendar.
+ */
+export function buildIcsCalendar(input: IcsCalendarInput): string {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${input.method}`,
+    ...(input.calendarName
+      ? [`X-WR-CALNAME:${escapeIcsText(input.calendarName)}`]
+      : []),
+    ...input.appointments.flatMap((a) => eventLines(a, input, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
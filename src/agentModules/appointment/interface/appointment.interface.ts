@@ -0,0 +1,30 @@
+import type { Appointment } from '@prisma/client';
+
+/** External-facing Appointment shape (safe for API responses) */
+export type IAppointment = Appointment;
+
+export interface PaginatedAppointments {
+  data: Appointment[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export type AppointmentChangeType = 'BOOKED' | 'RESCHEDULED' | 'CANCELLED';
+
+/** Passed to AppointmentService.onChange() listeners after the row is saved */
+export interface AppointmentChange {
+  type: AppointmentChangeType;
+  appointment: Appointment;
+}
+
+export type AppointmentChangeListener = (
+  change: AppointmentChange,
+) => Promise<void> | void;
+
+/** Subscribable per-agent iCalendar feed */
+export interface AppointmentIcsFeed {
+  url: string;
+  token: string;
+}
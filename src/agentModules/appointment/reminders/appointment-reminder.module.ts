@@ -0,0 +1,12 @@
+// src/agentModules/appointment/reminders/appointment-reminder.module.ts
+import { Module } from '@nestjs/common';
+import { AppointmentModule } from '../appointment.module';
+import { WhatsappModule } from 'src/agentModules/whatsapp/whatsapp.module';
+import { AppointmentReminderScheduler } from './appointment-reminder.scheduler';
+
+/** Hosts the reminder cron (needs WhatsappModule, which itself imports AppointmentModule). */
+@Module({
+  imports: [AppointmentModule, WhatsappModule],
+  providers: [AppointmentReminderScheduler],
+})
+export class AppointmentReminderModule {}
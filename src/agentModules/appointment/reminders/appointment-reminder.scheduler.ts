@@ -0,0 +1,83 @@
+// src/agentModules/appointment/reminders/appointment-reminder.scheduler.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SenderType } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { WhatsappService } from 'src/agentModules/whatsapp/whatsapp.service';
+import { AppointmentReminderService } from './appointment-reminder.service';
+
+/**
+ * Sends due appointment reminders over WhatsApp once a minute.
+ * Each reminder is claimed before sending (at most once per appointment/rule);
+ * a failed send is stored on the reminder row and not retried.
+ * Sent reminders are logged as AI Conversation rows for the chat.
+ */
+@Injectable()
+export class AppointmentReminderScheduler {
+  private readonly logger = new Logger(AppointmentReminderScheduler.name);
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly reminders: AppointmentReminderService,
+    private readonly whatsapp: WhatsappService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async cronRunner() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const due = await this.reminders.collectDue();
+      let sent = 0;
+      let failed = 0;
+
+      for (const item of due) {
+        const reminder = await this.reminders.claim(item);
+        if (!reminder) continue;
+
+        const text = this.reminders.renderMessage(item);
+        try {
+          const res = await this.whatsapp.sendText(
+            item.appointment.agentId,
+            item.appointment.senderJid,
+            text,
+          );
+          await this.reminders.markSent(reminder.id, res.id || null);
+          await this.prisma.conversation.create({
+            data: {
+              agentId: item.appointment.agentId,
+              senderJid: item.appointment.senderJid,
+              message: text,
+              senderType: SenderType.AI,
+              metadata: {
+                reminder: {
+                  reminderId: reminder.id,
+                  appointmentId: item.appointment.id,
+                  minutesBefore: item.rule.minutesBefore,
+                },
+              },
+            },
+          });
+          sent++;
+        } catch (err: any) {
+          failed++;
+          this.logger.warn(
+            `[CRON] reminder ${reminder.id} appointment=${item.appointment.id} failed: ${err?.message}`,
+          );
+          await this.reminders.markFailed(reminder.id, err);
+        }
+      }
+
+      if (due.length) {
+        this.logger.log(
+          `[CRON] reminders due=${due.length} sent=${sent} failed=${failed}`,
+        );
+      }
+    } catch (err: any) {
+      this.logger.error(`[CRON] reminder run failed: ${err?.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
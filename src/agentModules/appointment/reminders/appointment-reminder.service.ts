@@ -0,0 +1,342 @@
+// src/agentModules/appointment/reminders/appointment-reminder.service.ts
+import { HttpException, Injectable, Logger } from '@nestjs/common';
+import { DateTime } from 'luxon';
+import {
+  Appointment,
+  AppointmentReminder,
+  AppointmentReminderRule,
+  AppointmentReminderStatus,
+  AppointmentStatus,
+  Prisma,
+  SenderType,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  ACTIVE_APPOINTMENT_STATUSES,
+  AppointmentService,
+} from '../appointment.service';
+
+const DEFAULT_TEMPLATE =
+  'Hi {name}, this is a reminder of your appointment with {agent} on {date} at {time} ({timezone}).\n' +
+  'Reply 1 or CONFIRM to confirm, 2 or CANCEL to cancel.';
+
+const CONFIRM_WORDS = new Set(['confirm', 'confirmed']);
+const CANCEL_WORDS = new Set(['cancel', 'cancelled', 'canceled']);
+/** "1"/"2" only count while the reminder is the last message the chat received */
+const CONFIRM_SHORTCUT = '1';
+const CANCEL_SHORTCUT = '2';
+
+/** How long after a reminder a bare "confirm"/"cancel" is still mapped to it */
+const REPLY_WINDOW_HOURS = 48;
+
+/** Max appointments picked up per rule per run */
+const BATCH_PER_RULE = 100;
+
+export interface DueReminder {
+  appointment: Appointment & { senderJid: string };
+  rule: AppointmentReminderRule;
+  agentName: string;
+}
+
+export interface ReminderReplyResult {
+  action: 'CONFIRMED' | 'CANCELLED' | 'FAILED';
+  appointmentId: string;
+  reminderId: string;
+  /** Text to send back to the customer */
+  text: string;
+}
+
+/**
+ * Appointment reminder bookkeeping (no WhatsApp dependency):
+ * - which reminders are due (one per appointment; superseded/late rules are SKIPPED)
+ * - claiming a reminder row before sending, so a rule fires at most once
+ * - mapping a "confirm"/"cancel" reply back to the appointment
+ */
+@Injectable()
+export class AppointmentReminderService {
+  private readonly logger = new Logger(AppointmentReminderService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly appointments: AppointmentService,
+  ) {}
+
+  // ---------- Scheduling ----------
+
+  async collectDue(now = new Date()): Promise<DueReminder[]> {
+    const rules = await this.prisma.appointmentReminderRule.findMany({
+      where: {
+        isActive: true,
+        agent: { isActive: true, isBookingActive: true },
+      },
+      include: { agent: { select: { name: true } } },
+    });
+
+    const byAppointment = new Map<
+      string,
+      {
+        appointment: Appointment;
+        rules: AppointmentReminderRule[];
+        agentName: string;
+      }
+    >();
+
+    for (const { agent, ...rule } of rules) {
+      const appts = await this.prisma.appointment.findMany({
+        where: {
+          agentId: rule.agentId,
+          status: { in: ACTIVE_APPOINTMENT_STATUSES },
+          senderJid: { not: null },
+          startTime: {
+            gt: now,
+            lte: new Date(now.getTime() + rule.minutesBefore * 60_000),
+          },
+          reminders: { none: { ruleId: rule.id } },
+        },
+        orderBy: { startTime: 'asc' },
+        take: BATCH_PER_RULE,
+      });
+
+      for (const appointment of appts) {
+        const entry = byAppointment.get(appointment.id) ?? {
+          appointment,
+          rules: [],
+          agentName: agent.name,
+        };
+        entry.rules.push(rule);
+        byAppointment.set(appointment.id, entry);
+      }
+    }
+
+    const due: DueReminder[] = [];
+    const skipped: Prisma.AppointmentReminderCreateManyInput[] = [];
+
+    for (const {
+      appointment,
+      rules: dueRules,
+      agentName,
+    } of byAppointment.values()) {
+      // A rule only applies if the booking (at its current time) existed when
+      // its window opened; of several due rules only the closest one is sent.
+      const bookedAt = (
+        appointment.rescheduledAt ?? appointment.createdAt
+      ).getTime();
+      const ordered = [...dueRules].sort(
+        (a, b) => a.minutesBefore - b.minutesBefore,
+      );
+      const send = ordered.find(
+        (r) =>
+          bookedAt <=
+          appointment.startTime.getTime() - r.minutesBefore * 60_000,
+      );
+
+      for (const r of ordered) {
+        if (r === send) continue;
+        skipped.push({
+          appointmentId: appointment.id,
+          ruleId: r.id,
+          agentId: appointment.agentId,
+          senderJid: appointment.senderJid!,
+          status: AppointmentReminderStatus.SKIPPED,
+        });
+      }
+
+      if (send) {
+        due.push({
+          appointment: appointment as DueReminder['appointment'],
+          rule: send,
+          agentName,
+        });
+      }
+    }
+
+    if (skipped.length) {
+      await this.prisma.appointmentReminder.createMany({
+        data: skipped,
+        skipDuplicates: true,
+      });
+    }
+
+    return due;
+  }
+
+  /** Insert the reminder row; returns null if another run already claimed it. */
+  async claim(due: DueReminder): Promise<AppointmentReminder | null> {
+    try {
+      return await this.prisma.appointmentReminder.create({
+        data: {
+          appointmentId: due.appointment.id,
+          ruleId: due.rule.id,
+          agentId: due.appointment.agentId,
+          senderJid: due.appointment.senderJid,
+        },
+      });
+    } catch (e) {
+      if (
+        e instanceof Prisma.PrismaClientKnownRequestError &&
+        e.code === 'P2002'
+      ) {
+        return null;
+      }
+      throw e;
+    }
+  }
+
+  async markSent(id: string, providerMessageId: string | null): Promise<void> {
+    await this.prisma.appointmentReminder.update({
+      where: { id },
+      data: { providerMessageId },
+    });
+  }
+
+  async markFailed(id: string, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    await this.prisma.appointmentReminder.update({
+      where: { id },
+      data: {
+        status: AppointmentReminderStatus.FAILED,
+        lastError: message.slice(0, 1000),
+      },
+    });
+  }
+
+  /** Fill the rule's template (or the default) in the booking's timezone. */
+  renderMessage(due: DueReminder): string {
+    const { appointment, rule, agentName } = due;
+    const zone = appointment.timezone || 'UTC';
+    const start = DateTime.fromJSDate(appointment.startTime).setZone(zone);
+    const values: Record<string, string> = {
+      name: appointment.attendeeName || 'there',
+      agent: agentName,
+      date: start.toFormat('cccc, d LLLL yyyy'),
+      time: start.toFormat('HH:mm'),
+      timezone: zone,
+    };
+    return (rule.message || DEFAULT_TEMPLATE).replace(
+      /\{(name|agent|date|time|timezone)\}/g,
+      (_m, key: string) => values[key],
+    );
+  }
+
+  // ---------- Replies ----------
+
+  /**
+   * If `text` is a bare CONFIRM/CANCEL answer and the sender has an open
+   * reminder, apply it to the appointment. "1"/"2" are accepted only when the
+   * reminder is the chat's last outbound message. Returns null when the
+   * message is not a reminder reply (the agent handles it as usual).
+   */
+  async handleReply(
+    agentId: string,
+    senderJid: string,
+    text: string,
+  ): Promise<ReminderReplyResult | null> {
+    const word = text
+      .trim()
+      .toLowerCase()
+      .replace(/[.!\s]+$/g, '');
+    const isShortcut = word === CONFIRM_SHORTCUT || word === CANCEL_SHORTCUT;
+    const wantsConfirm = CONFIRM_WORDS.has(word) || word === CONFIRM_SHORTCUT;
+    const wantsCancel = CANCEL_WORDS.has(word) || word === CANCEL_SHORTCUT;
+    if (!wantsConfirm && !wantsCancel) return null;
+
+    const reminder = await this.prisma.appointmentReminder.findFirst({
+      where: {
+        agentId,
+        senderJid,
+        status: AppointmentReminderStatus.SENT,
+        sentAt: {
+          gte: new Date(Date.now() - REPLY_WINDOW_HOURS * 3_600_000),
+        },
+        appointment: {
+          status: { in: ACTIVE_APPOINTMENT_STATUSES },
+          startTime: { gt: new Date() },
+        },
+      },
+      orderBy: { sentAt: 'desc' },
+      include: { appointment: true },
+    });
+    if (!reminder) return null;
+    if (
+      isShortcut &&
+      !(await this.isLastOutbound(agentId, senderJid, reminder.id))
+    ) {
+      return null;
+    }
+
+    const appt = reminder.appointment;
+    const zone = appt.timezone || 'UTC';
+    const when = DateTime.fromJSDate(appt.startTime)
+      .setZone(zone)
+      .toFormat("cccc, d LLLL 'at' HH:mm");
+
+    if (wantsConfirm) {
+      await this.prisma.$transaction([
+        this.prisma.appointment.updateMany({
+          where: { id: appt.id, status: AppointmentStatus.PENDING },
+          data: { status: AppointmentStatus.CONFIRMED },
+        }),
+        this.prisma.appointmentReminder.update({
+          where: { id: reminder.id },
+          data: {
+            status: AppointmentReminderStatus.CONFIRMED,
+            respondedAt: new Date(),
+          },
+        }),
+      ]);
+      return {
+        action: 'CONFIRMED',
+        appointmentId: appt.id,
+        reminderId: reminder.id,
+        text: `Thanks! Your appointment on ${when} (${zone}) is confirmed.`,
+      };
+    }
+
+    try {
+      await this.appointments.cancel(appt.agentId, appt.id, {
+        reason: 'Cancelled by the customer (reminder reply)',
+      });
+    } catch (e) {
+      this.logger.error(
+        `[handleReply] cancel ${appt.id} failed: ${e instanceof HttpException ? e.message : String(e)}`,
+      );
+      return {
+        action: 'FAILED',
+        appointmentId: appt.id,
+        reminderId: reminder.id,
+        text: 'Sorry, I could not cancel your appointment right now. Please try again in a few minutes.',
+      };
+    }
+
+    await this.prisma.appointmentReminder.update({
+      where: { id: reminder.id },
+      data: {
+        status: AppointmentReminderStatus.CANCELLED,
+        respondedAt: new Date(),
+      },
+    });
+    return {
+      action: 'CANCELLED',
+      appointmentId: appt.id,
+      reminderId: reminder.id,
+      text: `Your appointment on ${when} (${zone}) has been cancelled.`,
+    };
+  }
+
+  /** Whether the chat's latest AI message is this reminder (the scheduler logs it with its id) */
+  private async isLastOutbound(
+    agentId: string,
+    senderJid: string,
+    reminderId: string,
+  ): Promise<boolean> {
+    const last = await this.prisma.conversation.findFirst({
+      where: { agentId, senderJid, senderType: SenderType.AI },
+      orderBy: { createdAt: 'desc' },
+      select: { metadata: true },
+    });
+    const metadata = last?.metadata as {
+      reminder?: { reminderId?: string };
+    } | null;
+    return metadata?.reminder?.reminderId === reminderId;
+  }
+}
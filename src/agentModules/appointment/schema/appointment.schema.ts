@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { AppointmentStatus } from '@prisma/client';
+import { DateTime } from 'luxon';
+
+const ianaTimezone = z
+  .string()
+  .trim()
+  .min(1)
+  .refine((tz) => DateTime.local().setZone(tz).isValid, {
+    message: 'Invalid IANA timezone',
+  });
+
+/** GET /agents/:agentId/appointments query (status accepts a comma-separated list) */
+export const listAppointmentsQuerySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    status: z
+      .preprocess(
+        (v) =>
+          typeof v === 'string'
+            ? v
+                .split(',')
+                .map((s) => s.trim().toUpperCase())
+                .filter(Boolean)
+            : v,
+        z.array(z.nativeEnum(AppointmentStatus)).min(1),
+      )
+      .optional(),
+    senderJid: z.string().trim().min(1).optional(),
+    attendee: z.string().trim().min(1).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  })
+  .refine((q) => !q.from || !q.to || q.from <= q.to, {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+/** POST /agents/:agentId/appointments/:id/reschedule */
+export const rescheduleAppointmentSchema = z
+  .object({
+    startTime: z.coerce.date(),
+    /** Defaults to startTime + the current duration */
+    endTime: z.coerce.date().optional(),
+    timezone: ianaTimezone.optional(),
+    /** Owner override: skip calendar busy time, buffers and the daily cap (overlaps are still refused) */
+    force: z.boolean().optional(),
+  })
+  .refine((d) => !d.endTime || d.endTime > d.startTime, {
+    message: 'endTime must be after startTime',
+    path: ['endTime'],
+  });
+
+/** POST /agents/:agentId/appointments/:id/cancel */
+export const cancelAppointmentSchema = z.object({
+  reason: z.string().trim().min(1).max(500).optional(),
+});
@@ -12,6 +12,7 @@ import {
   Patch,
   Put,
   Post,
+  Query,
   Logger,
   BadRequestException,
   NotFoundException,
@@ -27,6 +28,12 @@ import { UpsertBookingSettingsDto } from './dto/upsert-booking-settings.dto';
 import { PatchBookingSettingsDto } from './dto/patch-booking-settings.dto';
 import { UpsertWeeklyAvailabilityDto } from './dto/upsert-weekly-availability.dto';
 import { DeleteWeeklyAvailabilityDto } from './dto/delete-weekly-availability.dto';
+import { UpsertReminderRulesDto } from './dto/upsert-reminder-rules.dto';
+import { AssignCalendarsDto, UnassignCalendarsDto } from './dto/assign-calendars.dto';
+import {
+  ListAvailabilityOverridesQueryDto,
+  UpsertAvailabilityOverrideDto,
+} from './dto/availability-override.dto';
 
 import { ZodError } from 'zod';
 import { Prisma } from '@prisma/client';
@@ -160,6 +167,82 @@ export class BookingSettingsController {
     }
   }
 
+  // ---------- Date Overrides (holidays / extra hours) ----------
+
+  @Get('overrides')
+  async getOverrides(
+    @Param('agentId', new ParseUUIDPipe()) agentId: string,
+    @Query() query: ListAvailabilityOverridesQueryDto,
+    @Req() req: ReqWithAuth,
+  ) {
+    try {
+      const me = await this.userService.getFromAuth(req.auth ?? {});
+      return await this.booking.getOverrides(agentId, query, me.id);
+    } catch (e) {
+      this.handleError(e, 'getOverrides');
+    }
+  }
+
+  /** Replace the overrides of one date (YYYY-MM-DD) */
+  @Put('overrides/:date')
+  async upsertOverride(
+    @Param('agentId', new ParseUUIDPipe()) agentId: string,
+    @Param('date') date: string,
+    @Body() dto: UpsertAvailabilityOverrideDto,
+    @Req() req: ReqWithAuth,
+  ) {
+    try {
+      const me = await this.userService.getFromAuth(req.auth ?? {});
+      return await this.booking.upsertOverride(agentId, date, dto, me.id);
+    } catch (e) {
+      this.handleError(e, 'upsertOverride');
+    }
+  }
+
+  @Delete('overrides/:date')
+  @HttpCode(HttpStatus.OK)
+  async deleteOverride(
+    @Param('agentId', new ParseUUIDPipe()) agentId: string,
+    @Param('date') date: string,
+    @Req() req: ReqWithAuth,
+  ) {
+    try {
+      const me = await this.userService.getFromAuth(req.auth ?? {});
+      return await this.booking.deleteOverride(agentId, date, me.id);
+    } catch (e) {
+      this.handleError(e, 'deleteOverride');
+    }
+  }
+
+  // ---------- Appointment Reminder Rules ----------
+
+  @Get('reminders')
+  async getReminderRules(
+    @Param('agentId', new ParseUUIDPipe()) agentId: string,
+    @Req() req: ReqWithAuth,
+  ) {
+    try {
+      const me = await this.userService.getFromAuth(req.auth ?? {});
+      return await this.booking.getReminderRules(agentId, me.id);
+    } catch (e) {
+      this.handleError(e, 'getReminderRules');
+    }
+  }
+
+  @Put('reminders')
+  async upsertReminderRules(
+    @Param('agentId', new ParseUUIDPipe()) agentId: string,
+    @Body() dto: UpsertReminderRulesDto,
+    @Req() req: ReqWithAuth,
+  ) {
+    try {
+      const me = await this.userService.getFromAuth(req.auth ?? {});
+      return await this.booking.upsertReminderRules(agentId, dto, me.id);
+    } catch (e) {
+      this.handleError(e, 'upsertReminderRules');
+    }
+  }
+
   // ---------- Calendar Assignment (single) ----------
 
   /** Get the single calendar currently assigned to the agent (or null) */
@@ -210,6 +293,53 @@ export class BookingSettingsController {
     }
   }
 
+  // ---------- Calendar Assignment (multiple) ----------
+
+  /** All calendars assigned to the agent; bookings are routed by settings.calendarStrategy */
+  @Get('calendars')
+  async listCalendars(
+    @Param('agentId', new ParseUUIDPipe()) agentId: string,
+    @Req() req: ReqWithAuth,
+  ) {
+    try {
+      const me = await this.userService.getFromAuth(req.auth ?? {});
+      return await this.booking.listAgentCalendars(agentId, me.id);
+    } catch (e) {
+      this.handleError(e, 'listCalendars');
+    }
+  }
+
+  /** Replace the agent's assigned calendars */
+  @Put('calendars')
+  async assignCalendars(
+    @Param('agentId', new ParseUUIDPipe()) agentId: string,
+    @Body() dto: AssignCalendarsDto,
+    @Req() req: ReqWithAuth,
+  ) {
+    try {
+      const me = await this.userService.getFromAuth(req.auth ?? {});
+      return await this.booking.assignCalendarsToAgent(agentId, dto, me.id);
+    } catch (e) {
+      this.handleError(e, 'assignCalendars');
+    }
+  }
+
+  /** Unassign some of the agent's calendars */
+  @Delete('calendars')
+  @HttpCode(HttpStatus.OK)
+  async unassignCalendars(
+    @Param('agentId', new ParseUUIDPipe()) agentId: string,
+    @Body() dto: UnassignCalendarsDto,
+    @Req() req: ReqWithAuth,
+  ) {
+    try {
+      const me = await this.userService.getFromAuth(req.auth ?? {});
+      return await this.booking.unassignCalendarsFromAgent(agentId, dto, me.id);
+    } catch (e) {
+      this.handleError(e, 'unassignCalendars');
+    }
+  }
+
   // ---------- Error mapping (controller-level) ----------
 
   private handleError(err: unknown, context: string): never {
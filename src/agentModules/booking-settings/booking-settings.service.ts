@@ -14,6 +14,12 @@ import { UpsertBookingSettingsDto } from './dto/upsert-booking-settings.dto';
 import { PatchBookingSettingsDto } from './dto/patch-booking-settings.dto';
 import { UpsertWeeklyAvailabilityDto } from './dto/upsert-weekly-availability.dto';
 import { DeleteWeeklyAvailabilityDto } from './dto/delete-weekly-availability.dto';
+import { UpsertReminderRulesDto } from './dto/upsert-reminder-rules.dto';
+import { AssignCalendarsDto, UnassignCalendarsDto } from './dto/assign-calendars.dto';
+import {
+  ListAvailabilityOverridesQueryDto,
+  UpsertAvailabilityOverrideDto,
+} from './dto/availability-override.dto';
 
 import {
   bookingSettingsSchema,
@@ -29,6 +35,27 @@ import {
   type WeeklyAvailability as WeeklyAvailabilityType,
 } from './schema/weekly_availability.schema';
 
+import {
+  reminderRuleSchema,
+  upsertReminderRulesSchema,
+  type ReminderRule as ReminderRuleType,
+} from './schema/reminder-rule.schema';
+
+import {
+  availabilityOverrideDateSchema,
+  availabilityOverrideSchema,
+  listAvailabilityOverridesQuerySchema,
+  upsertAvailabilityOverrideSchema,
+  type AvailabilityOverride as AvailabilityOverrideType,
+} from './schema/availability-override.schema';
+
+import {
+  agentCalendarAssignmentSchema,
+  assignCalendarsSchema,
+  unassignCalendarsSchema,
+  type AgentCalendarAssignment as AgentCalendarAssignmentType,
+} from './schema/calendar-assignment.schema';
+
 import { Prisma } from '@prisma/client';
 
 const PrismaClientKnownRequestError = Prisma.PrismaClientKnownRequestError;
@@ -205,7 +232,165 @@ export class BookingSettingsService {
     }
   }
 
-  // ---------- Agent ↔ CalendarConnection (Single assignment) ----------
+  // ---------- Date Overrides (holidays / extra hours) ----------
+
+  async getOverrides(
+    agentId: string,
+    query: ListAvailabilityOverridesQueryDto,
+    userId: string,
+  ): Promise<AvailabilityOverrideType[]> {
+    await this.assertAgentOwned(agentId, userId);
+
+    const { from, to } = this.safeParse(
+      listAvailabilityOverridesQuerySchema,
+      query ?? {},
+      'Invalid overrides query',
+    );
+
+    try {
+      const rows = await this.prisma.availabilityOverride.findMany({
+        where: {
+          agentId,
+          ...(from || to ? { date: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } } : {}),
+        },
+        orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+      });
+      return rows.map((r) => availabilityOverrideSchema.parse(r));
+    } catch (e) {
+      this.handleUnknownError(e, 'getOverrides');
+    }
+  }
+
+  /** Replace every override of one date (closed flag + extra windows). */
+  async upsertOverride(
+    agentId: string,
+    date: string,
+    dto: UpsertAvailabilityOverrideDto,
+    userId: string,
+  ): Promise<AvailabilityOverrideType[]> {
+    await this.assertAgentOwned(agentId, userId);
+
+    const day = this.safeParse(availabilityOverrideDateSchema, date, 'Invalid date');
+    const { closed, windows, reason } = this.safeParse(
+      upsertAvailabilityOverrideSchema,
+      dto,
+      'Invalid availability override payload',
+    );
+
+    const settings = await this.prisma.bookingSettings.findUnique({ where: { agentId } });
+    this.assertNoOverlapsAndAligned(
+      windows.map((w) => ({ ...w, dayOfWeek: day })),
+      settings?.appointmentSlot,
+    );
+
+    try {
+      await this.prisma.$transaction([
+        this.prisma.availabilityOverride.deleteMany({ where: { agentId, date: day } }),
+        this.prisma.availabilityOverride.createMany({
+          data: [
+            ...(closed ? [{ agentId, date: day, isClosed: true, reason: reason ?? null }] : []),
+            ...windows.map((w) => ({
+              agentId,
+              date: day,
+              startTime: w.startTime,
+              endTime: w.endTime,
+              reason: reason ?? null,
+            })),
+          ],
+        }),
+      ]);
+
+      const fresh = await this.prisma.availabilityOverride.findMany({
+        where: { agentId, date: day },
+        orderBy: { startTime: 'asc' },
+      });
+      return fresh.map((r) => availabilityOverrideSchema.parse(r));
+    } catch (e) {
+      this.handlePrismaError(e, 'upsertOverride');
+    }
+  }
+
+  async deleteOverride(
+    agentId: string,
+    date: string,
+    userId: string,
+  ): Promise<{ count: number }> {
+    await this.assertAgentOwned(agentId, userId);
+
+    const day = this.safeParse(availabilityOverrideDateSchema, date, 'Invalid date');
+    try {
+      const res = await this.prisma.availabilityOverride.deleteMany({ where: { agentId, date: day } });
+      return { count: res.count };
+    } catch (e) {
+      this.handlePrismaError(e, 'deleteOverride');
+    }
+  }
+
+  // ---------- Appointment Reminder Rules ----------
+
+  async getReminderRules(agentId: string, userId: string): Promise<ReminderRuleType[]> {
+    await this.assertAgentOwned(agentId, userId);
+    try {
+      const rows = await this.prisma.appointmentReminderRule.findMany({
+        where: { agentId },
+        orderBy: { minutesBefore: 'desc' },
+      });
+      return rows.map((r) => reminderRuleSchema.parse(r));
+    } catch (e) {
+      this.handleUnknownError(e, 'getReminderRules');
+    }
+  }
+
+  /**
+   * Replace the agent's reminder rules. Rules are matched on minutesBefore so
+   * an unchanged rule keeps its id (and its sent-reminder history).
+   */
+  async upsertReminderRules(
+    agentId: string,
+    dto: UpsertReminderRulesDto,
+    userId: string,
+  ): Promise<ReminderRuleType[]> {
+    await this.assertAgentOwned(agentId, userId);
+
+    const { rules } = this.safeParse(
+      upsertReminderRulesSchema,
+      dto,
+      'Invalid reminder rules payload',
+    );
+
+    try {
+      await this.prisma.$transaction([
+        this.prisma.appointmentReminderRule.deleteMany({
+          where: { agentId, minutesBefore: { notIn: rules.map((r) => r.minutesBefore) } },
+        }),
+        ...rules.map((r) =>
+          this.prisma.appointmentReminderRule.upsert({
+            where: { agentId_minutesBefore: { agentId, minutesBefore: r.minutesBefore } },
+            create: {
+              agentId,
+              minutesBefore: r.minutesBefore,
+              message: r.message ?? null,
+              isActive: r.isActive ?? true,
+            },
+            update: {
+              message: r.message ?? null,
+              isActive: r.isActive ?? true,
+            },
+          }),
+        ),
+      ]);
+
+      const fresh = await this.prisma.appointmentReminderRule.findMany({
+        where: { agentId },
+        orderBy: { minutesBefore: 'desc' },
+      });
+      return fresh.map((r) => reminderRuleSchema.parse(r));
+    } catch (e) {
+      this.handlePrismaError(e, 'upsertReminderRules');
+    }
+  }
+
+  // ---------- Agent ↔ CalendarConnection (single assignment, kept for older clients) ----------
 
   /**
    * Assign a single calendar connection to an agent.
@@ -282,55 +467,98 @@ export class BookingSettingsService {
     }
   }
 
-  // ---------- Backward-compat wrappers (optional) ----------
+  // ---------- Agent ↔ CalendarConnection (multiple, routed by BookingSettings.calendarStrategy) ----------
 
   /**
-   * DEPRECATED: multi-assign wrapper. Accepts exactly one id for backward compatibility.
+   * Replace the set of calendars assigned to an agent. Calendars that stay
+   * assigned keep their assignedAt / lastBookedAt (round-robin position).
    */
   async assignCalendarsToAgent(
     agentId: string,
-    connectionIds: string[],
+    dto: AssignCalendarsDto,
     userId: string,
-  ): Promise<{ agentId: string; assignedConnectionIds: string[] }> {
-    if (!Array.isArray(connectionIds) || connectionIds.length !== 1) {
-      throw new BadRequestException(
-        'Only one calendarConnectionId is allowed. Pass a single id in the array.',
-      );
-    }
-    const { calendarConnectionId } = await this.assignCalendarToAgent(
-      agentId,
-      connectionIds[0],
-      userId,
+  ): Promise<AgentCalendarAssignmentType[]> {
+    await this.assertAgentOwned(agentId, userId);
+
+    const { calendarConnectionIds } = this.safeParse(
+      assignCalendarsSchema,
+      dto,
+      'Invalid calendar assignment payload',
     );
-    return { agentId, assignedConnectionIds: [calendarConnectionId] };
+
+    const owned = await this.prisma.calendarConnection.findMany({
+      where: { id: { in: calendarConnectionIds }, userId },
+      select: { id: true },
+    });
+    if (owned.length !== calendarConnectionIds.length) {
+      const found = new Set(owned.map((c) => c.id));
+      throw new NotFoundException({
+        message: 'calendarConnectionId not found for this user',
+        missing: calendarConnectionIds.filter((id) => !found.has(id)),
+      });
+    }
+
+    try {
+      await this.prisma.$transaction([
+        this.prisma.agentCalendarAssignment.deleteMany({
+          where: { agentId, calendarConnectionId: { notIn: calendarConnectionIds } },
+        }),
+        this.prisma.agentCalendarAssignment.createMany({
+          data: calendarConnectionIds.map((calendarConnectionId) => ({ agentId, calendarConnectionId })),
+          skipDuplicates: true,
+        }),
+      ]);
+    } catch (e) {
+      this.handlePrismaError(e, 'assignCalendarsToAgent');
+    }
+
+    return this.listAgentCalendars(agentId, userId);
   }
 
-  /**
-   * DEPRECATED: list wrapper. Returns [] or [one].
-   */
+  /** All calendars assigned to an agent, in assignment order. */
   async listAgentCalendars(
     agentId: string,
     userId: string,
-  ): Promise<Array<{ calendarConnectionId: string; assignedAt: Date }>> {
-    const one = await this.getAgentCalendar(agentId, userId);
-    return one ? [one] : [];
+  ): Promise<AgentCalendarAssignmentType[]> {
+    await this.assertAgentOwned(agentId, userId);
+    try {
+      const rows = await this.prisma.agentCalendarAssignment.findMany({
+        where: { agentId },
+        select: { calendarConnectionId: true, assignedAt: true, lastBookedAt: true },
+        orderBy: { assignedAt: 'asc' },
+      });
+      return rows.map((r) => agentCalendarAssignmentSchema.parse(r));
+    } catch (e) {
+      this.handlePrismaError(e, 'listAgentCalendars');
+    }
   }
 
-  /**
-   * DEPRECATED: unassign wrapper. Returns removed ids array.
-   */
+  /** Unassign the given calendars; returns the ids that were actually removed. */
   async unassignCalendarsFromAgent(
     agentId: string,
-    connectionIds: string[],
+    dto: UnassignCalendarsDto,
     userId: string,
   ): Promise<{ removed: string[] }> {
-    // Ignore requested ids; we only keep a single assignment anyway.
-    const current = await this.prisma.agentCalendarAssignment.findFirst({
-      where: { agentId },
-      select: { calendarConnectionId: true },
-    });
-    const { removed } = await this.unassignCalendarFromAgent(agentId, userId);
-    return { removed: removed && current ? [current.calendarConnectionId] : [] };
+    await this.assertAgentOwned(agentId, userId);
+
+    const { calendarConnectionIds } = this.safeParse(
+      unassignCalendarsSchema,
+      dto,
+      'Invalid calendar unassignment payload',
+    );
+
+    try {
+      const current = await this.prisma.agentCalendarAssignment.findMany({
+        where: { agentId, calendarConnectionId: { in: calendarConnectionIds } },
+        select: { calendarConnectionId: true },
+      });
+      await this.prisma.agentCalendarAssignment.deleteMany({
+        where: { agentId, calendarConnectionId: { in: calendarConnectionIds } },
+      });
+      return { removed: current.map((r) => r.calendarConnectionId) };
+    } catch (e) {
+      this.handlePrismaError(e, 'unassignCalendarsFromAgent');
+    }
   }
 
   // ---------- Helpers ----------
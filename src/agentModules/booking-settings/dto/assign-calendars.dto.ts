@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import {
+  assignCalendarsSchema,
+  unassignCalendarsSchema,
+} from '../schema/calendar-assignment.schema';
+
+export type AssignCalendarsDto = z.infer<typeof assignCalendarsSchema>;
+export type UnassignCalendarsDto = z.infer<typeof unassignCalendarsSchema>;
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import {
+  listAvailabilityOverridesQuerySchema,
+  upsertAvailabilityOverrideSchema,
+} from '../schema/availability-override.schema';
+
+export type UpsertAvailabilityOverrideDto = z.infer<
+  typeof upsertAvailabilityOverrideSchema
+>;
+export type ListAvailabilityOverridesQueryDto = z.infer<
+  typeof listAvailabilityOverridesQuerySchema
+>;
@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import { upsertReminderRulesSchema } from '../schema/reminder-rule.schema';
+
+export type UpsertReminderRulesDto = z.infer<typeof upsertReminderRulesSchema>;
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import {
+  availabilityOverrideSchema,
+  upsertAvailabilityOverrideSchema,
+} from '../schema/availability-override.schema';
+
+/** External-facing date override shape (safe for API responses) */
+export interface IAvailabilityOverride {
+  id?: string;
+  date: string;              // "YYYY-MM-DD" in the booking timezone
+  isClosed: boolean;         // closed row: weekly hours dropped for the date
+  startTime: string | null;  // "HH:MM" 24h; null on closed rows
+  endTime: string | null;
+  reason?: string | null;    // e.g. "Public holiday"
+  agentId?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/** Zod-inferred types to keep parity with schemas */
+export type AvailabilityOverride = z.infer<typeof availabilityOverrideSchema>;
+export type UpsertAvailabilityOverrideInput = z.infer<typeof upsertAvailabilityOverrideSchema>;
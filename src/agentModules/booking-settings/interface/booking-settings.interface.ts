@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { CalendarRoutingStrategy } from '@prisma/client';
 import { bookingSettingsSchema } from '../schema/booking-settings.schema';
 
 /** External-facing Booking Settings shape (safe for API responses) */
@@ -8,6 +9,13 @@ export interface IBookingSettings {
   allowSameDayBooking: boolean;
   enableNotifications: boolean;
   notificationEmails: string[];     // 0–5 emails
+  notifyAttendee: boolean;          // also email the attendee
+  calendarStrategy: CalendarRoutingStrategy; // routing across assigned calendars
+  bufferBeforeMin: number;          // minutes free before a booking
+  bufferAfterMin: number;           // minutes free after a booking
+  minNoticeHours: number;           // earliest start = now + N hours
+  maxDaysAhead: number;             // booking horizon (days)
+  maxAppointmentsPerDay: number | null; // null = no cap
   agentId?: string;                 // usually implied by route
   createdAt?: Date;
   updatedAt?: Date;
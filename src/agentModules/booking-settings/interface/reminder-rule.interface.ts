@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import {
+  reminderRuleSchema,
+  reminderRuleInputSchema,
+  upsertReminderRulesSchema,
+} from '../schema/reminder-rule.schema';
+
+/** External-facing reminder rule shape (safe for API responses) */
+export interface IReminderRule {
+  id?: string;
+  minutesBefore: number;   // e.g. 1440 = 24h, 60 = 1h
+  message?: string | null; // template; null → default reminder text
+  isActive: boolean;
+  agentId?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/** Zod-inferred types to keep parity with schemas */
+export type ReminderRule = z.infer<typeof reminderRuleSchema>;
+export type ReminderRuleInput = z.infer<typeof reminderRuleInputSchema>;
+export type UpsertReminderRulesInput = z.infer<typeof upsertReminderRulesSchema>;
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD')
+  .refine((d) => !Number.isNaN(Date.parse(`${d}T00:00:00Z`)), {
+    message: 'Invalid date',
+  });
+
+const hhmm = z.string().regex(/^\d{2}:\d{2}$/, 'Use HH:MM (24h)');
+
+const toMinutes = (t: string) => {
+  const [h, m] = t.split(':').map(Number);
+  return h * 60 + m;
+};
+
+/** Extra opening hours on a specific date */
+export const overrideWindowSchema = z
+  .object({ startTime: hhmm, endTime: hhmm })
+  .refine(
+    ({ startTime, endTime }) => toMinutes(endTime) > toMinutes(startTime),
+    {
+      message: 'endTime must be after startTime',
+    },
+  );
+
+/**
+ * PUT semantics for one date: replaces every override of that date.
+ * closed=true drops the weekly hours; windows are added on top
+ * (closed + windows = these hours only).
+ */
+export const upsertAvailabilityOverrideSchema = z
+  .object({
+    closed: z.boolean().default(false),
+    windows: z.array(overrideWindowSchema).max(10).default([]),
+    reason: z.string().trim().min(1).max(200).nullable().optional(),
+  })
+  .refine((d) => d.closed || d.windows.length > 0, {
+    message: 'Set closed=true or provide at least one window',
+  });
+
+export const availabilityOverrideDateSchema = isoDate;
+
+/** GET filter; both bounds inclusive */
+export const listAvailabilityOverridesQuerySchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+});
+
+/** Base row schema (mirrors Prisma.AvailabilityOverride) */
+export const availabilityOverrideSchema = z.object({
+  id: z.string().uuid(),
+  agentId: z.string().uuid(),
+  date: z.string(),
+  isClosed: z.boolean(),
+  startTime: z.string().nullable(),
+  endTime: z.string().nullable(),
+  reason: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+/** Types */
+export type AvailabilityOverride = z.infer<typeof availabilityOverrideSchema>;
+export type UpsertAvailabilityOverrideInput = z.infer<
+  typeof upsertAvailabilityOverrideSchema
+>;
+export type ListAvailabilityOverridesQuery = z.infer<
+  typeof listAvailabilityOverridesQuerySchema
+>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { CalendarRoutingStrategy } from '@prisma/client';
 
 /** IANA timezone validator (e.g., "Europe/Rome") */
 const isValidIanaTz = (tz: string) => {
@@ -27,6 +28,23 @@ export const bookingSettingsBaseSchema = z.object({
     .array(z.string().email('Invalid email'))
     .max(5, 'Max 5 emails')
     .default([]),
+  /** Also send confirm/cancel/reschedule emails to the attendee */
+  notifyAttendee: z.boolean().default(false),
+
+  /** How bookings are routed across the agent's assigned calendars */
+  calendarStrategy: z
+    .nativeEnum(CalendarRoutingStrategy)
+    .default(CalendarRoutingStrategy.PRIMARY_ONLY),
+
+  /** Free time (minutes) the calendar must have before / after a booking */
+  bufferBeforeMin: z.number().int().min(0).max(240).default(0),
+  bufferAfterMin: z.number().int().min(0).max(240).default(0),
+  /** Earliest bookable start is now + minNoticeHours */
+  minNoticeHours: z.number().int().min(0).max(24 * 60).default(0),
+  /** Booking horizon in days (also caps get_available_time's lookahead) */
+  maxDaysAhead: z.number().int().min(1).max(365).default(14),
+  /** null = unlimited */
+  maxAppointmentsPerDay: z.number().int().min(1).max(500).nullable().default(null),
 
   /** NEW: default display/availability timezone (IANA) */
   timezone: IanaTimezoneSchema.default('UTC'),
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+/** Max calendars routed to by one agent */
+export const MAX_AGENT_CALENDARS = 10;
+
+/** PUT semantics: replace the agent's assigned calendars */
+export const assignCalendarsSchema = z.object({
+  calendarConnectionIds: z
+    .array(z.string().uuid())
+    .min(1)
+    .max(MAX_AGENT_CALENDARS)
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: 'calendarConnectionIds must be unique',
+    }),
+});
+
+/** DELETE payload: calendars to unassign */
+export const unassignCalendarsSchema = z.object({
+  calendarConnectionIds: z.array(z.string().uuid()).min(1),
+});
+
+/** One assignment row as returned by the API */
+export const agentCalendarAssignmentSchema = z.object({
+  calendarConnectionId: z.string().uuid(),
+  assignedAt: z.date(),
+  lastBookedAt: z.date().nullable(),
+});
+
+/** Types */
+export type AssignCalendarsInput = z.infer<typeof assignCalendarsSchema>;
+export type UnassignCalendarsInput = z.infer<typeof unassignCalendarsSchema>;
+export type AgentCalendarAssignment = z.infer<
+  typeof agentCalendarAssignmentSchema
+>;
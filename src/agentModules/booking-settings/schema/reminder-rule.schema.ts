@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+/** One reminder rule: send N minutes before the appointment starts */
+export const reminderRuleInputSchema = z.object({
+  minutesBefore: z
+    .number()
+    .int()
+    .min(5)
+    .max(60 * 24 * 14), // 5 min – 14 days
+  message: z.string().trim().min(1).max(1000).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+/** Base row schema (mirrors Prisma.AppointmentReminderRule) */
+export const reminderRuleSchema = z.object({
+  id: z.string().uuid(),
+  minutesBefore: z.number().int(),
+  message: z.string().nullable(),
+  isActive: z.boolean(),
+  agentId: z.string().uuid(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+/** PUT semantics: replace the full rule set for an agent (empty = no reminders) */
+export const upsertReminderRulesSchema = z.object({
+  rules: z
+    .array(reminderRuleInputSchema)
+    .max(5)
+    .refine(
+      (rules) =>
+        new Set(rules.map((r) => r.minutesBefore)).size === rules.length,
+      { message: 'minutesBefore must be unique' },
+    ),
+});
+
+/** Types */
+export type ReminderRule = z.infer<typeof reminderRuleSchema>;
+export type UpsertReminderRulesInput = z.infer<
+  typeof upsertReminderRulesSchema
+>;
@@ -0,0 +1,5 @@
+import { z } from 'zod';
+import { listEmailsQuerySchema, sendEmailSchema } from '../schema/email.schema';
+
+export type SendEmailDto = z.infer<typeof sendEmailSchema>;
+export type ListEmailsQueryDto = z.input<typeof listEmailsQuerySchema>;
@@ -0,0 +1,60 @@
+// src/agentModules/email/email-tracking.controller.ts
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  Res,
+} from '@nestjs/common';
+import { ApiExcludeController } from '@nestjs/swagger';
+import type { Response } from 'express';
+
+import { EmailService } from './email.service';
+
+/** 1x1 transparent GIF */
+const PIXEL = Buffer.from(
+  'R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7',
+  'base64',
+);
+
+/**
+ * Public (unauthenticated) endpoints hit by mail clients.
+ * Links in outgoing mail point here; see EmailService.applyTracking().
+ */
+@ApiExcludeController()
+@Controller('email-tracking')
+export class EmailTrackingController {
+  constructor(private readonly emails: EmailService) {}
+
+  @Get(':id/open.gif')
+  async open(
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Res() res: Response,
+  ) {
+    await this.emails.recordOpen(id);
+    res.set({
+      'Content-Type': 'image/gif',
+      'Content-Length': String(PIXEL.length),
+      'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+    });
+    res.end(PIXEL);
+  }
+
+  @Get(':id/click')
+  async click(
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Query('u') url: string,
+    @Query('s') signature: string,
+    @Res() res: Response,
+  ) {
+    const target = await this.emails.recordClick(
+      id,
+      url ?? '',
+      signature ?? '',
+    );
+    if (!target) throw new BadRequestException('Invalid tracking link');
+    res.redirect(302, target);
+  }
+}
@@ -0,0 +1,54 @@
+// src/agentModules/email/email.controller.ts
+import {
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import type { Request } from 'express';
+
+import { EmailService } from './email.service';
+import type { ListEmailsQueryDto } from './dto/email.dto';
+import { ClerkAuthGuard } from 'src/auth/clerk-auth.guard';
+import { UserService } from 'src/user/services/user.service';
+
+type ReqWithAuth = Request & {
+  auth?: {
+    clerkUserId?: string;
+    sessionId?: string;
+  };
+};
+
+@ApiTags('Emails')
+@UseGuards(ClerkAuthGuard)
+@Controller('agents/:agentId/emails')
+export class EmailController {
+  constructor(
+    private readonly emails: EmailService,
+    private readonly userService: UserService,
+  ) {}
+
+  @Get()
+  async list(
+    @Param('agentId', new ParseUUIDPipe()) agentId: string,
+    @Query() query: ListEmailsQueryDto,
+    @Req() req: ReqWithAuth,
+  ) {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.emails.list(agentId, me.id, query);
+  }
+
+  @Get(':id')
+  async findOne(
+    @Param('agentId', new ParseUUIDPipe()) agentId: string,
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Req() req: ReqWithAuth,
+  ) {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.emails.findOne(agentId, id, me.id);
+  }
+}
@@ -0,0 +1,16 @@
+// src/agentModules/email/email.module.ts
+import { Module } from '@nestjs/common';
+import { EmailController } from './email.controller';
+import { EmailTrackingController } from './email-tracking.controller';
+import { EmailService } from './email.service';
+import { BookingNotificationService } from './notifications/booking-notification.service';
+import { emailTransportProvider } from './transport/email-transport.provider';
+import { UserModule } from 'src/user/user.module';
+
+@Module({
+  imports: [UserModule],
+  controllers: [EmailController, EmailTrackingController],
+  providers: [EmailService, BookingNotificationService, emailTransportProvider],
+  exports: [EmailService, BookingNotificationService],
+})
+export class EmailModule {}
@@ -0,0 +1,234 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { EmailStatus } from '@prisma/client';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+import { EmailService } from './email.service';
+import {
+  EMAIL_TRANSPORT,
+  type EmailTransport,
+  type OutgoingEmail,
+} from './interface/email.interface';
+import { createEmailTransport } from './transport/email-transport.provider';
+import { FileEmailTransport } from './transport/file.transport';
+import { ConsoleEmailTransport } from './transport/console.transport';
+
+/** Shape of the JSON the file transport writes */
+type WrittenEmail = OutgoingEmail & {
+  attachments?: { filename: string; content: string }[];
+  providerMessageId: string;
+};
+
+const AGENT_ID = 'agent-1';
+const EMAIL_ID = '0b7c3c1e-8f57-4a43-9d0e-3f3f6d0d2b11';
+
+function fakePrisma() {
+  return {
+    agent: {
+      findUnique: jest.fn().mockResolvedValue({ id: AGENT_ID, name: 'Clinic' }),
+    },
+    email: {
+      create: jest.fn(({ data }: { data: Record<string, unknown> }) =>
+        Promise.resolve({ id: EMAIL_ID, ...data, lastError: null }),
+      ),
+      update: jest.fn(
+        ({ where, data }: { where: { id: string }; data: object }) =>
+          Promise.resolve({ id: where.id, ...data }),
+      ),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+  };
+}
+
+async function createService(
+  transport: EmailTransport,
+  prisma = fakePrisma(),
+): Promise<EmailService> {
+  const module: TestingModule = await Test.createTestingModule({
+    providers: [
+      EmailService,
+      { provide: PrismaService, useValue: prisma },
+      { provide: EMAIL_TRANSPORT, useValue: transport },
+    ],
+  }).compile();
+  return module.get<EmailService>(EmailService);
+}
+
+describe('EmailService', () => {
+  const env = { ...process.env };
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'emails-'));
+    process.env.EMAIL_FILE_DIR = dir;
+    process.env.EMAIL_FROM = 'bot@example.com';
+    process.env.EMAIL_TRACKING_BASE_URL = 'https://api.example.com/';
+    process.env.EMAIL_TRACKING_SECRET = 'test-secret';
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const readWritten = async () => {
+    const files = await fs.readdir(dir);
+    expect(files).toHaveLength(1);
+    const raw = await fs.readFile(path.join(dir, files[0]), 'utf8');
+    return JSON.parse(raw) as WrittenEmail;
+  };
+
+  describe('send (file transport)', () => {
+    it('writes the message and stores the provider id on the row', async () => {
+      const prisma = fakePrisma();
+      const service = await createService(new FileEmailTransport(), prisma);
+
+      const email = await service.send(AGENT_ID, {
+        to: 'Jane@Example.com',
+        subject: 'Your booking',
+        text: 'See https://example.com/booking for details',
+      });
+
+      const written = await readWritten();
+      expect(written.from).toBe('"Clinic" <bot@example.com>');
+      expect(written.to).toBe('Jane@Example.com');
+      expect(written.text).toBe('See https://example.com/booking for details');
+      expect(email.status).toBe(EmailStatus.SENT);
+      expect(email.providerMessageId).toBe(written.providerMessageId);
+      expect(prisma.email.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ recipient: 'jane@example.com' }),
+      });
+    });
+
+    it('adds an open pixel and signed click links that verify', async () => {
+      const service = await createService(new FileEmailTransport());
+
+      await service.send(AGENT_ID, {
+        to: 'jane@example.com',
+        subject: 'Hi',
+        text: 'Visit https://example.com/a',
+      });
+
+      const { html } = await readWritten();
+      expect(html).toContain(
+        `https://api.example.com/email-tracking/${EMAIL_ID}/open.gif`,
+      );
+      const link = /href="([^"]+)"/.exec(html ?? '')?.[1] ?? '';
+      const url = new URL(link.replace(/&amp;/g, '&'));
+      expect(url.pathname).toBe(`/email-tracking/${EMAIL_ID}/click`);
+      expect(url.searchParams.get('u')).toBe('https://example.com/a');
+
+      await expect(
+        service.recordClick(
+          EMAIL_ID,
+          url.searchParams.get('u')!,
+          url.searchParams.get('s')!,
+        ),
+      ).resolves.toBe('https://example.com/a');
+      await expect(
+        service.recordClick(EMAIL_ID, 'https://evil.example', 'forged'),
+      ).resolves.toBeNull();
+    });
+
+    it('leaves the body untracked when track is false', async () => {
+      const service = await createService(new FileEmailTransport());
+
+      await service.send(AGENT_ID, {
+        to: 'jane@example.com',
+        subject: 'Hi',
+        text: 'Plain',
+        track: false,
+      });
+
+      expect((await readWritten()).html).toBeUndefined();
+    });
+
+    it('writes attachments base64-encoded', async () => {
+      const service = await createService(new FileEmailTransport());
+
+      await service.send(AGENT_ID, {
+        to: 'jane@example.com',
+        subject: 'Invite',
+        text: 'Attached',
+        attachments: [
+          {
+            filename: 'invite.ics',
+            content: Buffer.from('BEGIN:VCALENDAR'),
+            contentType: 'text/calendar',
+          },
+        ],
+      });
+
+      const [attachment] = (await readWritten()).attachments ?? [];
+      expect(attachment.filename).toBe('invite.ics');
+      expect(Buffer.from(attachment.content, 'base64').toString()).toBe(
+        'BEGIN:VCALENDAR',
+      );
+    });
+  });
+
+  describe('send (console transport)', () => {
+    it('logs the message and marks the row SENT', async () => {
+      const service = await createService(new ConsoleEmailTransport());
+
+      const email = await service.send(AGENT_ID, {
+        to: 'jane@example.com',
+        subject: 'Hi',
+        text: 'Hello',
+      });
+
+      expect(email.status).toBe(EmailStatus.SENT);
+      expect(email.providerMessageId).toMatch(/^console-/);
+    });
+  });
+
+  it('stores transport failures on the row instead of throwing', async () => {
+    const failing: EmailTransport = {
+      name: 'failing',
+      send: () => Promise.reject(new Error('connection refused')),
+    };
+    const service = await createService(failing);
+
+    const email = await service.send(AGENT_ID, {
+      to: 'jane@example.com',
+      subject: 'Hi',
+      text: 'Hello',
+    });
+
+    expect(email.status).toBe(EmailStatus.FAILED);
+    expect(email.lastError).toBe('connection refused');
+  });
+
+  it('rejects an invalid recipient before touching the transport', async () => {
+    const transport = new ConsoleEmailTransport();
+    const sendSpy = jest.spyOn(transport, 'send');
+    const service = await createService(transport);
+
+    await expect(
+      service.send(AGENT_ID, { to: 'nope', subject: 'Hi', text: 'Hello' }),
+    ).rejects.toThrow('Invalid email payload');
+    expect(sendSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('createEmailTransport', () => {
+  const env = { ...process.env };
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('selects the transport from EMAIL_TRANSPORT', () => {
+    process.env.EMAIL_TRANSPORT = 'file';
+    expect(createEmailTransport().name).toBe('file');
+    process.env.EMAIL_TRANSPORT = 'bogus';
+    expect(createEmailTransport().name).toBe('console');
+  });
+
+  it('defaults to console without SMTP_HOST', () => {
+    delete process.env.EMAIL_TRANSPORT;
+    delete process.env.SMTP_HOST;
+    expect(createEmailTransport().name).toBe('console');
+  });
+});
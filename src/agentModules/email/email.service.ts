@@ -0,0 +1,320 @@
+// src/agentModules/email/email.service.ts
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { z, ZodError } from 'zod';
+import { Email, EmailStatus, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+import { listEmailsQuerySchema, sendEmailSchema } from './schema/email.schema';
+import type { ListEmailsQueryDto } from './dto/email.dto';
+import {
+  EMAIL_TRANSPORT,
+  type EmailTransport,
+  type PaginatedEmails,
+  type SendEmailInput,
+} from './interface/email.interface';
+
+const PrismaClientKnownRequestError = Prisma.PrismaClientKnownRequestError;
+
+@Injectable()
+export class EmailService {
+  private readonly logger = new Logger(EmailService.name);
+
+  private readonly fromAddress = process.env.EMAIL_FROM || 'no-reply@localhost';
+  /** Public base URL of this API, used to build open/click tracking links */
+  private readonly trackingBaseUrl = (
+    process.env.EMAIL_TRACKING_BASE_URL || ''
+  ).replace(/\/+$/, '');
+  /** HMAC secret for click links (no secret → links are not rewritten) */
+  private readonly trackingSecret = process.env.EMAIL_TRACKING_SECRET || '';
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(EMAIL_TRANSPORT) private readonly transport: EmailTransport,
+  ) {}
+
+  // ---------- Send ----------
+
+  /**
+   * Record an Email row, deliver it through the configured transport and
+   * update status/providerMessageId. Delivery failures are stored on the row
+   * (status FAILED + lastError) rather than thrown.
+   */
+  async send(agentId: string, input: SendEmailInput): Promise<Email> {
+    const payload = this.safeParse(
+      sendEmailSchema,
+      input,
+      'Invalid email payload',
+    );
+
+    const agent = await this.prisma.agent.findUnique({
+      where: { id: agentId },
+      select: { id: true, name: true },
+    });
+    if (!agent) throw new NotFoundException('Agent not found');
+
+    let email: Email;
+    try {
+      email = await this.prisma.email.create({
+        data: {
+          agentId,
+          recipient: payload.to.toLowerCase(),
+          subject: payload.subject,
+          body: payload.text,
+          status: EmailStatus.SENT,
+          appointmentId: input.appointmentId ?? null,
+        },
+      });
+    } catch (e) {
+      this.handlePrismaError(e, 'send');
+    }
+
+    const track = (payload.track ?? true) && !!this.trackingBaseUrl;
+    const html = track
+      ? this.applyTracking(
+          email.id,
+          payload.html ?? this.textToHtml(payload.text),
+        )
+      : payload.html;
+
+    try {
+      const result = await this.transport.send({
+        from: `"${agent.name.replace(/"/g, '')}" <${this.fromAddress}>`,
+        to: payload.to,
+        subject: payload.subject,
+        text: payload.text,
+        html,
+        attachments: input.attachments,
+      });
+
+      return await this.prisma.email.update({
+        where: { id: email.id },
+        data: {
+          providerMessageId: result.providerMessageId ?? null,
+          status: EmailStatus.SENT,
+          lastError: null,
+        },
+      });
+    } catch (e: any) {
+      this.logger.error(
+        `[send] transport=${this.transport.name} to=${payload.to} failed: ${e?.message}`,
+      );
+      return this.prisma.email.update({
+        where: { id: email.id },
+        data: {
+          status: EmailStatus.FAILED,
+          lastError: String(e?.message ?? e).slice(0, 1000),
+        },
+      });
+    }
+  }
+
+  // ---------- Read ----------
+
+  async list(
+    agentId: string,
+    userId: string,
+    query: ListEmailsQueryDto,
+  ): Promise<PaginatedEmails> {
+    await this.assertAgentOwned(agentId, userId);
+    const q = this.safeParse(listEmailsQuerySchema, query, 'Invalid query');
+
+    const where: Prisma.EmailWhereInput = {
+      agentId,
+      ...(q.status ? { status: q.status } : {}),
+      ...(q.appointmentId ? { appointmentId: q.appointmentId } : {}),
+      ...(q.recipient
+        ? { recipient: { contains: q.recipient, mode: 'insensitive' } }
+        : {}),
+      ...(q.sentAfter || q.sentBefore
+        ? {
+            sentAt: {
+              ...(q.sentAfter ? { gte: q.sentAfter } : {}),
+              ...(q.sentBefore ? { lte: q.sentBefore } : {}),
+            },
+          }
+        : {}),
+    };
+
+    try {
+      const [data, total] = await this.prisma.$transaction([
+        this.prisma.email.findMany({
+          where,
+          orderBy: { sentAt: 'desc' },
+          skip: (q.page - 1) * q.limit,
+          take: q.limit,
+        }),
+        this.prisma.email.count({ where }),
+      ]);
+
+      return {
+        data,
+        total,
+        page: q.page,
+        limit: q.limit,
+        totalPages: Math.ceil(total / q.limit),
+      };
+    } catch (e) {
+      this.handlePrismaError(e, 'list');
+    }
+  }
+
+  async findOne(agentId: string, id: string, userId: string): Promise<Email> {
+    await this.assertAgentOwned(agentId, userId);
+    const email = await this.prisma.email.findFirst({ where: { id, agentId } });
+    if (!email) throw new NotFoundException('Email not found');
+    return email;
+  }
+
+  // ---------- Tracking ----------
+
+  /** First open wins; later opens are ignored. Unknown ids are a no-op. */
+  async recordOpen(id: string): Promise<void> {
+    try {
+      const now = new Date();
+      await this.prisma.email.updateMany({
+        where: { id, openedAt: null },
+        data: { openedAt: now },
+      });
+      await this.prisma.email.updateMany({
+        where: {
+          id,
+          status: { in: [EmailStatus.SENT, EmailStatus.DELIVERED] },
+        },
+        data: { status: EmailStatus.OPENED },
+      });
+    } catch (e: any) {
+      this.logger.warn(`[recordOpen] ${id}: ${e?.message}`);
+    }
+  }
+
+  /**
+   * Verify a signed click link, stamp clickedAt (a click implies an open)
+   * and return the target URL. Returns null for tampered links.
+   */
+  async recordClick(
+    id: string,
+    url: string,
+    signature: string,
+  ): Promise<string | null> {
+    if (!this.verifyLink(id, url, signature)) return null;
+
+    try {
+      await this.prisma.email.updateMany({
+        where: { id, clickedAt: null },
+        data: { clickedAt: new Date() },
+      });
+    } catch (e: any) {
+      this.logger.warn(`[recordClick] ${id}: ${e?.message}`);
+    }
+    await this.recordOpen(id);
+    return url;
+  }
+
+  // ---------- Tracking helpers ----------
+
+  private applyTracking(emailId: string, html: string): string {
+    let out = html;
+
+    if (this.trackingSecret) {
+      out = out.replace(
+        /href=(["'])(https?:\/\/[^"']+)\1/gi,
+        (_m, q: string, url: string) =>
+          `href=${q}${this.buildClickUrl(emailId, url)}${q}`,
+      );
+    }
+
+    const pixel = `<img src="${this.trackingBaseUrl}/email-tracking/${emailId}/open.gif" width="1" height="1" alt="" style="display:none" />`;
+    return /<\/body>/i.test(out)
+      ? out.replace(/<\/body>/i, `${pixel}</body>`)
+      : out + pixel;
+  }
+
+  private buildClickUrl(emailId: string, url: string): string {
+    const sig = this.sign(emailId, url);
+    return `${this.trackingBaseUrl}/email-tracking/${emailId}/click?u=${encodeURIComponent(url)}&s=${sig}`;
+  }
+
+  private sign(emailId: string, url: string): string {
+    return createHmac('sha256', this.trackingSecret)
+      .update(`${emailId}:${url}`)
+      .digest('base64url');
+  }
+
+  private verifyLink(emailId: string, url: string, signature: string): boolean {
+    if (!this.trackingSecret || !signature || !/^https?:\/\//i.test(url)) {
+      return false;
+    }
+    const expected = Buffer.from(this.sign(emailId, url));
+    const given = Buffer.from(signature);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  }
+
+  /** Plain text → minimal HTML (escaped, links clickable) so it can carry tracking */
+  private textToHtml(text: string): string {
+    const escaped = text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+    const linked = escaped.replace(
+      /(https?:\/\/[^\s<]+)/g,
+      (url) => `<a href="${url}">${url}</a>`,
+    );
+    return `<div style="font-family:sans-serif;white-space:pre-wrap">${linked}</div>`;
+  }
+
+  // ---------- Guards / errors ----------
+
+  private async assertAgentOwned(
+    agentId: string,
+    userId: string,
+  ): Promise<void> {
+    const agent = await this.prisma.agent.findFirst({
+      where: { id: agentId, userId },
+    });
+    if (!agent)
+      throw new NotFoundException('Agent not found or not owned by user');
+  }
+
+  private safeParse<T extends z.ZodTypeAny, O = z.infer<T>>(
+    schema: T,
+    payload: unknown,
+    message = 'Validation failed',
+  ): O {
+    try {
+      return schema.parse(payload) as O;
+    } catch (e) {
+      if (e instanceof ZodError) {
+        throw new BadRequestException({
+          message,
+          issues: e.issues.map((i) => ({
+            path: i.path.join('.'),
+            message: i.message,
+            code: i.code,
+          })),
+        });
+      }
+      throw e;
+    }
+  }
+
+  private handlePrismaError(e: unknown, context: string): never {
+    if (e instanceof PrismaClientKnownRequestError) {
+      if (e.code === 'P2025') throw new NotFoundException('Resource not found');
+      if (e.code === 'P2003')
+        throw new BadRequestException('Invalid reference');
+      this.logger.error(`[${context}] Prisma error ${e.code}: ${e.message}`);
+      throw new InternalServerErrorException('Database error');
+    }
+    this.logger.error(`[${context}] Unexpected error`, e as any);
+    throw new InternalServerErrorException('Unexpected server error');
+  }
+}
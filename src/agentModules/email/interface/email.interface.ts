@@ -0,0 +1,67 @@
+import type { Email, EmailStatus } from '@prisma/client';
+
+/** A message handed to an EmailTransport. */
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  /** Extra attachments (e.g. .ics invites) */
+  attachments?: OutgoingEmailAttachment[];
+}
+
+export interface OutgoingEmailAttachment {
+  filename: string;
+  content: string | Buffer;
+  contentType?: string;
+}
+
+export interface EmailTransportResult {
+  providerMessageId?: string | null;
+}
+
+/**
+ * Pluggable delivery backend. Selected by EMAIL_TRANSPORT (smtp | file | console).
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: OutgoingEmail): Promise<EmailTransportResult>;
+}
+
+/** DI token for the active EmailTransport */
+export const EMAIL_TRANSPORT = Symbol('EMAIL_TRANSPORT');
+
+/** Input for EmailService.send() */
+export interface SendEmailInput {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: OutgoingEmailAttachment[];
+  /** Inject open pixel / rewrite links (default true when tracking is configured) */
+  track?: boolean;
+  /** Link the Email row to an Appointment (booking notifications) */
+  appointmentId?: string;
+}
+
+/** External-facing Email shape (safe for API responses) */
+export type IEmail = Email;
+
+export interface PaginatedEmails {
+  data: Email[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface EmailListFilters {
+  status?: EmailStatus;
+  recipient?: string;
+  appointmentId?: string;
+  sentAfter?: Date;
+  sentBefore?: Date;
+  page: number;
+  limit: number;
+}
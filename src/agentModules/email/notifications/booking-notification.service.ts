@@ -0,0 +1,96 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { Email } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { EmailService } from '../email.service';
+import {
+  renderBookingNotification,
+  type BookingNotificationDetails,
+  type BookingNotificationEvent,
+} from './booking-notification.templates';
+
+/**
+ * Sends confirm/cancel/reschedule emails driven by BookingSettings:
+ * - enableNotifications → notificationEmails[] (staff)
+ * - notifyAttendee      → the attendee's email, when known
+ * Every message is recorded in the Email table (linked to the appointment).
+ * Never throws; failures are logged and stored on the Email row.
+ */
+@Injectable()
+export class BookingNotificationService {
+  private readonly logger = new Logger(BookingNotificationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly emails: EmailService,
+  ) {}
+
+  async notify(
+    event: BookingNotificationEvent,
+    details: BookingNotificationDetails,
+  ): Promise<Email[]> {
+    try {
+      const agent = await this.prisma.agent.findUnique({
+        where: { id: details.agentId },
+        select: { name: true, bookingSettings: true },
+      });
+      const settings = agent?.bookingSettings;
+      if (!agent || !settings || !settings.enableNotifications) return [];
+
+      const sent: Email[] = [];
+
+      const staff = Array.from(
+        new Set(
+          (settings.notificationEmails ?? [])
+            .map((e) => e.trim().toLowerCase())
+            .filter(Boolean),
+        ),
+      );
+      if (staff.length > 0) {
+        const { subject, text } = renderBookingNotification(
+          event,
+          'staff',
+          details,
+          agent.name,
+        );
+        for (const to of staff) {
+          sent.push(
+            await this.emails.send(details.agentId, {
+              to,
+              subject,
+              text,
+              appointmentId: details.appointmentId,
+            }),
+          );
+        }
+      }
+
+      const attendee = details.attendeeEmail?.trim().toLowerCase();
+      if (settings.notifyAttendee && attendee && !staff.includes(attendee)) {
+        const { subject, text } = renderBookingNotification(
+          event,
+          'attendee',
+          details,
+          agent.name,
+        );
+        sent.push(
+          await this.emails.send(details.agentId, {
+            to: attendee,
+            subject,
+            text,
+            appointmentId: details.appointmentId,
+          }),
+        );
+      }
+
+      this.logger.log(
+        `[notify] ${event} appointment=${details.appointmentId} emails=${sent.length}`,
+      );
+      return sent;
+    } catch (error: any) {
+      this.logger.error(
+        `[notify] ${event} appointment=${details.appointmentId}: ${error?.message}`,
+      );
+      return [];
+    }
+  }
+}
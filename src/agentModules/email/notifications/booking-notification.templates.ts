@@ -0,0 +1,121 @@
+import { DateTime } from 'luxon';
+
+export type BookingNotificationEvent =
+  'CONFIRMED' | 'CANCELLED' | 'RESCHEDULED';
+
+/** Everything a booking notification needs; callers fill what they know. */
+export interface BookingNotificationDetails {
+  agentId: string;
+  appointmentId: string;
+  startTime: Date;
+  endTime: Date;
+  timezone: string;
+  attendeeName?: string | null;
+  attendeeEmail?: string | null;
+  attendeePhone?: string | null;
+  location?: string | null;
+  notes?: string | null;
+  /** RESCHEDULED only: the slot before the change */
+  previousStartTime?: Date | null;
+  previousEndTime?: Date | null;
+  /** CANCELLED only: optional reason shown in the email */
+  reason?: string | null;
+}
+
+export interface RenderedNotification {
+  subject: string;
+  text: string;
+}
+
+type Audience = 'staff' | 'attendee';
+
+function formatRange(start: Date, end: Date, tz: string): string {
+  const s = DateTime.fromJSDate(start).setZone(tz);
+  const e = DateTime.fromJSDate(end).setZone(tz);
+  return `${s.toFormat('cccc, d LLLL yyyy')}, ${s.toFormat('HH:mm')}–${e.toFormat('HH:mm')} (${tz})`;
+}
+
+/**
+ * Plain-text templates for booking notifications.
+ * Staff get the full contact details; attendees get a short confirmation.
+ */
+export function renderBookingNotification(
+  event: BookingNotificationEvent,
+  audience: Audience,
+  d: BookingNotificationDetails,
+  agentName: string,
+): RenderedNotification {
+  const when = formatRange(d.startTime, d.endTime, d.timezone);
+  const who =
+    d.attendeeName || d.attendeeEmail || d.attendeePhone || 'a customer';
+
+  const subjects: Record<BookingNotificationEvent, Record<Audience, string>> = {
+    CONFIRMED: {
+      staff: `New booking: ${who} — ${when}`,
+      attendee: `Your appointment with ${agentName} is confirmed`,
+    },
+    CANCELLED: {
+      staff: `Booking cancelled: ${who} — ${when}`,
+      attendee: `Your appointment with ${agentName} was cancelled`,
+    },
+    RESCHEDULED: {
+      staff: `Booking rescheduled: ${who} — ${when}`,
+      attendee: `Your appointment with ${agentName} was rescheduled`,
+    },
+  };
+
+  const lines: string[] = [];
+  const greeting =
+    audience === 'attendee' && d.attendeeName
+      ? `Hi ${d.attendeeName},`
+      : 'Hello,';
+  lines.push(greeting, '');
+
+  switch (event) {
+    case 'CONFIRMED':
+      lines.push(
+        audience === 'attendee'
+          ? 'Your appointment is confirmed.'
+          : `A new appointment was booked via ${agentName}.`,
+      );
+      break;
+    case 'CANCELLED':
+      lines.push(
+        audience === 'attendee'
+          ? 'Your appointment has been cancelled.'
+          : `An appointment booked via ${agentName} was cancelled.`,
+      );
+      break;
+    case 'RESCHEDULED':
+      lines.push(
+        audience === 'attendee'
+          ? 'Your appointment has been moved to a new time.'
+          : `An appointment booked via ${agentName} was rescheduled.`,
+      );
+      break;
+  }
+
+  lines.push('', `When: ${when}`);
+  if (event === 'RESCHEDULED' && d.previousStartTime && d.previousEndTime) {
+    lines.push(
+      `Previously: ${formatRange(d.previousStartTime, d.previousEndTime, d.timezone)}`,
+    );
+  }
+  if (d.location) lines.push(`Where: ${d.location}`);
+  if (event === 'CANCELLED' && d.reason) lines.push(`Reason: ${d.reason}`);
+
+  if (audience === 'staff') {
+    lines.push('', 'Attendee:');
+    if (d.attendeeName) lines.push(`- Name: ${d.attendeeName}`);
+    if (d.attendeeEmail) lines.push(`- Email: ${d.attendeeEmail}`);
+    if (d.attendeePhone) lines.push(`- Phone: ${d.attendeePhone}`);
+    if (!d.attendeeName && !d.attendeeEmail && !d.attendeePhone)
+      lines.push('- (no contact details)');
+    if (d.notes) lines.push('', 'Notes:', d.notes);
+    lines.push('', `Appointment ID: ${d.appointmentId}`);
+  }
+
+  lines.push('', `— ${agentName}`);
+
+  return { subject: subjects[event][audience], text: lines.join('\n') };
+}
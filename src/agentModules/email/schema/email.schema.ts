@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { EmailStatus } from '@prisma/client';
+
+/** Payload accepted by EmailService.send() / the send_email tool */
+export const sendEmailSchema = z.object({
+  to: z.string().trim().email('Invalid recipient email'),
+  subject: z.string().trim().min(1, 'subject is required').max(200),
+  text: z.string().trim().min(1, 'text is required').max(20000),
+  html: z.string().max(100000).optional(),
+  track: z.boolean().optional(),
+});
+
+/** GET /agents/:agentId/emails query */
+export const listEmailsQuerySchema = z
+  .object({
+    status: z.nativeEnum(EmailStatus).optional(),
+    recipient: z.string().trim().min(1).optional(),
+    appointmentId: z.string().uuid().optional(),
+    sentAfter: z.coerce.date().optional(),
+    sentBefore: z.coerce.date().optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  })
+  .refine((q) => !q.sentAfter || !q.sentBefore || q.sentAfter <= q.sentBefore, {
+    message: 'sentAfter must be before sentBefore',
+    path: ['sentAfter'],
+  });
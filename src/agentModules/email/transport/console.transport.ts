@@ -0,0 +1,21 @@
+import { Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import type {
+  EmailTransport,
+  EmailTransportResult,
+  OutgoingEmail,
+} from '../interface/email.interface';
+
+/** Default transport when nothing is configured: logs the message only. */
+export class ConsoleEmailTransport implements EmailTransport {
+  readonly name = 'console';
+  private readonly logger = new Logger(ConsoleEmailTransport.name);
+
+  send(message: OutgoingEmail): Promise<EmailTransportResult> {
+    const id = `console-${randomUUID()}`;
+    this.logger.log(
+      `[send] id=${id} from=${message.from} to=${message.to} subject="${message.subject}"\n${message.text}`,
+    );
+    return Promise.resolve({ providerMessageId: id });
+  }
+}
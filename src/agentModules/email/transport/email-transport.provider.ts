@@ -0,0 +1,37 @@
+import { Logger, type Provider } from '@nestjs/common';
+import {
+  EMAIL_TRANSPORT,
+  type EmailTransport,
+} from '../interface/email.interface';
+import { SmtpEmailTransport } from './smtp.transport';
+import { FileEmailTransport } from './file.transport';
+import { ConsoleEmailTransport } from './console.transport';
+
+/**
+ * EMAIL_TRANSPORT=smtp | file | console
+ * Defaults to smtp when SMTP_HOST is set, otherwise console.
+ */
+export function createEmailTransport(): EmailTransport {
+  const kind = (
+    process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console')
+  ).toLowerCase();
+
+  switch (kind) {
+    case 'smtp':
+      return new SmtpEmailTransport();
+    case 'file':
+      return new FileEmailTransport();
+    case 'console':
+      return new ConsoleEmailTransport();
+    default:
+      new Logger('EmailTransport').warn(
+        `Unknown EMAIL_TRANSPORT "${kind}", falling back to console`,
+      );
+      return new ConsoleEmailTransport();
+  }
+}
+
+export const emailTransportProvider: Provider = {
+  provide: EMAIL_TRANSPORT,
+  useFactory: createEmailTransport,
+};
@@ -0,0 +1,43 @@
+import { Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type {
+  EmailTransport,
+  EmailTransportResult,
+  OutgoingEmail,
+} from '../interface/email.interface';
+
+/**
+ * Local transport for dev/tests: writes each message as JSON to EMAIL_FILE_DIR
+ * (default ./tmp/emails). Nothing leaves the machine.
+ */
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file';
+  private readonly logger = new Logger(FileEmailTransport.name);
+  private readonly dir =
+    process.env.EMAIL_FILE_DIR || path.join(process.cwd(), 'tmp', 'emails');
+
+  async send(message: OutgoingEmail): Promise<EmailTransportResult> {
+    const id = `file-${randomUUID()}`;
+    await fs.mkdir(this.dir, { recursive: true });
+
+    const file = path.join(this.dir, `${Date.now()}-${id}.json`);
+    const payload = {
+      ...message,
+      attachments: message.attachments?.map((a) => ({
+        filename: a.filename,
+        contentType: a.contentType,
+        content: Buffer.isBuffer(a.content)
+          ? a.content.toString('base64')
+          : a.content,
+      })),
+      providerMessageId: id,
+      writtenAt: new Date().toISOString(),
+    };
+    await fs.writeFile(file, JSON.stringify(payload, null, 2), 'utf8');
+
+    this.logger.log(`[send] to=${message.to} file=${file}`);
+    return { providerMessageId: id };
+  }
+}
@@ -0,0 +1,48 @@
+import { Logger } from '@nestjs/common';
+import * as nodemailer from 'nodemailer';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport';
+import type {
+  EmailTransport,
+  EmailTransportResult,
+  OutgoingEmail,
+} from '../interface/email.interface';
+
+/**
+ * SMTP delivery via nodemailer.
+ * Env: SMTP_HOST, SMTP_PORT (587), SMTP_SECURE ("true" for 465), SMTP_USER, SMTP_PASS.
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private readonly logger = new Logger(SmtpEmailTransport.name);
+  private readonly transporter: nodemailer.Transporter<SMTPTransport.SentMessageInfo>;
+
+  constructor() {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      throw new Error('Missing SMTP_HOST (required when EMAIL_TRANSPORT=smtp)');
+    }
+    const port = Number(process.env.SMTP_PORT) || 587;
+    const secure = process.env.SMTP_SECURE === 'true' || port === 465;
+    const user = process.env.SMTP_USER;
+
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure,
+      ...(user ? { auth: { user, pass: process.env.SMTP_PASS || '' } } : {}),
+    });
+  }
+
+  async send(message: OutgoingEmail): Promise<EmailTransportResult> {
+    const info = await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachments: message.attachments,
+    });
+    this.logger.log(`[send] to=${message.to} messageId=${info.messageId}`);
+    return { providerMessageId: info.messageId ?? null };
+  }
+}
@@ -110,6 +110,21 @@ export interface KnowledgeSearchMatch {
   text?: string;
 }
 
+/** One customer ↔ assistant exchange stored for conversation memory. */
+export interface ConversationMemoryRecord {
+  id: string; // vector id (AI Conversation row id)
+  senderJid: string;
+  text: string; // "Customer: …\nAssistant: …"
+  createdAt: Date;
+}
+
+export interface ConversationMemoryMatch {
+  id: string;
+  score?: number;
+  text: string;
+  createdAt?: Date;
+}
+
 export interface Paginated<T> {
   data: T[];
   page: number;
@@ -241,6 +256,22 @@ export interface IKnowledgebaseRepository {
   /* -------- Vector search -------- */
   search(params: KnowledgeSearchParams): Promise<KnowledgeSearchMatch[]>;
 
+  /* -------- Conversation memory (separate namespace) -------- */
+  upsertConversationMemory(
+    agentId: string,
+    records: ConversationMemoryRecord[]
+  ): Promise<number>;
+
+  searchConversationMemory(
+    agentId: string,
+    params: {
+      senderJid: string;
+      query: string;
+      topK?: number;
+      before?: Date; // only exchanges older than this
+    }
+  ): Promise<ConversationMemoryMatch[]>;
+
   /* -------- Vector maintenance helpers -------- */
   purgeVectorsForDocument(namespace: string, vectorIdPrefix: string): Promise<number>;
 }
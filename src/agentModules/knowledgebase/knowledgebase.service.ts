@@ -13,6 +13,8 @@ import type {
   KnowledgeBaseDocument,
   KnowledgeSearchMatch,
   Paginated,
+  ConversationMemoryRecord,
+  ConversationMemoryMatch,
 } from './interface/knowledgebase.interface';
 
 import type {
@@ -257,4 +259,23 @@ export class KnowledgebaseService {
       hybridAlpha: dto.hybridAlpha,
     });
   }
+
+  /* -----------------------------------------------------------
+   * Conversation memory (namespace = `${agentId}__conversations`)
+   * Used by MemoryType.KNOWLEDGE_BASE; callers already own the agent.
+   * ----------------------------------------------------------- */
+
+  async indexConversationMemory(
+    agentId: string,
+    records: ConversationMemoryRecord[]
+  ): Promise<number> {
+    return this.repo.upsertConversationMemory(agentId, records);
+  }
+
+  async searchConversationMemory(
+    agentId: string,
+    params: { senderJid: string; query: string; topK?: number; before?: Date }
+  ): Promise<ConversationMemoryMatch[]> {
+    return this.repo.searchConversationMemory(agentId, params);
+  }
 }
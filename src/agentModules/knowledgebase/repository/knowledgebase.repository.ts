@@ -25,6 +25,8 @@ import type {
   KnowledgeChunk,
   KnowledgeItemStatus,
   KnowledgeSourceType,
+  ConversationMemoryRecord,
+  ConversationMemoryMatch,
 } from '../interface/knowledgebase.interface';
 
 const log = new Logger('KnowledgebaseRepository');
@@ -156,6 +158,11 @@ function buildVectorPayload(
   };
 }
 
+/** Conversation memory lives beside (not inside) the agent's KB namespace */
+function conversationMemoryNamespace(agentId: string): string {
+  return `${agentId}__conversations`;
+}
+
 function mergePineconeFilters(
   userFilter?: Record<string, unknown>,
   defaults: Record<string, unknown> = {}
@@ -985,6 +992,65 @@ export class KnowledgebaseRepository implements IKnowledgebaseRepository {
     }));
   }
 
+  /* ---------- CONVERSATION MEMORY ---------- */
+
+  async upsertConversationMemory(
+    agentId: string,
+    records: ConversationMemoryRecord[]
+  ): Promise<number> {
+    const items = records.filter((r) => r.text && r.text.trim());
+    if (items.length === 0) return 0;
+
+    const embeddings = await embedBatch(items.map((r) => r.text));
+    const vectors: PineconeRecord<RecordMetadata>[] = items.map((r, i) => ({
+      id: r.id,
+      values: embeddings[i],
+      metadata: {
+        agentId,
+        senderJid: r.senderJid,
+        text: r.text,
+        createdAtMs: r.createdAt.getTime(),
+      },
+    }));
+
+    await getIndex().namespace(conversationMemoryNamespace(agentId)).upsert(vectors);
+    return vectors.length;
+  }
+
+  async searchConversationMemory(
+    agentId: string,
+    params: { senderJid: string; query: string; topK?: number; before?: Date }
+  ): Promise<ConversationMemoryMatch[]> {
+    const { senderJid, query, topK = 4, before } = params;
+    if (!query || !query.trim()) return [];
+
+    const [vector] = await embedBatch([query]);
+    const filter: Record<string, unknown> = { senderJid: { $eq: senderJid } };
+    if (before) filter.createdAtMs = { $lt: before.getTime() };
+
+    const results = await getIndex()
+      .namespace(conversationMemoryNamespace(agentId))
+      .query({
+        vector,
+        topK,
+        includeValues: false,
+        includeMetadata: true,
+        filter,
+      });
+
+    return (results.matches || [])
+      .filter((m) => typeof (m.metadata as any)?.text === 'string')
+      .map((m) => {
+        const createdAtMs = (m.metadata as any)?.createdAtMs;
+        return {
+          id: m.id,
+          score: m.score ?? undefined,
+          text: (m.metadata as any).text as string,
+          createdAt: typeof createdAtMs === 'number' ? new Date(createdAtMs) : undefined,
+        };
+      });
+  }
+
   /* ---------- Vector maintenance ---------- */
 
   /**
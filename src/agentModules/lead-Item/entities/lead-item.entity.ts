@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { LeadFieldType } from '@prisma/client';
 
 export class LeadItemEntity {
   @ApiProperty({ format: 'uuid' })
@@ -10,6 +11,21 @@ export class LeadItemEntity {
   @ApiProperty({ required: false, nullable: true })
   description?: string | null;
 
+  @ApiProperty({ enum: LeadFieldType, default: LeadFieldType.TEXT })
+  type!: LeadFieldType;
+
+  @ApiProperty({ default: true })
+  required!: boolean;
+
+  @ApiProperty({ type: [String], description: 'Allowed values (ENUM fields only)' })
+  options!: string[];
+
+  @ApiProperty({ required: false, nullable: true, description: 'Regex a TEXT value must match' })
+  pattern?: string | null;
+
+  @ApiProperty({ default: 0, description: 'Order in which the fields are asked' })
+  position!: number;
+
   @ApiProperty({ format: 'uuid' })
   agentId!: string;
 
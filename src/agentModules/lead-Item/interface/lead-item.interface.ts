@@ -1,7 +1,14 @@
+import type { LeadFieldType } from '@prisma/client';
+
 export interface ILeadItem {
   id: string;
   name: string;
   description?: string | null;
+  type: LeadFieldType;
+  required: boolean;
+  options: string[];
+  pattern?: string | null;
+  position: number;
   agentId: string;
   createdAt: Date;
   updatedAt: Date;
@@ -80,7 +80,7 @@ export class LeadItemController {
   @ApiQuery({
     name: 'sortBy',
     required: false,
-    enum: ['name', 'description', 'createdAt', 'updatedAt'],
+    enum: ['name', 'description', 'position', 'createdAt', 'updatedAt'],
     example: 'createdAt',
   })
   @ApiQuery({ name: 'sortOrder', required: false, enum: ['asc', 'desc'], example: 'desc' })
@@ -4,14 +4,16 @@ import {
   Logger,
   NotFoundException,
   ConflictException,
+  BadRequestException,
 } from '@nestjs/common';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { LeadItem, Prisma } from '@prisma/client';
+import { LeadFieldType, LeadItem, Prisma } from '@prisma/client';
 import {
   CreateLeadItemDto,
   UpdateLeadItemDto,
   GetAllLeadItemsQueryDto,
 } from './dto/lead-item.dto';
+import { leadItemConfigIssues } from './schema/lead-item.schema';
 
 export interface PaginatedLeadItemsResult {
   data: LeadItem[];
@@ -22,7 +24,7 @@ export interface PaginatedLeadItemsResult {
 }
 
 /** Allow-list of sortable fields */
-type LeadItemSortableFields = 'name' | 'description' | 'createdAt' | 'updatedAt';
+type LeadItemSortableFields = 'name' | 'description' | 'position' | 'createdAt' | 'updatedAt';
 
 @Injectable()
 export class LeadItemService {
@@ -38,7 +40,7 @@ export class LeadItemService {
   async getRequiredFields(agentId: string): Promise<LeadItem[]> {
     const items = await this.prisma.leadItem.findMany({
       where: { agentId },
-      orderBy: { createdAt: 'asc' },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
     });
 
     if (!items.length) {
@@ -123,6 +125,7 @@ export class LeadItemService {
     const allowedSort: LeadItemSortableFields[] = [
       'name',
       'description',
+      'position',
       'createdAt',
       'updatedAt',
     ];
@@ -170,12 +173,33 @@ export class LeadItemService {
    */
   async update(id: string, updateLeadItemDto: UpdateLeadItemDto) {
     // Ensure it exists first for consistent 404
-    await this.findOne(id);
+    const existing = await this.findOne(id);
+
+    // Switching type drops settings the new type cannot use, unless they are sent explicitly
+    const data: UpdateLeadItemDto = { ...updateLeadItemDto };
+    if (data.type && data.type !== LeadFieldType.ENUM && data.options === undefined) {
+      data.options = [];
+    }
+    if (data.type && data.type !== LeadFieldType.TEXT && data.pattern === undefined) {
+      data.pattern = null;
+    }
+    const issues = leadItemConfigIssues({
+      type: data.type ?? existing.type,
+      options: data.options ?? existing.options,
+      pattern: data.pattern !== undefined ? data.pattern : existing.pattern,
+    });
+    if (issues.length) {
+      throw new BadRequestException({
+        statusCode: 400,
+        message: 'Validation failed',
+        errors: issues.map((i) => ({ field: i.path, message: i.message })),
+      });
+    }
 
     try {
       return await this.prisma.leadItem.update({
         where: { id },
-        data: updateLeadItemDto,
+        data,
       });
     } catch (error: any) {
       if (error?.code === 'P2002') {
@@ -0,0 +1,198 @@
+import { z } from 'zod';
+import { DateTime } from 'luxon';
+import { LeadFieldType, LeadItem, Prisma } from '@prisma/client';
+import { toE164 } from 'src/common/phone/phone-number';
+
+type LeadFieldDefinition = Pick<
+  LeadItem,
+  'name' | 'description' | 'type' | 'required' | 'options' | 'pattern'
+>;
+
+/** Raw answers arrive as strings from the model (sometimes as numbers/booleans) */
+const rawValue = z.union([z.string(), z.number(), z.boolean()]);
+
+const TRUE_WORDS = ['true', 'yes', 'y', '1'];
+const FALSE_WORDS = ['false', 'no', 'n', '0'];
+
+/** Hint appended to the tool description so the model knows the expected format */
+export function leadFieldFormatHint(field: LeadFieldDefinition): string {
+  switch (field.type) {
+    case LeadFieldType.EMAIL:
+      return 'a valid email address';
+    case LeadFieldType.PHONE:
+      return 'a phone number, with country code if outside the default region';
+    case LeadFieldType.NUMBER:
+      return 'a number';
+    case LeadFieldType.DATE:
+      return 'a date as YYYY-MM-DD';
+    case LeadFieldType.BOOLEAN:
+      return 'yes or no';
+    case LeadFieldType.ENUM:
+      return `one of: ${field.options.join(', ')}`;
+    default:
+      return field.pattern ? `text matching ${field.pattern}` : 'text';
+  }
+}
+
+/**
+ * Zod schema for one LeadItem value. Accepts the raw answer and outputs the
+ * typed value stored in Lead.data: E.164 phone, lower-cased email, number,
+ * ISO date (YYYY-MM-DD), boolean, or the canonical ENUM option.
+ */
+export function leadFieldValueSchema(
+  field: LeadFieldDefinition,
+): z.ZodType<Prisma.JsonValue, z.ZodTypeDef, unknown> {
+  const text = rawValue.transform((v) => String(v).trim());
+
+  switch (field.type) {
+    case LeadFieldType.EMAIL:
+      return text.pipe(
+        z
+          .string()
+          .email('Not a valid email address')
+          .transform((v) => v.toLowerCase()),
+      );
+
+    case LeadFieldType.PHONE:
+      return text.transform((v, ctx) => {
+        const e164 = toE164(v);
+        if (!e164) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'Not a valid phone number',
+          });
+          return z.NEVER;
+        }
+        return e164;
+      });
+
+    case LeadFieldType.NUMBER:
+      return rawValue.transform((v, ctx) => {
+        const n =
+          typeof v === 'number' ? v : Number(String(v).replace(/[\s,]/g, ''));
+        if (typeof v === 'boolean' || !Number.isFinite(n)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'Not a valid number',
+          });
+          return z.NEVER;
+        }
+        return n;
+      });
+
+    case LeadFieldType.DATE:
+      return text.transform((v, ctx) => {
+        const dt = DateTime.fromISO(v);
+        if (!dt.isValid) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'Not a valid date (expected YYYY-MM-DD)',
+          });
+          return z.NEVER;
+        }
+        return dt.toISODate();
+      });
+
+    case LeadFieldType.BOOLEAN:
+      return rawValue.transform((v, ctx) => {
+        if (typeof v === 'boolean') return v;
+        const word = String(v).trim().toLowerCase();
+        if (TRUE_WORDS.includes(word)) return true;
+        if (FALSE_WORDS.includes(word)) return false;
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'Expected yes or no',
+        });
+        return z.NEVER;
+      });
+
+    case LeadFieldType.ENUM:
+      return text.transform((v, ctx) => {
+        const match = field.options.find(
+          (o) => o.toLowerCase() === v.toLowerCase(),
+        );
+        if (!match) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Must be one of: ${field.options.join(', ')}`,
+          });
+          return z.NEVER;
+        }
+        return match;
+      });
+
+    default:
+      return text.pipe(
+        field.pattern
+          ? z
+              .string()
+              .min(1)
+              .regex(new RegExp(field.pattern), 'Not in the expected format')
+          : z.string().min(1),
+      );
+  }
+}
+
+/**
+ * Tool input schema for collect_information: every field is optional so
+ * answers can be saved as they come in; values are validated per field.
+ */
+export function buildLeadToolSchema(fields: LeadFieldDefinition[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of fields) {
+    const need = field.required ? 'required' : 'optional';
+    shape[field.name] = rawValue
+      .optional()
+      .describe(
+        `${field.description ?? field.name} (${need}; ${leadFieldFormatHint(field)})`,
+      );
+  }
+  return z.object(shape);
+}
+
+export type LeadDataValidation = {
+  /** Typed values for the fields that passed */
+  values: Prisma.JsonObject;
+  /** Field name → reason, for answers that must be asked again */
+  invalid: Record<string, string>;
+};
+
+/**
+ * Validate the answers that belong to a LeadItem; other keys are copied as is.
+ * Empty answers are skipped (not yet known) unless `keepNulls` keeps explicit
+ * nulls (removals in manual edits).
+ */
+export function validateLeadData(
+  fields: LeadFieldDefinition[],
+  data: Record<string, unknown>,
+  { keepNulls = false } = {},
+): LeadDataValidation {
+  const byName = new Map(fields.map((f) => [f.name, f]));
+  const values: Prisma.JsonObject = {};
+  const invalid: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === null && keepNulls) {
+      values[key] = null;
+      continue;
+    }
+    if (value === undefined || value === null || value === '') continue;
+
+    const field = byName.get(key);
+    if (!field) {
+      values[key] = value;
+      continue;
+    }
+    const parsed = leadFieldValueSchema(field).safeParse(value);
+    if (parsed.success) values[key] = parsed.data;
+    else invalid[key] = parsed.error.issues[0]?.message ?? 'Invalid value';
+  }
+  return { values, invalid };
+}
+
+/** Names of the fields that must be known before a lead is complete */
+export function requiredLeadFieldNames(
+  fields: LeadFieldDefinition[],
+): string[] {
+  return fields.filter((f) => f.required).map((f) => f.name);
+}
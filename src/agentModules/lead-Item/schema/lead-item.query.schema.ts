@@ -1,6 +1,6 @@
 import { z } from 'zod';
 
-const sortable = ['name', 'description', 'createdAt', 'updatedAt'] as const;
+const sortable = ['name', 'description', 'position', 'createdAt', 'updatedAt'] as const;
 export type LeadItemSortableFields = typeof sortable[number];
 
 export const getAllLeadItemsQuerySchema = z.object({
@@ -1,21 +1,64 @@
 import { z } from 'zod';
+import { LeadFieldType } from '@prisma/client';
 
 /** Single source of truth for a LeadItem */
 export const leadItemSchema = z.object({
   id: z.string().uuid(),
   name: z.string().trim().min(1, { message: 'Lead item name cannot be empty' }),
   description: z.string().trim().optional().nullable(),
+  type: z.nativeEnum(LeadFieldType).default(LeadFieldType.TEXT),
+  required: z.boolean().default(true),
+  options: z.array(z.string().trim().min(1).max(100)).max(50).default([]),
+  pattern: z.string().max(500).optional().nullable(),
+  position: z.number().int().min(0).default(0),
   agentId: z.string().uuid({ message: 'Invalid agent ID' }),
   createdAt: z.date(),
   updatedAt: z.date(),
 }).strict();
 
-/** Create payload: omit db-managed fields */
-export const createLeadItemSchema = leadItemSchema.omit({
+type LeadItemConfig = {
+  type?: LeadFieldType;
+  options?: string[];
+  pattern?: string | null;
+};
+
+/** Cross-field rules: ENUM needs options, options only on ENUM, pattern must compile and is TEXT-only */
+export function leadItemConfigIssues(cfg: LeadItemConfig): { path: string; message: string }[] {
+  const type = cfg.type ?? LeadFieldType.TEXT;
+  const issues: { path: string; message: string }[] = [];
+
+  if (type === LeadFieldType.ENUM && !cfg.options?.length) {
+    issues.push({ path: 'options', message: 'ENUM fields need at least one option' });
+  }
+  if (type !== LeadFieldType.ENUM && cfg.options?.length) {
+    issues.push({ path: 'options', message: 'Options are only allowed on ENUM fields' });
+  }
+  if (cfg.pattern) {
+    if (type !== LeadFieldType.TEXT) {
+      issues.push({ path: 'pattern', message: 'A pattern is only allowed on TEXT fields' });
+    } else {
+      try {
+        new RegExp(cfg.pattern);
+      } catch {
+        issues.push({ path: 'pattern', message: 'Pattern is not a valid regular expression' });
+      }
+    }
+  }
+  return issues;
+}
+
+const leadItemPayloadSchema = leadItemSchema.omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-/** Update payload: partial over create */
-export const updateLeadItemSchema = createLeadItemSchema.partial();
+/** Create payload: omit db-managed fields */
+export const createLeadItemSchema = leadItemPayloadSchema.superRefine((d, ctx) => {
+  for (const issue of leadItemConfigIssues(d)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [issue.path], message: issue.message });
+  }
+});
+
+/** Update payload: partial over create (cross-field rules are checked against the stored item) */
+export const updateLeadItemSchema = leadItemPayloadSchema.partial();
@@ -78,7 +78,25 @@ export interface LeadDto {
 
 
 import { Type } from 'class-transformer';
-import { IsOptional, IsString, IsEnum, IsInt, Min, Max, IsDate } from 'class-validator';
+import { IsOptional, IsString, IsEnum, IsInt, Min, Max, IsDate, IsUUID, ValidateIf } from 'class-validator';
+import { z } from 'zod';
+import {
+  assignLeadSchema,
+  createLeadNoteSchema,
+  listLeadActivitiesQuerySchema,
+  listLeadFieldHistoryQuerySchema,
+  mergeLeadsSchema,
+  patchLeadSchema,
+  updateLeadStatusSchema,
+} from '../schema/lead.schema';
+
+export type UpdateLeadStatusDto = z.infer<typeof updateLeadStatusSchema>;
+export type PatchLeadDto = z.infer<typeof patchLeadSchema>;
+export type AssignLeadDto = z.infer<typeof assignLeadSchema>;
+export type CreateLeadNoteDto = z.infer<typeof createLeadNoteSchema>;
+export type ListLeadActivitiesQueryDto = z.input<typeof listLeadActivitiesQuerySchema>;
+export type MergeLeadsDto = z.input<typeof mergeLeadsSchema>;
+export type ListLeadFieldHistoryQueryDto = z.input<typeof listLeadFieldHistoryQuerySchema>;
 
 /**
  * @class QueryLeadDto
@@ -100,6 +118,14 @@ export class QueryLeadDto {
   @IsString()
   source?: string;
 
+  /**
+   * Filter leads by assignee: a user UUID, or 'unassigned' for leads without one.
+   */
+  @IsOptional()
+  @ValidateIf((o: QueryLeadDto) => o.assignedUserId !== 'unassigned')
+  @IsUUID()
+  assignedUserId?: string;
+
   /**
    * The field to sort the results by. Defaults to 'updatedAt'.
    * Allowed values could be extended (e.g., 'createdAt', 'status').
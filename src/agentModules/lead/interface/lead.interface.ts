@@ -26,3 +26,43 @@ export interface UpdateLead {
   // FIX: Use Prisma.InputJsonValue for type safety on updates.
   data?: Prisma.InputJsonValue;
 }
+
+/**
+ * @interface LeadActivityWithActor
+ * @description Timeline entry with the acting user (null actor = AI agent / system).
+ */
+export type LeadActivityWithActor = Prisma.LeadActivityGetPayload<{
+  include: { actorUser: { select: { id: true; email: true; username: true } } };
+}>;
+
+/**
+ * @interface PaginatedLeadActivities
+ * @description Paginated lead timeline, newest first.
+ */
+export interface PaginatedLeadActivities {
+  data: LeadActivityWithActor[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+/**
+ * @interface LeadFieldHistoryWithActor
+ * @description One field-level change with the acting user (null actor = AI agent / system).
+ */
+export type LeadFieldHistoryWithActor = Prisma.LeadFieldHistoryGetPayload<{
+  include: { actorUser: { select: { id: true; email: true; username: true } } };
+}>;
+
+/**
+ * @interface PaginatedLeadFieldHistory
+ * @description Paginated field history, newest first.
+ */
+export interface PaginatedLeadFieldHistory {
+  data: LeadFieldHistoryWithActor[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
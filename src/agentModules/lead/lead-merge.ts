@@ -0,0 +1,225 @@
+// src/agentModules/lead/lead-merge.ts
+import {
+  Lead,
+  LeadActivityType,
+  LeadFieldChangeSource,
+  LeadStatus,
+  Prisma,
+} from '@prisma/client';
+import type { PrismaService } from 'src/prisma/prisma.service';
+
+/** Leads still being worked; a returning contact is merged into one of these */
+export const OPEN_LEAD_STATUSES: LeadStatus[] = [
+  LeadStatus.NEW,
+  LeadStatus.CONTACTED,
+  LeadStatus.QUALIFIED,
+  LeadStatus.UNQUALIFIED,
+];
+
+/** `data` keys treated as contact details when matching a returning contact */
+const EMAIL_KEY = /e-?mail/i;
+const PHONE_KEY = /phone|mobile|cell|whats\s*app/i;
+
+export type LeadFieldChange = {
+  field: string;
+  oldValue: Prisma.JsonValue | null;
+  newValue: Prisma.JsonValue | null;
+};
+
+export function asLeadData(value: Prisma.JsonValue): Prisma.JsonObject {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? value
+    : {};
+}
+
+function isEmpty(value: Prisma.JsonValue | undefined): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && value.trim() === '')
+  );
+}
+
+/**
+ * Merge `incoming` into `current` and list the field-level changes.
+ * - overwrite=false only fills fields that are empty in `current`.
+ * - removeNulls=true deletes fields set to null in `incoming`; otherwise
+ *   empty incoming values are ignored.
+ */
+export function mergeLeadData(
+  current: Prisma.JsonObject,
+  incoming: Prisma.JsonObject,
+  { overwrite = true, removeNulls = false } = {},
+): { data: Prisma.JsonObject; changes: LeadFieldChange[] } {
+  const data: Prisma.JsonObject = { ...current };
+  const changes: LeadFieldChange[] = [];
+
+  for (const [field, value] of Object.entries(incoming)) {
+    const old = current[field] ?? null;
+    if (value === null && removeNulls) {
+      if (field in data) {
+        delete data[field];
+        changes.push({ field, oldValue: old, newValue: null });
+      }
+      continue;
+    }
+    if (isEmpty(value)) continue;
+    if (!overwrite && !isEmpty(old)) continue;
+    if (JSON.stringify(old) === JSON.stringify(value)) continue;
+
+    data[field] = value;
+    changes.push({ field, oldValue: old, newValue: value ?? null });
+  }
+  return { data, changes };
+}
+
+/** Required field names that have no value yet */
+export function missingLeadFields(
+  data: Prisma.JsonObject,
+  required: string[],
+): string[] {
+  return required.filter((f) => isEmpty(data[f]));
+}
+
+/** Rows for LeadFieldHistory (JSON null is stored as SQL NULL) */
+export function fieldHistoryRows(
+  leadId: string,
+  changes: LeadFieldChange[],
+  source: LeadFieldChangeSource,
+  actorUserId: string | null,
+): Prisma.LeadFieldHistoryCreateManyInput[] {
+  return changes.map((c) => ({
+    leadId,
+    field: c.field,
+    oldValue: c.oldValue ?? Prisma.DbNull,
+    newValue: c.newValue ?? Prisma.DbNull,
+    source,
+    actorUserId,
+  }));
+}
+
+/** Filters matching an existing lead by the email/phone values in `data` */
+function contactMatchers(data: Prisma.JsonObject): Prisma.LeadWhereInput[] {
+  const out: Prisma.LeadWhereInput[] = [];
+  for (const [key, value] of Object.entries(data)) {
+    if (typeof value !== 'string' || !value.trim()) continue;
+    const v = value.trim();
+    if (EMAIL_KEY.test(key)) {
+      for (const candidate of new Set([v, v.toLowerCase()])) {
+        out.push({ data: { path: [key], equals: candidate } });
+      }
+    } else if (PHONE_KEY.test(key)) {
+      out.push({ data: { path: [key], equals: v } });
+    }
+  }
+  return out;
+}
+
+export type CaptureLeadInput = {
+  agentId: string;
+  /** WhatsApp chat the details came from */
+  senderPhone?: string | null;
+  data: Prisma.JsonObject;
+  /** LeadItem names; a lead missing any of them is stored as incomplete */
+  requiredFields: string[];
+  source?: string;
+};
+
+export type CaptureLeadResult = {
+  lead: Lead;
+  created: boolean;
+  changes: LeadFieldChange[];
+  missing: string[];
+};
+
+/**
+ * Upsert an AI-captured lead by contact: an open lead of the agent with the
+ * same senderPhone (or the same email/phone value in `data`) gets the new
+ * fields merged in; otherwise a lead is created. A lead matched only through
+ * `data` belongs to another chat, so it is filled in but never overwritten.
+ * Partial data is accepted and the lead stays incomplete until every required
+ * field is known. Each changed field is written to LeadFieldHistory.
+ */
+export function captureLead(
+  prisma: PrismaService,
+  input: CaptureLeadInput,
+): Promise<CaptureLeadResult> {
+  const { agentId, senderPhone, requiredFields } = input;
+
+  return prisma.$transaction(async (tx) => {
+    // Serialise captures for the same contact so two messages cannot both create a lead
+    const lockKey = `lead:${agentId}:${senderPhone ?? ''}`;
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`;
+
+    const matchers = [
+      ...(senderPhone ? [{ senderPhone }] : []),
+      ...contactMatchers(input.data),
+    ];
+    const existing = matchers.length
+      ? await tx.lead.findFirst({
+          where: {
+            agentId,
+            status: { in: OPEN_LEAD_STATUSES },
+            OR: matchers,
+          },
+          orderBy: { updatedAt: 'desc' },
+        })
+      : null;
+
+    const sameChat =
+      !existing || (!!senderPhone && existing.senderPhone === senderPhone);
+    const { data, changes } = mergeLeadData(
+      existing ? asLeadData(existing.data) : {},
+      input.data,
+      { overwrite: sameChat },
+    );
+    const missing = missingLeadFields(data, requiredFields);
+    const activity = {
+      type: LeadActivityType.CAPTURED,
+      metadata: {
+        fields: changes.map((c) => c.field),
+        merged: !!existing,
+        ...(existing && !sameChat ? { matchedBy: 'contact' } : {}),
+        ...(missing.length ? { missing } : {}),
+      },
+    };
+
+    let lead: Lead;
+    if (existing) {
+      lead = await tx.lead.update({
+        where: { id: existing.id },
+        data: {
+          data,
+          isComplete: !missing.length,
+          ...(!existing.senderPhone && senderPhone ? { senderPhone } : {}),
+          activities: { create: activity },
+        },
+      });
+    } else {
+      lead = await tx.lead.create({
+        data: {
+          agentId,
+          status: LeadStatus.NEW,
+          source: input.source ?? null,
+          senderPhone: senderPhone ?? null,
+          data,
+          isComplete: !missing.length,
+          // First entry of the lead timeline (actor null = the AI agent)
+          activities: { create: { ...activity, toStatus: LeadStatus.NEW } },
+        },
+      });
+    }
+
+    if (changes.length) {
+      await tx.leadFieldHistory.createMany({
+        data: fieldHistoryRows(
+          lead.id,
+          changes,
+          LeadFieldChangeSource.AI_CAPTURE,
+          null,
+        ),
+      });
+    }
+    return { lead, created: !existing, changes, missing };
+  });
+}
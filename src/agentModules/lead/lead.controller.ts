@@ -1,20 +1,42 @@
 // /src/leads/controllers/lead.controller.ts
 
-import { Controller, Get, Delete, Param, Query, UsePipes, ValidationPipe, ParseUUIDPipe, UseGuards } from '@nestjs/common';
+import { Controller, Get, Delete, Patch, Post, Body, Param, Query, Req, HttpCode, HttpStatus, UsePipes, ValidationPipe, ParseUUIDPipe, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam } from '@nestjs/swagger';
+import type { Request } from 'express';
 
 
-import { Lead } from '@prisma/client';
+import { Lead, LeadActivity } from '@prisma/client';
+import type {
+  AssignLeadDto,
+  CreateLeadNoteDto,
+  ListLeadActivitiesQueryDto,
+  ListLeadFieldHistoryQueryDto,
+  MergeLeadsDto,
+  PatchLeadDto,
+  UpdateLeadStatusDto,
+} from './dto/lead.dto';
 import { QueryLeadDto } from './dto/lead.dto';
 import { LeadService, PaginatedLeadsResult } from './lead.service';
+import { PaginatedLeadActivities, PaginatedLeadFieldHistory } from './interface/lead.interface';
 import { ClerkAuthGuard } from 'src/auth/clerk-auth.guard';
+import { UserService } from 'src/user/services/user.service';
+
+type ReqWithAuth = Request & {
+  auth?: {
+    clerkUserId?: string;
+    sessionId?: string;
+  };
+};
 
 @ApiTags('Leads')
 @Controller('leads')
 @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
 @UseGuards(ClerkAuthGuard)
 export class LeadController {
-  constructor(private readonly leadService: LeadService) {}
+  constructor(
+    private readonly leadService: LeadService,
+    private readonly userService: UserService,
+  ) {}
 
   @Get()
   @ApiOperation({ summary: 'Get all leads', description: 'Retrieves a paginated and filtered list of all leads in the system. Intended for admin-level access.' })
@@ -49,6 +71,119 @@ export class LeadController {
     return this.leadService.findOne(id, agentId);
   }
 
+  @Patch('/:id/agent/:agentId/status')
+  @ApiOperation({ summary: 'Change lead status', description: 'Moves a lead along the pipeline (NEW → CONTACTED → QUALIFIED/UNQUALIFIED → WON/LOST) and records the change on its timeline.' })
+  @ApiParam({ name: 'id', type: 'string', description: 'The UUID of the lead.' })
+  @ApiParam({ name: 'agentId', type: 'string', description: 'The UUID of the agent who owns the lead.' })
+  @ApiResponse({ status: 200, description: 'The updated lead object.' })
+  @ApiResponse({ status: 409, description: 'The transition is not allowed from the current status.' })
+  async updateStatus(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('agentId', ParseUUIDPipe) agentId: string,
+    @Body() dto: UpdateLeadStatusDto,
+    @Req() req: ReqWithAuth,
+  ): Promise<Lead> {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.leadService.updateStatus(id, agentId, dto, me.id);
+  }
+
+  @Patch('/:id/agent/:agentId/assignee')
+  @ApiOperation({ summary: 'Assign a lead', description: 'Sets (user UUID) or clears (null) the user responsible for the lead.' })
+  @ApiParam({ name: 'id', type: 'string', description: 'The UUID of the lead.' })
+  @ApiParam({ name: 'agentId', type: 'string', description: 'The UUID of the agent who owns the lead.' })
+  @ApiResponse({ status: 200, description: 'The updated lead object.' })
+  async assign(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('agentId', ParseUUIDPipe) agentId: string,
+    @Body() dto: AssignLeadDto,
+    @Req() req: ReqWithAuth,
+  ): Promise<Lead> {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.leadService.assign(id, agentId, dto, me.id);
+  }
+
+  @Patch('/:id/agent/:agentId')
+  @ApiOperation({ summary: 'Edit a lead', description: 'Updates the source and/or merges keys into the lead data (null removes a key).' })
+  @ApiParam({ name: 'id', type: 'string', description: 'The UUID of the lead.' })
+  @ApiParam({ name: 'agentId', type: 'string', description: 'The UUID of the agent who owns the lead.' })
+  @ApiResponse({ status: 200, description: 'The updated lead object.' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('agentId', ParseUUIDPipe) agentId: string,
+    @Body() dto: PatchLeadDto,
+    @Req() req: ReqWithAuth,
+  ): Promise<Lead> {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.leadService.update(id, agentId, dto, me.id);
+  }
+
+  @Post('/:id/agent/:agentId/notes')
+  @ApiOperation({ summary: 'Add a note', description: 'Appends a note to the lead timeline.' })
+  @ApiParam({ name: 'id', type: 'string', description: 'The UUID of the lead.' })
+  @ApiParam({ name: 'agentId', type: 'string', description: 'The UUID of the agent who owns the lead.' })
+  @ApiResponse({ status: 201, description: 'The created timeline entry.' })
+  async addNote(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('agentId', ParseUUIDPipe) agentId: string,
+    @Body() dto: CreateLeadNoteDto,
+    @Req() req: ReqWithAuth,
+  ): Promise<LeadActivity> {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.leadService.addNote(id, agentId, dto, me.id);
+  }
+
+  @Get('/:id/agent/:agentId/activities')
+  @ApiOperation({ summary: 'Get lead timeline', description: 'Lists AI capture, status changes, notes, edits and assignments for a lead, newest first.' })
+  @ApiParam({ name: 'id', type: 'string', description: 'The UUID of the lead.' })
+  @ApiParam({ name: 'agentId', type: 'string', description: 'The UUID of the agent who owns the lead.' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'A paginated list of timeline entries.' })
+  async listActivities(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('agentId', ParseUUIDPipe) agentId: string,
+    @Query() query: ListLeadActivitiesQueryDto,
+    @Req() req: ReqWithAuth,
+  ): Promise<PaginatedLeadActivities> {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.leadService.listActivities(id, agentId, query, me.id);
+  }
+
+  @Get('/:id/agent/:agentId/field-history')
+  @ApiOperation({ summary: 'Get lead field history', description: 'Lists field-level changes of the lead data (AI capture, manual edits, merges), newest first.' })
+  @ApiParam({ name: 'id', type: 'string', description: 'The UUID of the lead.' })
+  @ApiParam({ name: 'agentId', type: 'string', description: 'The UUID of the agent who owns the lead.' })
+  @ApiQuery({ name: 'field', required: false, type: String, description: 'Only changes of this data key.' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'A paginated list of field changes.' })
+  async listFieldHistory(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('agentId', ParseUUIDPipe) agentId: string,
+    @Query() query: ListLeadFieldHistoryQueryDto,
+    @Req() req: ReqWithAuth,
+  ): Promise<PaginatedLeadFieldHistory> {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.leadService.listFieldHistory(id, agentId, query, me.id);
+  }
+
+  @Post('/:id/agent/:agentId/merge')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Merge two leads', description: 'Merges the lead given as sourceLeadId into this lead (data, timeline and field history) and deletes the source lead.' })
+  @ApiParam({ name: 'id', type: 'string', description: 'The UUID of the lead that is kept.' })
+  @ApiParam({ name: 'agentId', type: 'string', description: 'The UUID of the agent who owns both leads.' })
+  @ApiResponse({ status: 200, description: 'The merged lead object.' })
+  @ApiResponse({ status: 404, description: 'One of the leads was not found for the specified agent.' })
+  async merge(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('agentId', ParseUUIDPipe) agentId: string,
+    @Body() dto: MergeLeadsDto,
+    @Req() req: ReqWithAuth,
+  ): Promise<Lead> {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.leadService.merge(id, agentId, dto, me.id);
+  }
+
   @Delete('/:id/agent/:agentId')
   @ApiOperation({ summary: 'Delete a lead', description: 'Removes a lead from the database, ensuring it belongs to the specified agent before deletion.' })
   @ApiParam({ name: 'id', type: 'string', description: 'The UUID of the lead to delete.' })
@@ -3,10 +3,11 @@
 import { Module } from '@nestjs/common';
 import { LeadController } from './lead.controller';
 import { LeadService } from './lead.service';
+import { UserModule } from 'src/user/user.module';
 
 
 @Module({
-  imports: [], // PrismaModule not needed as it's @Global()
+  imports: [UserModule], // PrismaModule not needed as it's @Global()
   controllers: [LeadController],
   providers: [LeadService],
 })
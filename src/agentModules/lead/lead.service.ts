@@ -1,9 +1,31 @@
 // /src/leads/services/lead.service.ts
 
-import { Injectable, NotFoundException, Logger, InternalServerErrorException, BadRequestException } from '@nestjs/common';
-import { Lead, Prisma } from '@prisma/client';
+import { Injectable, NotFoundException, Logger, InternalServerErrorException, BadRequestException, ConflictException } from '@nestjs/common';
+import { Lead, LeadActivity, LeadActivityType, LeadFieldChangeSource, LeadStatus, Prisma } from '@prisma/client';
+import { z, ZodError } from 'zod';
 import { PrismaService } from '../../prisma/prisma.service'; // Adjust path as needed
-import { QueryLeadDto } from './dto/lead.dto';
+import {
+  AssignLeadDto,
+  CreateLeadNoteDto,
+  ListLeadActivitiesQueryDto,
+  ListLeadFieldHistoryQueryDto,
+  MergeLeadsDto,
+  PatchLeadDto,
+  QueryLeadDto,
+  UpdateLeadStatusDto,
+} from './dto/lead.dto';
+import {
+  assignLeadSchema,
+  createLeadNoteSchema,
+  listLeadActivitiesQuerySchema,
+  listLeadFieldHistoryQuerySchema,
+  mergeLeadsSchema,
+  patchLeadSchema,
+  updateLeadStatusSchema,
+} from './schema/lead.schema';
+import { PaginatedLeadActivities, PaginatedLeadFieldHistory } from './interface/lead.interface';
+import { asLeadData, fieldHistoryRows, mergeLeadData, missingLeadFields } from './lead-merge';
+import { validateLeadData } from '../lead-Item/schema/lead-field-value.schema';
 
 
 /**
@@ -19,6 +41,22 @@ export interface PaginatedLeadsResult {
 }
 
 
+/**
+ * Allowed pipeline moves: NEW → CONTACTED → QUALIFIED/UNQUALIFIED → WON/LOST.
+ * Stages may be skipped forward, any open lead can be LOST, an UNQUALIFIED lead
+ * can be re-qualified, and WON/LOST are final.
+ */
+export const LEAD_STATUS_TRANSITIONS: Record<LeadStatus, LeadStatus[]> = {
+  NEW: ['CONTACTED', 'QUALIFIED', 'UNQUALIFIED', 'LOST'],
+  CONTACTED: ['QUALIFIED', 'UNQUALIFIED', 'LOST'],
+  QUALIFIED: ['WON', 'LOST'],
+  UNQUALIFIED: ['QUALIFIED', 'LOST'],
+  WON: [],
+  LOST: [],
+};
+
+const ACTOR_SELECT = { id: true, email: true, username: true } as const;
+
 @Injectable()
 export class LeadService {
   // Initialize logger with the service name for context
@@ -32,11 +70,12 @@ export class LeadService {
    * @returns A promise that resolves to a paginated result of Lead objects.
    */
   async findAllLeads(query: QueryLeadDto): Promise<PaginatedLeadsResult> {
-    const { status, source, page = 1, limit = 10, sortBy = 'updatedAt', sortOrder = 'desc', createdAfter, createdBefore } = query;
+    const { status, source, assignedUserId, page = 1, limit = 10, sortBy = 'updatedAt', sortOrder = 'desc', createdAfter, createdBefore } = query;
 
     const where: Prisma.LeadWhereInput = {};
     if (status) where.status = status;
     if (source) where.source = { contains: source, mode: 'insensitive' };
+    if (assignedUserId) where.assignedUserId = assignedUserId === 'unassigned' ? null : assignedUserId;
     
     if (createdAfter || createdBefore) {
       where.createdAt = {};
@@ -81,11 +120,12 @@ export class LeadService {
    * @returns A promise that resolves to a paginated result of Lead objects.
    */
   async findLeadsByAgent(agentId: string, query: QueryLeadDto): Promise<PaginatedLeadsResult> {
-    const { status, source, page = 1, limit = 10, sortBy = 'updatedAt', sortOrder = 'desc', createdAfter, createdBefore } = query;
+    const { status, source, assignedUserId, page = 1, limit = 10, sortBy = 'updatedAt', sortOrder = 'desc', createdAfter, createdBefore } = query;
 
     const where: Prisma.LeadWhereInput = { agentId };
     if (status) where.status = status;
     if (source) where.source = { contains: source, mode: 'insensitive' };
+    if (assignedUserId) where.assignedUserId = assignedUserId === 'unassigned' ? null : assignedUserId;
     
     if (createdAfter || createdBefore) {
       where.createdAt = {};
@@ -142,6 +182,308 @@ export class LeadService {
     return lead;
   }
 
+  /**
+   * Moves a lead to a new pipeline status and records a STATUS_CHANGED activity.
+   * @param id The ID of the lead.
+   * @param agentId The ID of the agent who owns the lead.
+   * @param dto The target status and an optional note.
+   * @param userId The acting user (must own the agent).
+   * @returns A promise that resolves to the updated Lead object.
+   */
+  async updateStatus(id: string, agentId: string, dto: UpdateLeadStatusDto, userId: string): Promise<Lead> {
+    await this.assertAgentOwned(agentId, userId);
+    const { status, note } = this.safeParse(updateLeadStatusSchema, dto, 'Invalid status payload');
+    const lead = await this.findOne(id, agentId);
+
+    if (lead.status === status) return lead;
+    if (!LEAD_STATUS_TRANSITIONS[lead.status].includes(status)) {
+      throw new ConflictException(`Lead cannot move from ${lead.status} to ${status}.`);
+    }
+
+    try {
+      const [updated] = await this.prisma.$transaction([
+        this.prisma.lead.update({ where: { id }, data: { status } }),
+        this.prisma.leadActivity.create({
+          data: {
+            leadId: id,
+            type: LeadActivityType.STATUS_CHANGED,
+            actorUserId: userId,
+            fromStatus: lead.status,
+            toStatus: status,
+            note: note ?? null,
+          },
+        }),
+      ]);
+      return updated;
+    } catch (error) {
+      this.logger.error(`Failed to update status of lead ${id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Could not update lead status.');
+    }
+  }
+
+  /**
+   * Edits a lead's source and/or data and records a DATA_UPDATED activity.
+   * `data` is merged into the stored object; keys set to null are removed.
+   * @param id The ID of the lead.
+   * @param agentId The ID of the agent who owns the lead.
+   * @param dto The fields to change.
+   * @param userId The acting user (must own the agent).
+   * @returns A promise that resolves to the updated Lead object.
+   */
+  async update(id: string, agentId: string, dto: PatchLeadDto, userId: string): Promise<Lead> {
+    await this.assertAgentOwned(agentId, userId);
+    const patch = this.safeParse(patchLeadSchema, dto, 'Invalid lead payload');
+    const lead = await this.findOne(id, agentId);
+
+    // Values of LeadItem fields are stored typed (E.164 phone, number, ISO date, ...)
+    const items = await this.prisma.leadItem.findMany({ where: { agentId } });
+    const { values, invalid } = validateLeadData(items, patch.data ?? {}, { keepNulls: true });
+    if (Object.keys(invalid).length) {
+      throw new BadRequestException({
+        message: 'Invalid lead payload',
+        issues: Object.entries(invalid).map(([field, message]) => ({ path: `data.${field}`, message, code: 'custom' })),
+      });
+    }
+
+    const { data, changes } = mergeLeadData(asLeadData(lead.data), values, { removeNulls: true });
+    const sourceChanged = patch.source !== undefined && patch.source !== lead.source;
+
+    if (!changes.length && !sourceChanged) return lead;
+    const isComplete = await this.isLeadComplete(agentId, data);
+
+    try {
+      const [updated] = await this.prisma.$transaction([
+        this.prisma.lead.update({
+          where: { id },
+          data: {
+            data,
+            isComplete,
+            ...(sourceChanged ? { source: patch.source } : {}),
+          },
+        }),
+        this.prisma.leadActivity.create({
+          data: {
+            leadId: id,
+            type: LeadActivityType.DATA_UPDATED,
+            actorUserId: userId,
+            metadata: {
+              changedKeys: changes.filter((c) => c.newValue !== null).map((c) => c.field),
+              removedKeys: changes.filter((c) => c.newValue === null).map((c) => c.field),
+              ...(sourceChanged ? { source: { from: lead.source, to: patch.source ?? null } } : {}),
+            },
+          },
+        }),
+        this.prisma.leadFieldHistory.createMany({
+          data: fieldHistoryRows(id, changes, LeadFieldChangeSource.MANUAL, userId),
+        }),
+      ]);
+      return updated;
+    } catch (error) {
+      this.logger.error(`Failed to update lead ${id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Could not update lead.');
+    }
+  }
+
+  /**
+   * Merges another lead of the same agent into this one and deletes it.
+   * Fields empty on the target are filled from the source (`preferSource` lets
+   * the source win instead); timeline and field history move to the target.
+   * @param id The ID of the lead that is kept.
+   * @param agentId The ID of the agent who owns both leads.
+   * @param dto The lead to merge in and the conflict preference.
+   * @param userId The acting user (must own the agent).
+   * @returns A promise that resolves to the merged Lead object.
+   */
+  async merge(id: string, agentId: string, dto: MergeLeadsDto, userId: string): Promise<Lead> {
+    await this.assertAgentOwned(agentId, userId);
+    const { sourceLeadId, preferSource } = this.safeParse(mergeLeadsSchema, dto, 'Invalid merge payload');
+    if (sourceLeadId === id) throw new BadRequestException('A lead cannot be merged into itself.');
+
+    const target = await this.findOne(id, agentId);
+    const source = await this.findOne(sourceLeadId, agentId);
+
+    const { data, changes } = mergeLeadData(asLeadData(target.data), asLeadData(source.data), {
+      overwrite: preferSource,
+    });
+    const isComplete = await this.isLeadComplete(agentId, data);
+
+    try {
+      const [merged] = await this.prisma.$transaction([
+        this.prisma.lead.update({
+          where: { id },
+          data: {
+            data,
+            isComplete,
+            senderPhone: target.senderPhone ?? source.senderPhone,
+            assignedUserId: target.assignedUserId ?? source.assignedUserId,
+            source: target.source ?? source.source,
+          },
+        }),
+        this.prisma.leadActivity.updateMany({ where: { leadId: sourceLeadId }, data: { leadId: id } }),
+        this.prisma.leadFieldHistory.updateMany({ where: { leadId: sourceLeadId }, data: { leadId: id } }),
+        this.prisma.leadFieldHistory.createMany({
+          data: fieldHistoryRows(id, changes, LeadFieldChangeSource.MERGE, userId),
+        }),
+        this.prisma.leadActivity.create({
+          data: {
+            leadId: id,
+            type: LeadActivityType.MERGED,
+            actorUserId: userId,
+            metadata: {
+              sourceLeadId,
+              sourceStatus: source.status,
+              takenFields: changes.map((c) => c.field),
+            },
+          },
+        }),
+        this.prisma.lead.delete({ where: { id: sourceLeadId } }),
+      ]);
+      return merged;
+    } catch (error) {
+      this.logger.error(`Failed to merge lead ${sourceLeadId} into ${id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Could not merge leads.');
+    }
+  }
+
+  /**
+   * Lists field-level changes of a lead's data, newest first.
+   * @param id The ID of the lead.
+   * @param agentId The ID of the agent who owns the lead.
+   * @param query Optional field name plus pagination.
+   * @param userId The requesting user (must own the agent).
+   * @returns A promise that resolves to a paginated list of field changes.
+   */
+  async listFieldHistory(
+    id: string,
+    agentId: string,
+    query: ListLeadFieldHistoryQueryDto,
+    userId: string,
+  ): Promise<PaginatedLeadFieldHistory> {
+    await this.assertAgentOwned(agentId, userId);
+    const { field, page, limit } = this.safeParse(listLeadFieldHistoryQuerySchema, query ?? {}, 'Invalid query');
+    await this.findOne(id, agentId);
+
+    const where: Prisma.LeadFieldHistoryWhereInput = { leadId: id, ...(field ? { field } : {}) };
+    try {
+      const [data, total] = await this.prisma.$transaction([
+        this.prisma.leadFieldHistory.findMany({
+          where,
+          include: { actorUser: { select: ACTOR_SELECT } },
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        this.prisma.leadFieldHistory.count({ where }),
+      ]);
+      return { data, total, page, limit, totalPages: Math.ceil(total / limit) };
+    } catch (error) {
+      this.logger.error(`Failed to list field history of lead ${id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('An error occurred while fetching the field history.');
+    }
+  }
+
+  /**
+   * Sets or clears the user responsible for a lead and records an ASSIGNED activity.
+   * @param id The ID of the lead.
+   * @param agentId The ID of the agent who owns the lead.
+   * @param dto The new assignee (null to unassign).
+   * @param userId The acting user (must own the agent).
+   * @returns A promise that resolves to the updated Lead object.
+   */
+  async assign(id: string, agentId: string, dto: AssignLeadDto, userId: string): Promise<Lead> {
+    await this.assertAgentOwned(agentId, userId);
+    const { assignedUserId } = this.safeParse(assignLeadSchema, dto, 'Invalid assignment payload');
+    const lead = await this.findOne(id, agentId);
+
+    if (lead.assignedUserId === assignedUserId) return lead;
+    if (assignedUserId) {
+      const user = await this.prisma.user.findUnique({ where: { id: assignedUserId }, select: { id: true } });
+      if (!user) throw new BadRequestException(`User with ID "${assignedUserId}" not found.`);
+    }
+
+    try {
+      const [updated] = await this.prisma.$transaction([
+        this.prisma.lead.update({ where: { id }, data: { assignedUserId } }),
+        this.prisma.leadActivity.create({
+          data: {
+            leadId: id,
+            type: LeadActivityType.ASSIGNED,
+            actorUserId: userId,
+            metadata: { from: lead.assignedUserId, to: assignedUserId },
+          },
+        }),
+      ]);
+      return updated;
+    } catch (error) {
+      this.logger.error(`Failed to assign lead ${id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Could not assign lead.');
+    }
+  }
+
+  /**
+   * Appends a note to the lead timeline.
+   * @param id The ID of the lead.
+   * @param agentId The ID of the agent who owns the lead.
+   * @param dto The note text.
+   * @param userId The acting user (must own the agent).
+   * @returns A promise that resolves to the created LeadActivity.
+   */
+  async addNote(id: string, agentId: string, dto: CreateLeadNoteDto, userId: string): Promise<LeadActivity> {
+    await this.assertAgentOwned(agentId, userId);
+    const { note } = this.safeParse(createLeadNoteSchema, dto, 'Invalid note payload');
+    await this.findOne(id, agentId);
+
+    try {
+      const [activity] = await this.prisma.$transaction([
+        this.prisma.leadActivity.create({
+          data: { leadId: id, type: LeadActivityType.NOTE, actorUserId: userId, note },
+        }),
+        // Keep "recently updated" sorting meaningful for leads with new notes
+        this.prisma.lead.update({ where: { id }, data: { updatedAt: new Date() } }),
+      ]);
+      return activity;
+    } catch (error) {
+      this.logger.error(`Failed to add note to lead ${id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Could not add note.');
+    }
+  }
+
+  /**
+   * Lists a lead's timeline, newest first.
+   * @param id The ID of the lead.
+   * @param agentId The ID of the agent who owns the lead.
+   * @param query Pagination options.
+   * @param userId The requesting user (must own the agent).
+   * @returns A promise that resolves to a paginated list of activities.
+   */
+  async listActivities(
+    id: string,
+    agentId: string,
+    query: ListLeadActivitiesQueryDto,
+    userId: string,
+  ): Promise<PaginatedLeadActivities> {
+    await this.assertAgentOwned(agentId, userId);
+    const { page, limit } = this.safeParse(listLeadActivitiesQuerySchema, query ?? {}, 'Invalid query');
+    await this.findOne(id, agentId);
+
+    try {
+      const [data, total] = await this.prisma.$transaction([
+        this.prisma.leadActivity.findMany({
+          where: { leadId: id },
+          include: { actorUser: { select: ACTOR_SELECT } },
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        this.prisma.leadActivity.count({ where: { leadId: id } }),
+      ]);
+      return { data, total, page, limit, totalPages: Math.ceil(total / limit) };
+    } catch (error) {
+      this.logger.error(`Failed to list activities of lead ${id}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('An error occurred while fetching the lead timeline.');
+    }
+  }
+
   /**
    * Removes a lead from the database.
    * @param id The ID of the lead to remove.
@@ -160,4 +502,29 @@ export class LeadService {
       throw new InternalServerErrorException('Could not remove lead.');
     }
   }
+
+  /** All of the agent's required LeadItem fields have a value */
+  private async isLeadComplete(agentId: string, data: Prisma.JsonObject): Promise<boolean> {
+    const items = await this.prisma.leadItem.findMany({ where: { agentId, required: true }, select: { name: true } });
+    return missingLeadFields(data, items.map((i) => i.name)).length === 0;
+  }
+
+  private async assertAgentOwned(agentId: string, userId: string): Promise<void> {
+    const agent = await this.prisma.agent.findFirst({ where: { id: agentId, userId }, select: { id: true } });
+    if (!agent) throw new NotFoundException('Agent not found or not owned by user');
+  }
+
+  private safeParse<T extends z.ZodTypeAny, O = z.infer<T>>(schema: T, payload: unknown, message = 'Validation failed'): O {
+    try {
+      return schema.parse(payload) as O;
+    } catch (e) {
+      if (e instanceof ZodError) {
+        throw new BadRequestException({
+          message,
+          issues: e.issues.map((i) => ({ path: i.path.join('.'), message: i.message, code: i.code })),
+        });
+      }
+      throw e;
+    }
+  }
 }
@@ -39,3 +39,85 @@ export const updateLeadSchema = z.object({
 // You can also export the inferred types if you prefer not to maintain separate interface files.
 // export type CreateLeadDto = z.infer<typeof createLeadSchema>;
 // export type UpdateLeadDto = z.infer<typeof updateLeadSchema>;
+
+/**
+ * @const updateLeadStatusSchema
+ * @description Move a lead along the pipeline; the optional note is stored on the STATUS_CHANGED activity.
+ */
+export const updateLeadStatusSchema = z
+  .object({
+    status: z.nativeEnum(LeadStatus, {
+      errorMap: () => ({ message: 'Invalid lead status.' }),
+    }),
+    note: z.string().trim().min(1).max(2000).optional(),
+  })
+  .strict();
+
+/**
+ * @const patchLeadSchema
+ * @description Edit source and/or data. `data` is merged into the stored object;
+ * a key set to null is removed.
+ */
+export const patchLeadSchema = z
+  .object({
+    source: z.string().trim().max(200).nullable().optional(),
+    data: z.record(jsonSchema).optional(),
+  })
+  .strict()
+  .refine((d) => d.source !== undefined || d.data !== undefined, {
+    message: 'Provide "source" and/or "data".',
+  });
+
+/**
+ * @const assignLeadSchema
+ * @description Set (UUID of an existing user) or clear (null) the lead's assignee.
+ */
+export const assignLeadSchema = z
+  .object({
+    assignedUserId: z
+      .string()
+      .uuid({ message: 'assignedUserId must be a valid UUID.' })
+      .nullable(),
+  })
+  .strict();
+
+/**
+ * @const createLeadNoteSchema
+ * @description Free-text note appended to the lead timeline.
+ */
+export const createLeadNoteSchema = z
+  .object({
+    note: z.string().trim().min(1).max(5000),
+  })
+  .strict();
+
+/**
+ * @const listLeadActivitiesQuerySchema
+ * @description Pagination for the lead timeline (newest first).
+ */
+export const listLeadActivitiesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+/**
+ * @const mergeLeadsSchema
+ * @description Merge `sourceLeadId` into the lead in the URL. By default the
+ * target keeps its values and only empty fields are filled from the source.
+ */
+export const mergeLeadsSchema = z
+  .object({
+    sourceLeadId: z.string().uuid({ message: 'sourceLeadId must be a valid UUID.' }),
+    preferSource: z.boolean().default(false),
+  })
+  .strict();
+
+/**
+ * @const listLeadFieldHistoryQuerySchema
+ * @description Field-level history filter (one data key) and pagination.
+ */
+export const listLeadFieldHistoryQuerySchema = z.object({
+  field: z.string().trim().min(1).max(100).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
@@ -65,3 +65,33 @@ export interface UpdateBroadcastSettingsInput {
   /** Gap between consecutive messages in seconds (DB default: 120s) */
   messageGapSeconds?: number;
 }
+
+/** A broadcast message handed to WhatsApp (see OutboundMessageTrackerService) */
+export interface RecordSentMessageInput {
+  agentId: string;
+  /** Baileys message id returned by the send */
+  waMessageId: string;
+  remoteJid: string;
+  outboundCampaignId: string;
+  outboundLeadId: string;
+  broadcastId?: string | null;
+  templateId?: string | null;
+}
+
+/** Delivery funnel of a campaign; rates are fractions of `sent` (0..1) */
+export interface OutboundDeliveryStats {
+  sent: number;
+  serverAck: number;
+  delivered: number;
+  read: number;
+  failed: number;
+  deliveredRate: number;
+  readRate: number;
+}
+
+/** Leads that replied, as a fraction of leads the broadcast reached (0..1) */
+export interface OutboundReplyStats {
+  reached: number;
+  replied: number;
+  replyRate: number;
+}
@@ -3,19 +3,22 @@ import { ScheduleModule } from '@nestjs/schedule';
 
 import { OutboundBroadcastService } from './outbound-broadcast.service';
 import { OutboundBroadcastController } from './outbound-broadcast.controller';
+import { OutboundMessageTrackerService } from './outbound-message-tracker.service';
 
 import { WhatsappModule } from 'src/agentModules/whatsapp/whatsapp.module';
 import { ConversationModule } from 'src/agentModules/conversation/conversation.module';
+import { SuppressionModule } from 'src/agentModules/suppression/suppression.module';
 
 @Module({
   imports: [
     WhatsappModule,
     ConversationModule,      // <-- add this
+    SuppressionModule,
     // If ScheduleModule.forRoot() is already called in AppModule, remove this line here.
     ScheduleModule.forRoot(),
   ],
   controllers: [OutboundBroadcastController],
-  providers: [OutboundBroadcastService],
+  providers: [OutboundBroadcastService, OutboundMessageTrackerService],
   exports: [OutboundBroadcastService],
 })
 export class OutboundBroadcastModule { }
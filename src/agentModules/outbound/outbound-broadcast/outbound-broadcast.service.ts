@@ -13,6 +13,7 @@ import {
   OutboundCampaignStatus,
   BroadcastStatus,
   SenderType,
+  SuppressionReason,
 } from '@prisma/client';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { z } from 'zod';
@@ -20,6 +21,11 @@ import { z } from 'zod';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { WhatsappService } from 'src/agentModules/whatsapp/whatsapp.service';
 import { ConversationService } from 'src/agentModules/conversation/conversation.service';
+import { OutboundMessageTrackerService } from './outbound-message-tracker.service';
+import { SuppressionService } from 'src/agentModules/suppression/suppression.service';
+import { campaignSendWindow, isWithinSendWindow } from './send-window';
+import { REACHED_LEAD_STATUSES } from '../outbound-lead/outbound-reply';
+import type { OutboundReplyStats } from './interface/broadcast.interface';
 
 
 // NOTE: CreateConversationDto likely does NOT include `metadata`, hence the payload cast below.
@@ -90,6 +96,8 @@ export class OutboundBroadcastService {
     private readonly prisma: PrismaService,
     private readonly whatsapp: WhatsappService,
     private readonly conversations: ConversationService,
+    private readonly messageTracker: OutboundMessageTrackerService,
+    private readonly suppressions: SuppressionService,
   ) { }
 
   /* -------------------------------------------------------------------------- */
@@ -205,6 +213,8 @@ export class OutboundBroadcastService {
           totalQueued: true,
           totalSent: true,
           totalFailed: true,
+          totalDelivered: true,
+          totalRead: true,
           updatedAt: true,
           createdAt: true,
         },
@@ -212,8 +222,12 @@ export class OutboundBroadcastService {
     ]);
     if (!camp) throw new NotFoundException('Campaign not found');
 
-    const counters = await this.getLeadCounters(campaignId);
-    return { campaign: camp, broadcast: b, counters };
+    const [counters, delivery, replies] = await Promise.all([
+      this.getLeadCounters(campaignId),
+      this.messageTracker.getDeliveryStats(campaignId),
+      this.getReplyStats(campaignId),
+    ]);
+    return { campaign: camp, broadcast: b, counters, delivery, replies };
   }
 
   async updateBroadcastSettings(agentId: string, campaignId: string, payload: unknown) {
@@ -646,12 +660,41 @@ export class OutboundBroadcastService {
         : null;
 
       const now = new Date();
+      const eligible: Prisma.OutboundLeadWhereInput = {
+        outboundCampaignId: campaignId,
+        status: { in: [OutboundLeadStatus.QUEUED, OutboundLeadStatus.NEED_RETRY] },
+        phoneNumber: { not: '' },
+      };
+
+      // Send window: only leads whose local clock is inside it are picked; the others wait
+      // for their own window instead of holding up the queue
+      const camp = await this.prisma.outboundCampaign.findUnique({
+        where: { id: campaignId },
+        select: { sendWindowStart: true, sendWindowEnd: true, sendWindowDays: true },
+      });
+      const sendWindow = camp ? campaignSendWindow(camp) : null;
+      if (sendWindow) {
+        const zones = await this.prisma.outboundLead.groupBy({
+          by: ['timeZone'],
+          where: eligible,
+        });
+        const openZones = zones
+          .map((z) => z.timeZone)
+          .filter((tz) => isWithinSendWindow(sendWindow, tz, now));
+        if (zones.length && !openZones.length) {
+          return {
+            processed: 0,
+            sent: 0,
+            failed: 0,
+            skipped: 0,
+            reason: 'OUTSIDE_SEND_WINDOW',
+          };
+        }
+        eligible.timeZone = { in: openZones };
+      }
+
       const lead = await this.prisma.outboundLead.findFirst({
-        where: {
-          outboundCampaignId: campaignId,
-          status: { in: [OutboundLeadStatus.QUEUED, OutboundLeadStatus.NEED_RETRY] },
-          phoneNumber: { not: '' },
-        },
+        where: eligible,
         orderBy: { createdAt: 'asc' },
         select: {
           id: true,
@@ -674,6 +717,23 @@ export class OutboundBroadcastService {
         };
       }
 
+      // Opted-out / do-not-contact numbers are never messaged, whichever campaign or agent added them
+      const suppressed = await this.suppressions.findForAgent(agentId, lead.phoneNumber);
+      if (suppressed) {
+        await this.prisma.outboundLead.update({
+          where: { id: lead.id },
+          data: {
+            status:
+              suppressed.reason === SuppressionReason.OPT_OUT
+                ? OutboundLeadStatus.UNSUBSCRIBED
+                : OutboundLeadStatus.DNC,
+          },
+        });
+        await this.updateBroadcastCounters(broadcast.id, campaignId);
+        this.logger.log(`[SKIP SUPPRESSED] campaign=${campaignId} to=${lead.phoneNumber} (${suppressed.reason})`);
+        return { processed: 1, sent: 0, failed: 0, skipped: 1, reason: 'SUPPRESSED' };
+      }
+
       await this.prisma.outboundLead.update({
         where: { id: lead.id },
         data: {
@@ -713,6 +773,8 @@ export class OutboundBroadcastService {
         const text = this.renderTextForLead(lead as any, template);
         const media = this.renderMediaForTemplate(template, text);
 
+        // Receipts can beat recordSent below
+        this.messageTracker.expectReceipts(agentId);
         const sendPromise = media
           ? this.whatsappSendMedia(
             agentId,
@@ -724,7 +786,24 @@ export class OutboundBroadcastService {
           )
           : this.whatsappSendText(agentId, targetId, text);
 
-        await this.withTimeout(sendPromise, DEFAULT_ACK_TIMEOUT_MS, 'ACK_TIMEOUT');
+        const sentMsg = await this.withTimeout(sendPromise, DEFAULT_ACK_TIMEOUT_MS, 'ACK_TIMEOUT');
+
+        // Delivery/read receipts are matched to this row by the Baileys message id
+        try {
+          await this.messageTracker.recordSent({
+            agentId,
+            waMessageId: sentMsg.id,
+            remoteJid: sentMsg.to,
+            outboundCampaignId: campaignId,
+            outboundLeadId: lead.id,
+            broadcastId: broadcast.id,
+            templateId: template?.id ?? null,
+          });
+        } catch (trackErr: any) {
+          this.logger.error(
+            `[TRACK ERR] campaign=${campaignId} to=${lead.phoneNumber} -> ${trackErr?.message || trackErr}`,
+          );
+        }
 
         // ✅ conversation log payload — WIDEN TYPE to allow metadata
         const payload: any = {
@@ -855,6 +934,26 @@ export class OutboundBroadcastService {
     return { queued, retry, inprog };
   }
 
+  /** Replies are detected by MessageHandlerService (lead → ANSWERED, answeredAt set) */
+  private async getReplyStats(campaignId: string): Promise<OutboundReplyStats> {
+    const [reached, replied] = await Promise.all([
+      this.prisma.outboundLead.count({
+        where: {
+          outboundCampaignId: campaignId,
+          OR: [{ status: { in: REACHED_LEAD_STATUSES } }, { answeredAt: { not: null } }],
+        },
+      }),
+      this.prisma.outboundLead.count({
+        where: { outboundCampaignId: campaignId, answeredAt: { not: null } },
+      }),
+    ]);
+    return {
+      reached,
+      replied,
+      replyRate: reached ? Math.round((replied / reached) * 1000) / 1000 : 0,
+    };
+  }
+
   private async getLastAttemptAt(campaignId: string): Promise<Date | null> {
     const last = await this.prisma.outboundLead.findFirst({
       where: {
@@ -1001,6 +1100,8 @@ export class OutboundBroadcastService {
       totalQueued: true,
       totalSent: true,
       totalFailed: true,
+      totalDelivered: true,
+      totalRead: true,
       updatedAt: true,
       createdAt: true,
     } as const;
@@ -1058,7 +1159,7 @@ export class OutboundBroadcastService {
   }
 
   private async whatsappSendText(agentId: string, to: string, text: string) {
-    await this.whatsapp.sendText(agentId, to, text);
+    return this.whatsapp.sendText(agentId, to, text);
   }
 
   private async whatsappSendMedia(
@@ -1069,7 +1170,7 @@ export class OutboundBroadcastService {
     filename: string,
     caption?: string,
   ) {
-    await this.whatsapp.sendMedia(agentId, to, { mimeType, data, filename, caption });
+    return this.whatsapp.sendMedia(agentId, to, { mimeType, data, filename, caption });
   }
 
   private withTimeout<T>(p: Promise<T>, ms: number, label = 'TIMEOUT'): Promise<T> {
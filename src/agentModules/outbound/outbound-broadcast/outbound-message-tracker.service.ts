@@ -0,0 +1,264 @@
+// src/modules/outbound-broadcast/outbound-message-tracker.service.ts
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import {
+  OutboundMessageEventType,
+  OutboundMessageStatus,
+  Prisma,
+} from '@prisma/client';
+
+import { PrismaService } from 'src/prisma/prisma.service';
+import { WhatsappService } from 'src/agentModules/whatsapp/whatsapp.service';
+import type { WhatsappMessageStatusUpdate } from 'src/agentModules/whatsapp/interface/whatsapp.interface';
+
+import type {
+  OutboundDeliveryStats,
+  RecordSentMessageInput,
+} from './interface/broadcast.interface';
+
+/** Forward-only order of delivery states; FAILED/CANCELLED are handled apart */
+const STATUS_RANK: Record<OutboundMessageStatus, number> = {
+  QUEUED: 0,
+  SENT: 1,
+  SERVER_ACK: 2,
+  DELIVERED: 3,
+  READ: 4,
+  FAILED: -1,
+  CANCELLED: -1,
+};
+
+const STATUS_TIMESTAMP: Partial<
+  Record<OutboundMessageStatus, 'serverAckAt' | 'deliveredAt' | 'readAt'>
+> = {
+  SERVER_ACK: 'serverAckAt',
+  DELIVERED: 'deliveredAt',
+  READ: 'readAt',
+};
+
+/** A receipt may arrive before the send was recorded; look again once after this delay */
+const UNKNOWN_MESSAGE_RETRY_MS = 3000;
+
+/** Receipts are only looked up for agents that sent a broadcast message this recently */
+const TRACKING_WINDOW_MS = 14 * 24 * 60 * 60 * 1000;
+
+/** How long "this agent has no recent broadcast messages" is trusted */
+const UNTRACKED_CACHE_MS = 5 * 60 * 1000;
+
+/**
+ * Delivery tracking for broadcast messages: the send pass records each
+ * message by its Baileys id, and WhatsApp receipts move it through
+ * SERVER_ACK → DELIVERED → READ (or FAILED). Broadcast.totalDelivered /
+ * totalRead are incremented on each transition that reaches those states.
+ */
+@Injectable()
+export class OutboundMessageTrackerService implements OnModuleInit {
+  private readonly logger = new Logger(OutboundMessageTrackerService.name);
+  /** agentId -> whether receipts are tracked, and until when that holds */
+  private readonly tracking = new Map<
+    string,
+    { tracked: boolean; until: number }
+  >();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly whatsapp: WhatsappService,
+  ) {}
+
+  onModuleInit() {
+    this.whatsapp.onMessageStatus((update) => this.applyStatus(update));
+  }
+
+  /** Start looking up the agent's receipts; call before handing a message to WhatsApp. */
+  expectReceipts(agentId: string): void {
+    this.tracking.set(agentId, {
+      tracked: true,
+      until: Date.now() + TRACKING_WINDOW_MS,
+    });
+  }
+
+  /** Record a message the broadcast just handed to WhatsApp. */
+  async recordSent(input: RecordSentMessageInput): Promise<void> {
+    if (!input.waMessageId) {
+      this.logger.warn(
+        `[recordSent] no message id for lead ${input.outboundLeadId}; delivery will not be tracked`,
+      );
+      return;
+    }
+    const now = new Date();
+    this.expectReceipts(input.agentId);
+    await this.prisma.outboundMessage.upsert({
+      where: {
+        agentId_waMessageId: {
+          agentId: input.agentId,
+          waMessageId: input.waMessageId,
+        },
+      },
+      create: {
+        ...input,
+        status: OutboundMessageStatus.SENT,
+        sentAt: now,
+        events: {
+          create: { type: OutboundMessageEventType.SENT, occurredAt: now },
+        },
+      },
+      update: {},
+    });
+  }
+
+  /**
+   * Apply a WhatsApp receipt. Every bot message produces receipts, so agents
+   * without recent broadcast messages are skipped before any lookup; unknown
+   * messages (not from a broadcast) are ignored.
+   */
+  async applyStatus(
+    update: WhatsappMessageStatusUpdate,
+    retried = false,
+  ): Promise<void> {
+    if (!(await this.isTracked(update.agentId))) return;
+
+    const msg = await this.prisma.outboundMessage.findUnique({
+      where: {
+        agentId_waMessageId: {
+          agentId: update.agentId,
+          waMessageId: update.messageId,
+        },
+      },
+      select: { id: true, status: true, outboundCampaignId: true },
+    });
+    if (!msg) {
+      if (!retried) {
+        setTimeout(() => {
+          this.applyStatus(update, true).catch((e: any) =>
+            this.logger.error(
+              `[applyStatus] ${update.messageId}: ${e?.message}`,
+            ),
+          );
+        }, UNKNOWN_MESSAGE_RETRY_MS);
+      }
+      return;
+    }
+
+    const next = OutboundMessageStatus[update.status];
+    const data: Prisma.OutboundMessageUpdateManyMutationInput = {};
+    if (next === OutboundMessageStatus.FAILED) {
+      // A message already delivered cannot fail any more
+      if (STATUS_RANK[msg.status] >= STATUS_RANK.DELIVERED) return;
+      if (msg.status === OutboundMessageStatus.FAILED) return;
+      data.status = next;
+      data.failedAt = update.at;
+    } else {
+      if (STATUS_RANK[next] <= STATUS_RANK[msg.status]) return;
+      data.status = next;
+      // Receipts can skip steps (e.g. READ without DELIVERED): fill the gaps
+      for (const s of [
+        OutboundMessageStatus.SERVER_ACK,
+        OutboundMessageStatus.DELIVERED,
+        OutboundMessageStatus.READ,
+      ]) {
+        const field = STATUS_TIMESTAMP[s]!;
+        if (
+          STATUS_RANK[s] > STATUS_RANK[msg.status] &&
+          STATUS_RANK[s] <= STATUS_RANK[next]
+        ) {
+          data[field] = update.at;
+        }
+      }
+    }
+
+    const reached = (status: OutboundMessageStatus) =>
+      STATUS_RANK[msg.status] < STATUS_RANK[status] &&
+      STATUS_RANK[next] >= STATUS_RANK[status];
+    const counters: Prisma.BroadcastUpdateManyMutationInput = {
+      ...(reached(OutboundMessageStatus.DELIVERED)
+        ? { totalDelivered: { increment: 1 } }
+        : {}),
+      ...(reached(OutboundMessageStatus.READ)
+        ? { totalRead: { increment: 1 } }
+        : {}),
+    };
+
+    const applied = await this.prisma.$transaction(async (tx) => {
+      // Conditional on the status read above, so concurrent receipts count once
+      const moved = await tx.outboundMessage.updateMany({
+        where: { id: msg.id, status: msg.status },
+        data,
+      });
+      if (!moved.count) return false;
+      await tx.outboundMessageEvent.create({
+        data: {
+          outboundMessageId: msg.id,
+          type: OutboundMessageEventType[update.status],
+          occurredAt: update.at,
+          payload: { remoteJid: update.remoteJid },
+        },
+      });
+      if (Object.keys(counters).length) {
+        await tx.broadcast.updateMany({
+          where: { outboundCampaignId: msg.outboundCampaignId },
+          data: counters,
+        });
+      }
+      return true;
+    });
+    // Another receipt moved the message first: apply this one to its new status
+    if (!applied) await this.applyStatus(update, true);
+  }
+
+  /** Sent / delivered / read totals and rates for a campaign's messages. */
+  async getDeliveryStats(campaignId: string): Promise<OutboundDeliveryStats> {
+    const groups = await this.prisma.outboundMessage.groupBy({
+      by: ['status'],
+      where: { outboundCampaignId: campaignId },
+      _count: { _all: true },
+    });
+    const count = (...statuses: OutboundMessageStatus[]) =>
+      groups
+        .filter((g) => statuses.includes(g.status))
+        .reduce((sum, g) => sum + g._count._all, 0);
+
+    const sent = count(
+      OutboundMessageStatus.SENT,
+      OutboundMessageStatus.SERVER_ACK,
+      OutboundMessageStatus.DELIVERED,
+      OutboundMessageStatus.READ,
+      OutboundMessageStatus.FAILED,
+    );
+    const delivered = count(
+      OutboundMessageStatus.DELIVERED,
+      OutboundMessageStatus.READ,
+    );
+    const read = count(OutboundMessageStatus.READ);
+    const rate = (n: number) =>
+      sent ? Math.round((n / sent) * 1000) / 1000 : 0;
+
+    return {
+      sent,
+      serverAck: count(OutboundMessageStatus.SERVER_ACK),
+      delivered,
+      read,
+      failed: count(OutboundMessageStatus.FAILED),
+      deliveredRate: rate(delivered),
+      readRate: rate(read),
+    };
+  }
+
+  /** Whether the agent sent broadcast messages recently (cached per agent). */
+  private async isTracked(agentId: string): Promise<boolean> {
+    const now = Date.now();
+    const cached = this.tracking.get(agentId);
+    if (cached && cached.until > now) return cached.tracked;
+
+    const latest = await this.prisma.outboundMessage.findFirst({
+      where: { agentId, createdAt: { gt: new Date(now - TRACKING_WINDOW_MS) } },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    });
+    const state = latest
+      ? {
+          tracked: true,
+          until: latest.createdAt.getTime() + TRACKING_WINDOW_MS,
+        }
+      : { tracked: false, until: now + UNTRACKED_CACHE_MS };
+    this.tracking.set(agentId, state);
+    return state.tracked;
+  }
+}
@@ -267,7 +267,13 @@ export class BroadcastRepository {
   async resetCounters(id: string): Promise<Broadcast> {
     return this.prisma.broadcast.update({
       where: { id },
-      data: { totalQueued: 0, totalSent: 0, totalFailed: 0 },
+      data: {
+        totalQueued: 0,
+        totalSent: 0,
+        totalFailed: 0,
+        totalDelivered: 0,
+        totalRead: 0,
+      },
     });
   }
 }
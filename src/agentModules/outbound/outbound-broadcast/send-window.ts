@@ -0,0 +1,59 @@
+// src/agentModules/outbound/outbound-broadcast/send-window.ts
+import { DayOfWeek } from '@prisma/client';
+import { DateTime, IANAZone } from 'luxon';
+
+/** Recipient-local hours a campaign may message in ("HH:MM", 24h, end exclusive) */
+export type SendWindow = {
+  start: string;
+  end: string;
+  /** Empty = every day */
+  days: DayOfWeek[];
+};
+
+// Indexed by luxon weekday % 7 (Mon=1..Sat=6, Sun=0)
+const DOW: DayOfWeek[] = [
+  DayOfWeek.SUNDAY,
+  DayOfWeek.MONDAY,
+  DayOfWeek.TUESDAY,
+  DayOfWeek.WEDNESDAY,
+  DayOfWeek.THURSDAY,
+  DayOfWeek.FRIDAY,
+  DayOfWeek.SATURDAY,
+];
+
+const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+/** The campaign's window, or null when it may send at any time. */
+export function campaignSendWindow(campaign: {
+  sendWindowStart: string | null;
+  sendWindowEnd: string | null;
+  sendWindowDays: DayOfWeek[];
+}): SendWindow | null {
+  if (!campaign.sendWindowStart || !campaign.sendWindowEnd) return null;
+  return {
+    start: campaign.sendWindowStart,
+    end: campaign.sendWindowEnd,
+    days: campaign.sendWindowDays,
+  };
+}
+
+/**
+ * Whether `at` falls inside the window on the lead's local clock.
+ * Leads with an unknown time zone are evaluated in UTC.
+ */
+export function isWithinSendWindow(
+  window: SendWindow,
+  timeZone: string,
+  at: Date = new Date(),
+): boolean {
+  const zone = IANAZone.isValidZone(timeZone) ? timeZone : 'UTC';
+  const local = DateTime.fromJSDate(at).setZone(zone);
+  if (window.days.length && !window.days.includes(DOW[local.weekday % 7])) {
+    return false;
+  }
+  const now = local.hour * 60 + local.minute;
+  return now >= toMinutes(window.start) && now < toMinutes(window.end);
+}
@@ -1,10 +1,17 @@
 // src/agent-modules/outbound-campaign/interface/outbound-campaign.interface.ts
-import { OutboundCampaignStatus } from '@prisma/client';
+import { DayOfWeek, OutboundCampaignStatus } from '@prisma/client';
 
 export interface OutboundCampaignEntity {
   id: string;
   name: string;
   status: OutboundCampaignStatus;
+  /** Give the agent this campaign's context when a lead replies */
+  replyContextEnabled: boolean;
+  /** Send window ("HH:MM") on each lead's local clock; null = any time */
+  sendWindowStart: string | null;
+  sendWindowEnd: string | null;
+  /** Local weekdays of the window; empty = every day */
+  sendWindowDays: DayOfWeek[];
   createdAt: Date;
   updatedAt: Date;
   agentId: string;
@@ -20,6 +20,10 @@ export class OutboundCampaignRepository {
     const data: Prisma.OutboundCampaignCreateInput = {
       name: input.name,
       status: input.status ?? OutboundCampaignStatus.DRAFT,
+      replyContextEnabled: input.replyContextEnabled,
+      sendWindowStart: input.sendWindowStart,
+      sendWindowEnd: input.sendWindowEnd,
+      sendWindowDays: input.sendWindowDays,
       agent: { connect: { id: input.agentId } },
     };
     return this.prisma.outboundCampaign.create({ data });
@@ -33,6 +37,10 @@ export class OutboundCampaignRepository {
     const data: Prisma.OutboundCampaignUpdateInput = {};
     if (typeof input.name !== 'undefined') data.name = input.name;
     if (typeof input.status !== 'undefined') data.status = input.status;
+    if (typeof input.replyContextEnabled !== 'undefined') data.replyContextEnabled = input.replyContextEnabled;
+    if (typeof input.sendWindowStart !== 'undefined') data.sendWindowStart = input.sendWindowStart;
+    if (typeof input.sendWindowEnd !== 'undefined') data.sendWindowEnd = input.sendWindowEnd;
+    if (typeof input.sendWindowDays !== 'undefined') data.sendWindowDays = input.sendWindowDays;
 
     return this.prisma.outboundCampaign.update({
       where: { id },
@@ -1,6 +1,6 @@
 // src/agent-modules/outbound-campaign/schema/outbound-campaign.schema.ts
 import { z } from 'zod';
-import { OutboundCampaignStatus } from '@prisma/client';
+import { DayOfWeek, OutboundCampaignStatus } from '@prisma/client';
 
 // Accept ANY UUID version, trimmed
 export const UUID_ANY = z
@@ -13,16 +13,53 @@ export const UUID_ANY = z
 
 export const Name = z.string().trim().min(2, 'name is too short').max(200, 'name is too long');
 
-export const CreateOutboundCampaignSchema = z.object({
-  agentId: UUID_ANY,
-  name: Name,
-  status: z.nativeEnum(OutboundCampaignStatus).default(OutboundCampaignStatus.DRAFT).optional(),
-});
+export const TimeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:MM (24h)');
 
-export const UpdateOutboundCampaignSchema = z.object({
-  name: Name.optional(),
-  status: z.nativeEnum(OutboundCampaignStatus).optional(),
-});
+// Send window on each lead's local clock, e.g. 09:00-19:00 MONDAY..FRIDAY; null/null = any time
+const SendWindowFields = {
+  sendWindowStart: TimeOfDay.nullable().optional(),
+  sendWindowEnd: TimeOfDay.nullable().optional(),
+  sendWindowDays: z.array(z.nativeEnum(DayOfWeek)).optional(),
+};
+
+const refineSendWindow = (
+  v: { sendWindowStart?: string | null; sendWindowEnd?: string | null },
+  ctx: z.RefinementCtx,
+) => {
+  const { sendWindowStart: start, sendWindowEnd: end } = v;
+  if ((start === undefined) !== (end === undefined) || (start === null) !== (end === null)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['sendWindowEnd'],
+      message: 'sendWindowStart and sendWindowEnd must be set (or cleared) together',
+    });
+  } else if (start && end && end <= start) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['sendWindowEnd'],
+      message: 'sendWindowEnd must be after sendWindowStart',
+    });
+  }
+};
+
+export const CreateOutboundCampaignSchema = z
+  .object({
+    agentId: UUID_ANY,
+    name: Name,
+    status: z.nativeEnum(OutboundCampaignStatus).default(OutboundCampaignStatus.DRAFT).optional(),
+    replyContextEnabled: z.boolean().optional(),
+    ...SendWindowFields,
+  })
+  .superRefine(refineSendWindow);
+
+export const UpdateOutboundCampaignSchema = z
+  .object({
+    name: Name.optional(),
+    status: z.nativeEnum(OutboundCampaignStatus).optional(),
+    replyContextEnabled: z.boolean().optional(),
+    ...SendWindowFields,
+  })
+  .superRefine(refineSendWindow);
 
 export const SetStatusSchema = z.object({
   id: UUID_ANY,
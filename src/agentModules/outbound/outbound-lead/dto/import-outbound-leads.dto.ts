@@ -0,0 +1,5 @@
+import { z } from 'zod';
+import { ImportOutboundLeadsSchema } from '../schema/import-outbound-leads.schema';
+
+export type ImportOutboundLeadsDto = z.infer<typeof ImportOutboundLeadsSchema>;
+export { ImportOutboundLeadsSchema };
@@ -10,6 +10,8 @@ export interface IOutboundLead {
   attemptsMade: number;
   maxAttempts: number;
   lastAttemptAt: Date | null;
+  /** First reply after a broadcast message (status ANSWERED) */
+  answeredAt: Date | null;
 
   outboundCampaignId: string;
 
@@ -18,3 +20,32 @@ export interface IOutboundLead {
   createdAt: Date;
   updatedAt: Date;
 }
+
+export interface IOutboundLeadImportRow {
+  /** Spreadsheet row number (the header is row 1) */
+  row: number;
+  status: 'accepted' | 'rejected';
+  /** E.164 number when it could be normalised */
+  phoneNumber?: string;
+  reasons?: string[];
+  /** Set for created leads (not in dry-run) */
+  leadId?: string;
+}
+
+export interface IOutboundLeadImportReport {
+  dryRun: boolean;
+  /** Target → column header actually used */
+  mapping: Record<string, string>;
+  totalRows: number;
+  accepted: number;
+  rejected: number;
+  created: number;
+  rows: IOutboundLeadImportRow[];
+}
+
+/** Multer memory-storage file (minimal typing, no Express.Multer dependency) */
+export interface IUploadedSpreadsheet {
+  buffer: Buffer;
+  mimetype: string;
+  originalname: string;
+}
@@ -11,7 +11,10 @@ import {
   PipeTransform,
   Post,
   Query,
+  UploadedFile,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { z } from 'zod';
 
 import { OutboundLeadService } from './outbound-lead.service';
@@ -23,6 +26,8 @@ import { QueryOutboundLeadsDto } from './dto/query-outbound-leads.dto';
 import { SetLeadStatusDto } from './dto/set-status.dto';
 import { RecordAttemptDto } from './dto/record-attempt.dto';
 import { UpsertCustomFieldsDto } from './dto/upsert-custom-fields.dto';
+import { ImportOutboundLeadsDto } from './dto/import-outbound-leads.dto';
+import type { IUploadedSpreadsheet } from './interface/outbound-lead.interface';
 
 // Zod schemas (runtime validation)
 import {
@@ -33,6 +38,7 @@ import {
   UpsertCustomFieldsSchema,
 } from './schema/outbound-lead.schema';
 import { QueryOutboundLeadsSchema } from './schema/query-outbound-leads.schema';
+import { ImportOutboundLeadsSchema } from './schema/import-outbound-leads.schema';
 
 /** Accept ANY UUID version; trims input before checking */
 @Injectable()
@@ -75,6 +81,21 @@ export class OutboundLeadController {
     return this.svc.create(campaignId, dto);
   }
 
+  // ---------------------------------------------------------------------------
+  // BULK IMPORT (CSV/XLSX, multipart field "file"; options as form fields)
+  // POST /outbound-campaigns/:campaignId/leads/import
+  // ---------------------------------------------------------------------------
+  @Post('outbound-campaigns/:campaignId/leads/import')
+  @UseInterceptors(FileInterceptor('file'))
+  async importForCampaign(
+    @Param('campaignId', new AnyUuidPipe()) campaignId: string,
+    @UploadedFile() file: IUploadedSpreadsheet | undefined,
+    @Body() body: ImportOutboundLeadsDto,
+  ) {
+    const dto = this.validate(ImportOutboundLeadsSchema, body ?? {});
+    return this.svc.importLeads(campaignId, file, dto);
+  }
+
   // ---------------------------------------------------------------------------
   // LIST within a campaign
   // GET /outbound-campaigns/:campaignId/leads
@@ -1,4 +1,6 @@
 import { Module, forwardRef } from '@nestjs/common';
+import { MulterModule } from '@nestjs/platform-express';
+import * as multer from 'multer';
 
 import { OutboundLeadService } from './outbound-lead.service';
 import { OutboundLeadRepository } from './repository/outbound-lead.repository';
@@ -6,6 +8,7 @@ import { OutboundLeadController } from './outbound-lead.controller';
 
 import { LeadCustomFieldIntakeModule } from '../lead-custom-field-intake/lead-custom-field-intake.module';
 import { OutboundBroadcastModule } from '../outbound-broadcast/outbound-broadcast.module';
+import { WhatsappModule } from 'src/agentModules/whatsapp/whatsapp.module';
 
 // ⬇️ import the module that provides OutboundBroadcastService
 
@@ -15,6 +18,12 @@ import { OutboundBroadcastModule } from '../outbound-broadcast/outbound-broadcas
     LeadCustomFieldIntakeModule,
     // forwardRef is safe here; remove forwardRef if you prefer (no cycle currently).
     forwardRef(() => OutboundBroadcastModule),
+    WhatsappModule,
+    // Lead imports (CSV/XLSX) are parsed from memory
+    MulterModule.register({
+      storage: multer.memoryStorage(),
+      limits: { fileSize: 10 * 1024 * 1024 }, // 10 MB
+    }),
   ],
   controllers: [OutboundLeadController],
   providers: [OutboundLeadService, OutboundLeadRepository],
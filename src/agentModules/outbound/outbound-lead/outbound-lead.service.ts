@@ -8,6 +8,7 @@ import {
   Logger,
 } from '@nestjs/common';
 import { Prisma, OutboundLeadStatus } from '@prisma/client';
+import { IANAZone } from 'luxon';
 
 import { OutboundLeadRepository } from './repository/outbound-lead.repository';
 
@@ -17,8 +18,14 @@ import { QueryOutboundLeadsDto } from './dto/query-outbound-leads.dto';
 import { SetLeadStatusDto } from './dto/set-status.dto';
 import { RecordAttemptDto } from './dto/record-attempt.dto';
 import { UpsertCustomFieldsDto } from './dto/upsert-custom-fields.dto';
+import { ImportOutboundLeadsDto } from './dto/import-outbound-leads.dto';
 
-import { IOutboundLead } from './interface/outbound-lead.interface';
+import {
+  IOutboundLead,
+  IOutboundLeadImportReport,
+  IOutboundLeadImportRow,
+  IUploadedSpreadsheet,
+} from './interface/outbound-lead.interface';
 
 // dynamic custom-field intake service
 import { LeadCustomFieldIntakeService } from '../lead-custom-field-intake/lead-custom-field-intake.service';
@@ -27,6 +34,26 @@ import { LeadCustomFieldIntakeService } from '../lead-custom-field-intake/lead-c
 import { PrismaService } from 'src/prisma/prisma.service';
 import { OutboundBroadcastService } from '../outbound-broadcast/outbound-broadcast.service';
 import { UpdateOutboundLeadDto } from './dto/update-outbound-lead.dto';
+import { WhatsappService } from 'src/agentModules/whatsapp/whatsapp.service';
+import {
+  DEFAULT_PHONE_REGION,
+  storedToE164,
+  toE164,
+} from 'src/common/phone/phone-number';
+import {
+  columnKey,
+  readSpreadsheet,
+} from 'src/common/spreadsheet/read-spreadsheet';
+
+/** Rows accepted per import request */
+const MAX_IMPORT_ROWS = 5000;
+
+/** Column headers recognised without an explicit mapping (compared case/space-insensitively) */
+const IMPORT_COLUMN_ALIASES: Record<string, string[]> = {
+  phoneNumber: ['phone', 'phone number', 'mobile', 'whatsapp', 'number'],
+  firstName: ['first name', 'name'],
+  timeZone: ['timezone', 'time zone', 'tz'],
+};
 
 @Injectable()
 export class OutboundLeadService {
@@ -37,6 +64,7 @@ export class OutboundLeadService {
     private readonly fieldSvc: LeadCustomFieldIntakeService,
     private readonly prisma: PrismaService,
     private readonly broadcastSvc: OutboundBroadcastService,
+    private readonly whatsapp: WhatsappService,
   ) {}
 
   // ---------------------------------------------------------------------------
@@ -226,6 +254,188 @@ export class OutboundLeadService {
     }
   }
 
+  // ---------------------------------------------------------------------------
+  // Bulk import
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Import leads from a CSV/XLSX file. Rows are mapped to lead fields,
+   * normalised (E.164 phone, IANA time zone) and validated like `create`
+   * (firstName and every campaign custom field are required). Numbers already
+   * in the campaign or repeated in the file are rejected, and with
+   * `checkWhatsapp` so are numbers without a WhatsApp account.
+   * Returns a per-row report; in dry-run mode nothing is written.
+   */
+  async importLeads(
+    campaignId: string,
+    file: IUploadedSpreadsheet | undefined,
+    dto: ImportOutboundLeadsDto,
+  ): Promise<IOutboundLeadImportReport> {
+    try {
+      if (!file?.buffer?.length) {
+        throw new BadRequestException(
+          'file is required (multipart field "file")',
+        );
+      }
+      const campaign = await this.prisma.outboundCampaign.findUnique({
+        where: { id: campaignId },
+        select: { agentId: true },
+      });
+      if (!campaign) throw new NotFoundException('Campaign not found');
+
+      const { headers, records } = readSpreadsheet(file, dto.sheet);
+      if (records.length > MAX_IMPORT_ROWS) {
+        throw new BadRequestException(
+          `The file has ${records.length} rows; at most ${MAX_IMPORT_ROWS} can be imported at once`,
+        );
+      }
+      if (
+        dto.checkWhatsapp &&
+        this.whatsapp.getStatus(campaign.agentId) !== 'open'
+      ) {
+        throw new BadRequestException(
+          'checkWhatsapp requires the campaign agent to be connected to WhatsApp',
+        );
+      }
+
+      const customFieldNames = [
+        ...(await this.getAllowedFieldNames(campaignId)),
+      ];
+      const mapping = this.resolveImportMapping(
+        headers,
+        customFieldNames,
+        dto.mapping,
+      );
+      const column = new Map(
+        Object.entries(mapping).map(([target, header]) => [
+          target,
+          headers.indexOf(header),
+        ]),
+      );
+
+      const region = dto.defaultRegion ?? DEFAULT_PHONE_REGION;
+      const existing = new Set(
+        (await this.repo.findPhoneNumbers(campaignId)).map(
+          (p) => storedToE164(p, region) ?? p,
+        ),
+      );
+      const acceptedAt = new Map<string, number>(); // E.164 -> first accepted row
+
+      const rows: IOutboundLeadImportRow[] = [];
+      const toCreate: Parameters<OutboundLeadRepository['createMany']>[1] = [];
+
+      for (const { row, cells } of records) {
+        const cell = (target: string): string => {
+          const idx = column.get(target);
+          return idx === undefined ? '' : String(cells[idx] ?? '').trim();
+        };
+        const reasons: string[] = [];
+
+        const rawPhone = cell('phoneNumber');
+        const phone = rawPhone ? toE164(rawPhone, region) : null;
+        if (!rawPhone) reasons.push('phoneNumber is missing');
+        else if (!phone)
+          reasons.push(`phoneNumber "${rawPhone}" is not a valid number`);
+        else if (existing.has(phone))
+          reasons.push(
+            'A lead with this number already exists in the campaign',
+          );
+        else if (acceptedAt.has(phone))
+          reasons.push(`Duplicate of row ${acceptedAt.get(phone)}`);
+
+        const firstName = cell('firstName');
+        if (!firstName) reasons.push('firstName is missing');
+        else if (firstName.length > 120)
+          reasons.push('firstName is longer than 120 characters');
+
+        const rawTimeZone = cell('timeZone');
+        if (rawTimeZone && !IANAZone.isValidZone(rawTimeZone)) {
+          reasons.push(
+            `timeZone "${rawTimeZone}" is not a valid IANA time zone`,
+          );
+        }
+
+        const customFields: Record<string, string> = {};
+        for (const name of customFieldNames) {
+          const value = cell(name);
+          if (value) customFields[name] = value;
+        }
+        const missing = customFieldNames.filter(
+          (name) => !(name in customFields),
+        );
+        if (missing.length) {
+          reasons.push(
+            `Missing required custom field(s): ${missing.join(', ')}`,
+          );
+        }
+
+        if (!reasons.length && phone && dto.checkWhatsapp) {
+          const registered = await this.whatsapp
+            .checkNumberOnWhatsApp(campaign.agentId, phone)
+            .then((r) => r.exists)
+            .catch(() => null);
+          if (registered === false)
+            reasons.push('Number is not registered on WhatsApp');
+          if (registered === null)
+            reasons.push('Could not verify the number on WhatsApp');
+        }
+
+        if (reasons.length || !phone) {
+          rows.push({
+            row,
+            status: 'rejected',
+            ...(phone ? { phoneNumber: phone } : {}),
+            reasons,
+          });
+          continue;
+        }
+
+        acceptedAt.set(phone, row);
+        rows.push({ row, status: 'accepted', phoneNumber: phone });
+        toCreate.push({
+          phoneNumber: phone,
+          firstName,
+          timeZone: rawTimeZone || dto.defaultTimeZone,
+          maxAttempts: dto.maxAttempts,
+          customFields: customFieldNames.length ? customFields : undefined,
+        });
+      }
+
+      let created = 0;
+      if (!dto.dryRun && toCreate.length) {
+        const inserted = await this.repo.createMany(campaignId, toCreate);
+        const idByPhone = new Map(inserted.map((l) => [l.phoneNumber, l.id]));
+        for (const r of rows) {
+          if (r.status === 'accepted' && r.phoneNumber)
+            r.leadId = idByPhone.get(r.phoneNumber);
+        }
+        created = inserted.length;
+
+        this.startCampaignIfPossible(campaignId).catch((err) =>
+          this.logger.error(
+            `[startCampaignAfterImport] campaignId=${campaignId} -> ${err?.message || err}`,
+          ),
+        );
+      }
+
+      const accepted = toCreate.length;
+      this.logger.log(
+        `[importLeads] campaignId=${campaignId} rows=${rows.length} accepted=${accepted} created=${created} dryRun=${dto.dryRun}`,
+      );
+      return {
+        dryRun: dto.dryRun,
+        mapping,
+        totalRows: rows.length,
+        accepted,
+        rejected: rows.length - accepted,
+        created,
+        rows,
+      };
+    } catch (e) {
+      this.mapAndThrow(e, 'importing leads', { campaignId });
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // Helpers
   // ---------------------------------------------------------------------------
@@ -261,6 +471,56 @@ export class OutboundLeadService {
     }
   }
 
+  /**
+   * Target -> column header. Explicit mapping wins; other targets use a column
+   * named like the target (or a known alias). phoneNumber must resolve.
+   */
+  private resolveImportMapping(
+    headers: string[],
+    customFieldNames: string[],
+    explicit: Record<string, string> = {},
+  ): Record<string, string> {
+    const targets = [
+      'phoneNumber',
+      'firstName',
+      'timeZone',
+      ...customFieldNames,
+    ];
+    const mapping: Record<string, string> = {};
+
+    for (const [target, header] of Object.entries(explicit)) {
+      if (!targets.includes(target)) {
+        throw new BadRequestException(
+          `Unknown mapping target "${target}"; use phoneNumber, firstName, timeZone or a campaign custom field`,
+        );
+      }
+      if (!headers.includes(header)) {
+        throw new BadRequestException(
+          `Column "${header}" (mapped to ${target}) is not in the file`,
+        );
+      }
+      mapping[target] = header;
+    }
+
+    const byKey = new Map(
+      headers.filter(Boolean).map((h) => [columnKey(h), h]),
+    );
+    for (const target of targets) {
+      if (mapping[target]) continue;
+      const header = [target, ...(IMPORT_COLUMN_ALIASES[target] ?? [])]
+        .map((name) => byKey.get(columnKey(name)))
+        .find((h): h is string => !!h);
+      if (header) mapping[target] = header;
+    }
+
+    if (!mapping.phoneNumber) {
+      throw new BadRequestException(
+        'No phone number column found; set mapping.phoneNumber',
+      );
+    }
+    return mapping;
+  }
+
   /** Load allowed custom-field names for a campaign as a Set. */
   private async getAllowedFieldNames(campaignId: string): Promise<Set<string>> {
     const { data } = await this.fieldSvc.findMany(campaignId, {
@@ -0,0 +1,140 @@
+// src/agentModules/outbound/outbound-lead/outbound-reply.ts
+import { OutboundLeadStatus, Prisma } from '@prisma/client';
+import type { PrismaService } from 'src/prisma/prisma.service';
+
+/** Replies later than this after the last broadcast message are not attributed to the campaign */
+const REPLY_WINDOW_DAYS = Number(process.env.OUTBOUND_REPLY_WINDOW_DAYS) || 30;
+
+/** Lead states a reply moves to ANSWERED; opted-out or blocked leads keep theirs */
+const ANSWERABLE_STATUSES: OutboundLeadStatus[] = [
+  OutboundLeadStatus.MESSAGE_SUCCESSFUL,
+  OutboundLeadStatus.COMPLETED,
+  OutboundLeadStatus.NEED_RETRY,
+  OutboundLeadStatus.IN_PROGRESS,
+];
+
+/** Leads counted as reached when computing the reply rate */
+export const REACHED_LEAD_STATUSES: OutboundLeadStatus[] = [
+  OutboundLeadStatus.MESSAGE_SUCCESSFUL,
+  OutboundLeadStatus.COMPLETED,
+  OutboundLeadStatus.ANSWERED,
+];
+
+export type OutboundReplyContext = {
+  leadId: string;
+  campaignId: string;
+  campaignName: string;
+  firstName: string | null;
+  /** Body of the template the lead was sent ({{placeholders}} not rendered) */
+  templateText: string | null;
+  customFields: Prisma.JsonValue | null;
+  /** True when this message is the lead's first reply (ANSWERED was set now) */
+  firstReply: boolean;
+  /** OutboundCampaign.replyContextEnabled */
+  injectContext: boolean;
+};
+
+/** Phone digits of a phone-number JID ("8801...@s.whatsapp.net"); LIDs have none */
+function jidDigits(jid: string): string | null {
+  if (!jid.endsWith('@s.whatsapp.net')) return null;
+  const digits = jid.split('@')[0].split(':')[0].replace(/\D/g, '');
+  return digits || null;
+}
+
+/**
+ * Match an inbound message to the most recent OutboundLead messaged by this
+ * agent: first by the exact JID/LID a broadcast message went to, then by the
+ * phone number in a phone-number JID. The lead is marked ANSWERED with
+ * `answeredAt` on its first reply. Returns null when the sender is not a
+ * recent broadcast recipient.
+ */
+export async function recordOutboundReply(
+  prisma: PrismaService,
+  input: { agentId: string; jids: (string | null | undefined)[]; at?: Date },
+): Promise<OutboundReplyContext | null> {
+  const { agentId, at = new Date() } = input;
+  const jids = [...new Set(input.jids.filter((j): j is string => !!j))];
+  if (!jids.length) return null;
+  const since = new Date(at.getTime() - REPLY_WINDOW_DAYS * 86_400_000);
+
+  const sent = await prisma.outboundMessage.findFirst({
+    where: { agentId, remoteJid: { in: jids }, createdAt: { gte: since } },
+    orderBy: { createdAt: 'desc' },
+    select: { outboundLeadId: true, templateId: true },
+  });
+
+  let leadId = sent?.outboundLeadId;
+  if (!leadId) {
+    // Leads messaged on their phone-number JID (or before delivery tracking)
+    const phones = jids
+      .map(jidDigits)
+      .filter((d): d is string => !!d)
+      .flatMap((d) => [d, `+${d}`]);
+    if (!phones.length) return null;
+    const byPhone = await prisma.outboundLead.findFirst({
+      where: {
+        phoneNumber: { in: phones },
+        lastAttemptAt: { gte: since },
+        outboundCampaign: { agentId },
+      },
+      orderBy: { lastAttemptAt: 'desc' },
+      select: { id: true },
+    });
+    if (!byPhone) return null;
+    leadId = byPhone.id;
+  }
+
+  const lead = await prisma.outboundLead.findUnique({
+    where: { id: leadId },
+    select: {
+      id: true,
+      status: true,
+      firstName: true,
+      customFields: true,
+      answeredAt: true,
+      outboundCampaign: {
+        select: {
+          id: true,
+          name: true,
+          replyContextEnabled: true,
+          broadcast: { select: { selectedTemplateId: true } },
+        },
+      },
+    },
+  });
+  if (!lead) return null;
+
+  let firstReply = false;
+  if (ANSWERABLE_STATUSES.includes(lead.status)) {
+    await prisma.outboundLead.update({
+      where: { id: lead.id },
+      data: {
+        status: OutboundLeadStatus.ANSWERED,
+        answeredAt: lead.answeredAt ?? at,
+      },
+    });
+    firstReply = !lead.answeredAt;
+  }
+
+  const campaign = lead.outboundCampaign;
+  const templateId =
+    sent?.templateId ?? campaign.broadcast?.selectedTemplateId ?? null;
+  const template =
+    campaign.replyContextEnabled && templateId
+      ? await prisma.template.findUnique({
+          where: { id: templateId },
+          select: { body: true },
+        })
+      : null;
+
+  return {
+    leadId: lead.id,
+    campaignId: campaign.id,
+    campaignName: campaign.name,
+    firstName: lead.firstName,
+    templateText: template?.body ?? null,
+    customFields: lead.customFields,
+    firstReply,
+    injectContext: campaign.replyContextEnabled,
+  };
+}
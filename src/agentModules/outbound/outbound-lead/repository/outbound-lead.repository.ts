@@ -54,6 +54,40 @@ export class OutboundLeadRepository {
     });
   }
 
+  /** Bulk insert (import); returns id + phoneNumber of the created rows */
+  async createMany(
+    outboundCampaignId: string,
+    rows: {
+      phoneNumber: string;
+      firstName: string;
+      timeZone: string;
+      maxAttempts: number;
+      customFields?: Prisma.InputJsonValue | null;
+    }[],
+  ): Promise<{ id: string; phoneNumber: string }[]> {
+    return this.prisma.outboundLead.createManyAndReturn({
+      data: rows.map((r) => ({
+        outboundCampaignId,
+        phoneNumber: r.phoneNumber,
+        firstName: r.firstName,
+        timeZone: r.timeZone,
+        status: OutboundLeadStatus.QUEUED,
+        maxAttempts: r.maxAttempts,
+        customFields: this.mapJsonNullable(r.customFields),
+      })),
+      select: { id: true, phoneNumber: true },
+    });
+  }
+
+  /** Phone numbers already in the campaign (for import dedupe) */
+  async findPhoneNumbers(outboundCampaignId: string): Promise<string[]> {
+    const rows = await this.prisma.outboundLead.findMany({
+      where: { outboundCampaignId },
+      select: { phoneNumber: true },
+    });
+    return rows.map((r) => r.phoneNumber);
+  }
+
   async findById<T extends Select | undefined = undefined>(
     id: string,
     select?: T,
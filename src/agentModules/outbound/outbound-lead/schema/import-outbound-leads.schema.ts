@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { IANAZone } from 'luxon';
+import { isSupportedPhoneRegion } from 'src/common/phone/phone-number';
+
+// Multipart form fields arrive as strings
+const BoolFlag = z.preprocess(
+  (v) =>
+    typeof v === 'string'
+      ? ['true', '1', 'yes', 'on'].includes(v.trim().toLowerCase())
+      : v,
+  z.boolean(),
+);
+
+const JsonObjectString = (v: unknown) => {
+  if (typeof v !== 'string') return v;
+  if (!v.trim()) return undefined;
+  try {
+    return JSON.parse(v) as unknown;
+  } catch {
+    return v; // let the object schema report it
+  }
+};
+
+// POST /outbound-campaigns/:campaignId/leads/import (multipart, file in "file")
+export const ImportOutboundLeadsSchema = z.object({
+  /**
+   * Target → column header, e.g. { "phoneNumber": "Mobile", "firstName": "Name", "company": "Company" }.
+   * Targets are phoneNumber, firstName, timeZone or a campaign custom field name.
+   * Unmapped targets fall back to a column with the same name (case/space-insensitive).
+   */
+  mapping: z
+    .preprocess(
+      JsonObjectString,
+      z.record(z.string().trim().min(1), z.string().trim().min(1)),
+    )
+    .optional(),
+  /** Validate and report only; nothing is written */
+  dryRun: BoolFlag.default(false),
+  /** Reject numbers that are not registered on WhatsApp (agent must be connected) */
+  checkWhatsapp: BoolFlag.default(false),
+  /** Region for numbers without a country code (ISO 3166, e.g. "US") */
+  defaultRegion: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine(isSupportedPhoneRegion, 'Unsupported region code')
+    .optional(),
+  /** Used when the row has no (valid) time zone */
+  defaultTimeZone: z
+    .string()
+    .trim()
+    .refine((tz) => IANAZone.isValidZone(tz), 'Invalid IANA time zone')
+    .default('UTC'),
+  maxAttempts: z.coerce.number().int().min(1).max(10).default(3),
+  /** XLSX sheet to read; defaults to the first one */
+  sheet: z.string().trim().min(1).optional(),
+});
+export type ImportOutboundLeadsInput = z.infer<
+  typeof ImportOutboundLeadsSchema
+>;
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import {
+  addSuppressionSchema,
+  importSuppressionsSchema,
+  listSuppressionEventsQuerySchema,
+  listSuppressionsQuerySchema,
+} from '../schema/suppression.schema';
+
+export type AddSuppressionDto = z.infer<typeof addSuppressionSchema>;
+export type ImportSuppressionsDto = z.infer<typeof importSuppressionsSchema>;
+
+/** Query DTOs for the list endpoints (validated via Zod pipe) */
+export type ListSuppressionsQueryDto = z.infer<
+  typeof listSuppressionsQuerySchema
+>;
+export type ListSuppressionEventsQueryDto = z.infer<
+  typeof listSuppressionEventsQuerySchema
+>;
@@ -0,0 +1,35 @@
+import { Prisma, Suppression } from '@prisma/client';
+
+export interface PaginatedSuppressions {
+  data: Suppression[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+/** Audit entry with the acting user (null actor = the recipient / system) */
+export type SuppressionEventWithActor = Prisma.SuppressionEventGetPayload<{
+  include: { actorUser: { select: { id: true; email: true; username: true } } };
+}>;
+
+export interface PaginatedSuppressionEvents {
+  data: SuppressionEventWithActor[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface SuppressionImportReport {
+  totalRows: number;
+  added: number;
+  alreadySuppressed: number;
+  invalid: { row: number; value: string; reason: string }[];
+}
+
+/** Reply to send after a recipient opted out by keyword */
+export interface OptOutReply {
+  phoneNumber: string;
+  text: string;
+}
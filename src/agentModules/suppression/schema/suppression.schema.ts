@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { SuppressionReason } from '@prisma/client';
+import { isSupportedPhoneRegion } from 'src/common/phone/phone-number';
+
+/** Region for numbers without a country code (ISO 3166, e.g. "US") */
+const RegionSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine(isSupportedPhoneRegion, 'Unsupported region code');
+
+// POST /suppressions
+export const addSuppressionSchema = z.object({
+  phoneNumber: z.string().trim().min(1, 'phoneNumber is required'),
+  reason: z.nativeEnum(SuppressionReason).default(SuppressionReason.DNC),
+  note: z.string().trim().max(500).optional(),
+  defaultRegion: RegionSchema.optional(),
+});
+
+// GET /suppressions
+export const listSuppressionsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  /** Substring of the phone number */
+  q: z.string().trim().optional(),
+  reason: z.nativeEnum(SuppressionReason).optional(),
+});
+
+// GET /suppressions/events
+export const listSuppressionEventsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  /** Only changes of this number (any format) */
+  phoneNumber: z.string().trim().min(1).optional(),
+});
+
+// POST /suppressions/import (multipart, file in "file")
+export const importSuppressionsSchema = z.object({
+  /** Applied to rows without a reason column (or an unknown reason) */
+  reason: z.nativeEnum(SuppressionReason).default(SuppressionReason.DNC),
+  note: z.string().trim().max(500).optional(),
+  defaultRegion: RegionSchema.optional(),
+  /** XLSX sheet to read; defaults to the first one */
+  sheet: z.string().trim().min(1).optional(),
+});
@@ -0,0 +1,193 @@
+// src/agentModules/suppression/suppression.controller.ts
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  Req,
+  Res,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import type { Request, Response } from 'express';
+import { Suppression } from '@prisma/client';
+
+import { ClerkAuthGuard } from 'src/auth/clerk-auth.guard';
+import { UserService } from 'src/user/services/user.service';
+import { ZodValidationPipe } from 'src/common/pipes/zod.validation.pipe';
+import type { SpreadsheetUpload } from 'src/common/spreadsheet/read-spreadsheet';
+
+import { SuppressionService } from './suppression.service';
+import {
+  addSuppressionSchema,
+  importSuppressionsSchema,
+  listSuppressionEventsQuerySchema,
+  listSuppressionsQuerySchema,
+} from './schema/suppression.schema';
+import type {
+  AddSuppressionDto,
+  ImportSuppressionsDto,
+  ListSuppressionEventsQueryDto,
+  ListSuppressionsQueryDto,
+} from './dto/suppression.dto';
+import {
+  PaginatedSuppressionEvents,
+  PaginatedSuppressions,
+  SuppressionImportReport,
+} from './interface/suppression.interface';
+
+type ReqWithAuth = Request & {
+  auth?: {
+    clerkUserId?: string;
+    sessionId?: string;
+  };
+};
+
+@ApiTags('Suppressions')
+@Controller('suppressions')
+@UseGuards(ClerkAuthGuard)
+export class SuppressionController {
+  constructor(
+    private readonly suppressionService: SuppressionService,
+    private readonly userService: UserService,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List suppressed numbers',
+    description:
+      'Numbers none of your agents will message (opt-outs and do-not-contact), newest first.',
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({
+    name: 'q',
+    required: false,
+    type: String,
+    description: 'Part of the phone number.',
+  })
+  @ApiQuery({ name: 'reason', required: false, enum: ['OPT_OUT', 'DNC'] })
+  @ApiResponse({
+    status: 200,
+    description: 'A paginated list of suppressed numbers.',
+  })
+  async list(
+    @Query(new ZodValidationPipe(listSuppressionsQuerySchema))
+    query: ListSuppressionsQueryDto,
+    @Req() req: ReqWithAuth,
+  ): Promise<PaginatedSuppressions> {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.suppressionService.list(me.id, query);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Suppress a number',
+    description:
+      'Adds a number to the list. Its queued outbound leads are marked DNC (or UNSUBSCRIBED for OPT_OUT).',
+  })
+  @ApiResponse({ status: 201, description: 'The created suppression.' })
+  @ApiResponse({
+    status: 409,
+    description: 'The number is already suppressed.',
+  })
+  async add(
+    @Body(new ZodValidationPipe(addSuppressionSchema)) dto: AddSuppressionDto,
+    @Req() req: ReqWithAuth,
+  ): Promise<Suppression> {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.suppressionService.add(me.id, dto, me.id);
+  }
+
+  @Post('import')
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Import suppressed numbers',
+    description:
+      'CSV/XLSX upload ("file") with a phone column and optional reason/note columns. Numbers already listed are skipped.',
+  })
+  @ApiResponse({ status: 201, description: 'Per-row import report.' })
+  async importFile(
+    @UploadedFile() file: SpreadsheetUpload | undefined,
+    @Body(new ZodValidationPipe(importSuppressionsSchema))
+    dto: ImportSuppressionsDto,
+    @Req() req: ReqWithAuth,
+  ): Promise<SuppressionImportReport> {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.suppressionService.importFile(me.id, file, dto, me.id);
+  }
+
+  @Get('export')
+  @ApiOperation({
+    summary: 'Export suppressed numbers',
+    description: 'The whole list as CSV, in the format the import accepts.',
+  })
+  @ApiResponse({ status: 200, description: 'CSV file.' })
+  async exportCsv(@Req() req: ReqWithAuth, @Res() res: Response) {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    const body = await this.suppressionService.exportCsv(me.id);
+    res.set({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="suppressions.csv"',
+    });
+    res.send(body);
+  }
+
+  @Get('events')
+  @ApiOperation({
+    summary: 'Suppression audit trail',
+    description:
+      'Every addition (keyword opt-out, manual, import) and removal, newest first.',
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'phoneNumber', required: false, type: String })
+  @ApiResponse({
+    status: 200,
+    description: 'A paginated list of audit entries.',
+  })
+  async listEvents(
+    @Query(new ZodValidationPipe(listSuppressionEventsQuerySchema))
+    query: ListSuppressionEventsQueryDto,
+    @Req() req: ReqWithAuth,
+  ): Promise<PaginatedSuppressionEvents> {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.suppressionService.listEvents(me.id, query);
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Remove a suppressed number',
+    description:
+      'Allows the number to be messaged again. Leads already marked UNSUBSCRIBED/DNC keep that status.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    description: 'The UUID of the suppression.',
+  })
+  @ApiResponse({ status: 200, description: 'The removed suppression.' })
+  @ApiResponse({ status: 404, description: 'Suppression not found.' })
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: ReqWithAuth,
+  ): Promise<Suppression> {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.suppressionService.remove(me.id, id, me.id);
+  }
+}
@@ -0,0 +1,24 @@
+// src/agentModules/suppression/suppression.module.ts
+import { Module } from '@nestjs/common';
+import { MulterModule } from '@nestjs/platform-express';
+import * as multer from 'multer';
+
+import { SuppressionService } from './suppression.service';
+import { SuppressionController } from './suppression.controller';
+import { UserModule } from 'src/user/user.module';
+
+@Module({
+  imports: [
+    UserModule, // PrismaModule not needed as it's @Global()
+    // Suppression imports (CSV/XLSX) are parsed from memory
+    MulterModule.register({
+      storage: multer.memoryStorage(),
+      limits: { fileSize: 10 * 1024 * 1024 }, // 10 MB
+    }),
+  ],
+  controllers: [SuppressionController],
+  providers: [SuppressionService],
+  // Checked by WhatsappService / the broadcast pass before every send
+  exports: [SuppressionService],
+})
+export class SuppressionModule {}
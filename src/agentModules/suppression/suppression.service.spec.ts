@@ -0,0 +1,102 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  OutboundLeadStatus,
+  SuppressionReason,
+  SuppressionSource,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+import { SuppressionService } from './suppression.service';
+
+const AGENT_ID = 'agent-1';
+const USER_ID = 'user-1';
+const SENDER_JID = '8801712345678@s.whatsapp.net';
+
+function fakePrisma() {
+  return {
+    agent: {
+      findUnique: jest.fn().mockResolvedValue({ userId: USER_ID }),
+    },
+    suppression: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      create: jest.fn(({ data }: { data: object }) =>
+        Promise.resolve({ id: 'supp-1', ...data }),
+      ),
+    },
+    suppressionEvent: {
+      create: jest.fn().mockResolvedValue({}),
+    },
+    outboundLead: {
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+    outboundMessage: {
+      findFirst: jest.fn().mockResolvedValue(null),
+    },
+    $transaction: jest.fn((ops: Promise<unknown>[]) => Promise.all(ops)),
+  };
+}
+
+describe('SuppressionService.handleOptOut', () => {
+  let prisma: ReturnType<typeof fakePrisma>;
+  let service: SuppressionService;
+
+  beforeEach(async () => {
+    prisma = fakePrisma();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SuppressionService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+    service = module.get<SuppressionService>(SuppressionService);
+  });
+
+  it.each([
+    'STOP',
+    'Unsubscribe!',
+    'arrêt',
+    'ARRET',
+    'désabonner',
+    'desabonner',
+  ])('suppresses the sender on "%s"', async (text) => {
+    const reply = await service.handleOptOut(AGENT_ID, [SENDER_JID], text);
+
+    expect(reply?.phoneNumber).toBe('+8801712345678');
+    expect(prisma.suppression.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: USER_ID,
+        phoneNumber: '+8801712345678',
+        reason: SuppressionReason.OPT_OUT,
+        source: SuppressionSource.KEYWORD,
+      }),
+    });
+    expect(prisma.outboundLead.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { status: OutboundLeadStatus.UNSUBSCRIBED },
+      }),
+    );
+  });
+
+  it.each(['रोकें', 'बंद करें', 'বন্ধ করুন'])(
+    'suppresses the sender on the Hindi/Bengali keyword "%s"',
+    async (text) => {
+      await expect(
+        service.handleOptOut(AGENT_ID, [SENDER_JID], text),
+      ).resolves.not.toBeNull();
+    },
+  );
+
+  it.each([
+    'रुको', // "wait"
+    'बाद करो', // "do it later"
+    'বাদ দিন', // "leave it"
+    'cancel',
+    'stop by tomorrow',
+  ])('leaves the sender alone on "%s"', async (text) => {
+    await expect(
+      service.handleOptOut(AGENT_ID, [SENDER_JID], text),
+    ).resolves.toBeNull();
+    expect(prisma.suppression.create).not.toHaveBeenCalled();
+    expect(prisma.outboundLead.updateMany).not.toHaveBeenCalled();
+  });
+});
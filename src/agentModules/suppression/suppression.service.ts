@@ -0,0 +1,576 @@
+// src/agentModules/suppression/suppression.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  OutboundLeadStatus,
+  Prisma,
+  Suppression,
+  SuppressionAction,
+  SuppressionReason,
+  SuppressionSource,
+} from '@prisma/client';
+import * as XLSX from 'xlsx';
+
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  DEFAULT_PHONE_REGION,
+  storedToE164,
+} from 'src/common/phone/phone-number';
+import {
+  columnKey,
+  readSpreadsheet,
+  SpreadsheetUpload,
+} from 'src/common/spreadsheet/read-spreadsheet';
+
+import {
+  AddSuppressionDto,
+  ImportSuppressionsDto,
+  ListSuppressionEventsQueryDto,
+  ListSuppressionsQueryDto,
+} from './dto/suppression.dto';
+import {
+  OptOutReply,
+  PaginatedSuppressionEvents,
+  PaginatedSuppressions,
+  SuppressionImportReport,
+} from './interface/suppression.interface';
+
+/**
+ * Whole-message opt-out keywords. Matched after normalizeKeyword(), so case,
+ * accents and punctuation do not matter. OPT_OUT_KEYWORDS (comma-separated)
+ * adds more. "cancel" is left out on purpose: it answers appointment reminders.
+ */
+const OPT_OUT_KEYWORDS = [
+  // English
+  'stop',
+  'stop all',
+  'stopall',
+  'unsubscribe',
+  'opt out',
+  'optout',
+  'remove me',
+  // Spanish / Portuguese
+  'baja',
+  'darme de baja',
+  'cancelar suscripción',
+  'parar',
+  'sair',
+  'descadastrar',
+  'cancelar inscrição',
+  // French
+  'arrêt',
+  'arrêter',
+  'désabonner',
+  'désinscrire',
+  // German / Dutch / Italian
+  'stopp',
+  'abmelden',
+  'abbestellen',
+  'afmelden',
+  'uitschrijven',
+  'disiscrivi',
+  'disiscrivimi',
+  // Indonesian / Malay
+  'berhenti',
+  // Arabic
+  'توقف',
+  'إلغاء الاشتراك',
+  // Hindi / Bengali
+  'रोकें',
+  'बंद करें',
+  'বন্ধ',
+  'বন্ধ করুন',
+];
+
+const OPT_OUT_CONFIRMATION_TEXT =
+  process.env.OPT_OUT_CONFIRMATION_TEXT ||
+  "You've been unsubscribed and won't receive any more messages from us.";
+
+/** Leads in these states are not messaged anyway and keep their status */
+const UNTOUCHED_LEAD_STATUSES: OutboundLeadStatus[] = [
+  OutboundLeadStatus.INVALID_NUMBER,
+  OutboundLeadStatus.BLOCKED,
+  OutboundLeadStatus.UNSUBSCRIBED,
+  OutboundLeadStatus.DNC,
+];
+
+/** A DNC entry only stops leads that have not been messaged yet */
+const PENDING_LEAD_STATUSES: OutboundLeadStatus[] = [
+  OutboundLeadStatus.QUEUED,
+  OutboundLeadStatus.NEED_RETRY,
+  OutboundLeadStatus.PAUSED,
+];
+
+/** Rows accepted per import request */
+const MAX_IMPORT_ROWS = 5000;
+
+/** Column headers taken as the phone number column (compared via columnKey) */
+const PHONE_COLUMNS = ['phone', 'phonenumber', 'mobile', 'whatsapp', 'number'];
+
+const ACTOR_SELECT = { id: true, email: true, username: true } as const;
+
+/**
+ * Lowercase, drop accents of Latin letters, punctuation and emoji, collapse
+ * spaces. Marks of other scripts are kept: Devanagari and Bengali vowel signs
+ * are combining marks, and without them "रुको" (wait) would equal "रोकें" (stop).
+ */
+function normalizeKeyword(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/(\p{Script=Latin})\p{M}+/gu, '$1')
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const OPT_OUT_KEYWORD_SET = new Set(
+  [...OPT_OUT_KEYWORDS, ...(process.env.OPT_OUT_KEYWORDS ?? '').split(',')]
+    .map(normalizeKeyword)
+    .filter(Boolean),
+);
+
+/**
+ * E.164 form of a phone number or phone-number JID ("8801...@s.whatsapp.net").
+ * Digits without "+" that are not valid for the region are retried as an
+ * international number. LIDs and group JIDs carry no number: null.
+ */
+function toSuppressionPhone(
+  value: string,
+  region: string = DEFAULT_PHONE_REGION,
+): string | null {
+  let raw = value.trim();
+  if (raw.includes('@')) {
+    if (!raw.endsWith('@s.whatsapp.net')) return null;
+    raw = `+${raw.split('@')[0].split(':')[0]}`;
+  }
+  return storedToE164(raw, region);
+}
+
+type SuppressionEntry = {
+  phoneNumber: string;
+  reason: SuppressionReason;
+  source: SuppressionSource;
+  agentId?: string | null;
+  note?: string | null;
+};
+
+/**
+ * Per-user do-not-contact list. Every agent of the user checks it before
+ * messaging a number (broadcasts and API sends); recipients join it by
+ * sending STOP or a localized variant. Each change is written to the
+ * SuppressionEvent audit trail.
+ */
+@Injectable()
+export class SuppressionService {
+  private readonly logger = new Logger(SuppressionService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /* ------------------------------------------------------------------------ */
+  /*                               Sending guard                              */
+  /* ------------------------------------------------------------------------ */
+
+  /**
+   * The entry blocking `to` (phone number or JID) for the owner of the agent.
+   * Recipients without a resolvable number (LIDs, groups) give null.
+   */
+  async findForAgent(agentId: string, to: string): Promise<Suppression | null> {
+    const phoneNumber = toSuppressionPhone(to);
+    if (!phoneNumber) return null;
+    const agent = await this.prisma.agent.findUnique({
+      where: { id: agentId },
+      select: { userId: true },
+    });
+    if (!agent) return null;
+    return this.prisma.suppression.findUnique({
+      where: { userId_phoneNumber: { userId: agent.userId, phoneNumber } },
+    });
+  }
+
+  /** Throws ForbiddenException when `to` is on the agent owner's list. */
+  async assertCanMessage(agentId: string, to: string): Promise<void> {
+    const hit = await this.findForAgent(agentId, to);
+    if (hit) {
+      throw new ForbiddenException(
+        `${hit.phoneNumber} is on the suppression list (${hit.reason}) and cannot be messaged`,
+      );
+    }
+  }
+
+  /**
+   * If the inbound text is an opt-out keyword (STOP, UNSUBSCRIBE, BAJA, …),
+   * add the sender to the agent owner's list and return the confirmation to
+   * send. Null for any other text, or when the sender's number is unknown.
+   */
+  async handleOptOut(
+    agentId: string,
+    jids: (string | null | undefined)[],
+    text: string,
+  ): Promise<OptOutReply | null> {
+    if (!OPT_OUT_KEYWORD_SET.has(normalizeKeyword(text))) return null;
+
+    const agent = await this.prisma.agent.findUnique({
+      where: { id: agentId },
+      select: { userId: true },
+    });
+    if (!agent) return null;
+
+    const phoneNumber = await this.resolveSenderPhone(agentId, jids);
+    if (!phoneNumber) {
+      this.logger.warn(
+        `[handleOptOut] agent ${agentId}: no phone number for ${jids.filter(Boolean).join(', ')}; not suppressed`,
+      );
+      return null;
+    }
+
+    await this.suppress(
+      agent.userId,
+      {
+        phoneNumber,
+        reason: SuppressionReason.OPT_OUT,
+        source: SuppressionSource.KEYWORD,
+        agentId,
+        note: text.trim().slice(0, 500),
+      },
+      null,
+    );
+    return { phoneNumber, text: OPT_OUT_CONFIRMATION_TEXT };
+  }
+
+  /* ------------------------------------------------------------------------ */
+  /*                                Management                                */
+  /* ------------------------------------------------------------------------ */
+
+  async list(
+    userId: string,
+    query: ListSuppressionsQueryDto,
+  ): Promise<PaginatedSuppressions> {
+    const { page, limit, q, reason } = query;
+    const where: Prisma.SuppressionWhereInput = { userId };
+    if (reason) where.reason = reason;
+    const needle = q?.replace(/[^\d+]/g, '');
+    if (needle) where.phoneNumber = { contains: needle };
+
+    const [data, total] = await this.prisma.$transaction([
+      this.prisma.suppression.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.suppression.count({ where }),
+    ]);
+    return { data, total, page, limit, totalPages: Math.ceil(total / limit) };
+  }
+
+  async add(
+    userId: string,
+    dto: AddSuppressionDto,
+    actorUserId: string,
+  ): Promise<Suppression> {
+    const phoneNumber = toSuppressionPhone(
+      dto.phoneNumber,
+      dto.defaultRegion ?? DEFAULT_PHONE_REGION,
+    );
+    if (!phoneNumber) {
+      throw new BadRequestException(
+        `Invalid phone number "${dto.phoneNumber}"`,
+      );
+    }
+    const created = await this.suppress(
+      userId,
+      {
+        phoneNumber,
+        reason: dto.reason,
+        source: SuppressionSource.MANUAL,
+        note: dto.note,
+      },
+      actorUserId,
+    );
+    if (!created) {
+      throw new ConflictException(`${phoneNumber} is already suppressed`);
+    }
+    return created;
+  }
+
+  /**
+   * Take a number off the list. Leads already marked UNSUBSCRIBED/DNC keep
+   * that status; re-add them to a campaign to message them again.
+   */
+  async remove(
+    userId: string,
+    id: string,
+    actorUserId: string,
+  ): Promise<Suppression> {
+    const row = await this.prisma.suppression.findFirst({
+      where: { id, userId },
+    });
+    if (!row) throw new NotFoundException('Suppression not found');
+
+    await this.prisma.$transaction([
+      this.prisma.suppression.delete({ where: { id } }),
+      this.prisma.suppressionEvent.create({
+        data: {
+          userId,
+          phoneNumber: row.phoneNumber,
+          action: SuppressionAction.REMOVED,
+          reason: row.reason,
+          source: SuppressionSource.MANUAL,
+          actorUserId,
+        },
+      }),
+    ]);
+    return row;
+  }
+
+  /**
+   * Add the numbers of a CSV/XLSX file. The phone column is found by header
+   * (phone, phoneNumber, mobile, whatsapp, number); optional "reason" and
+   * "note" columns override the request defaults per row.
+   */
+  async importFile(
+    userId: string,
+    file: SpreadsheetUpload | undefined,
+    dto: ImportSuppressionsDto,
+    actorUserId: string,
+  ): Promise<SuppressionImportReport> {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException(
+        'Upload a .csv or .xlsx file in the "file" field',
+      );
+    }
+    const { headers, records } = readSpreadsheet(file, dto.sheet);
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(
+        `The file has ${records.length} rows; at most ${MAX_IMPORT_ROWS} can be imported at once`,
+      );
+    }
+
+    const keys = headers.map(columnKey);
+    const phoneCol = keys.findIndex((k) => PHONE_COLUMNS.includes(k));
+    if (phoneCol < 0) {
+      throw new BadRequestException(
+        'No phone number column found (expected a header such as "phone" or "phoneNumber")',
+      );
+    }
+    const reasonCol = keys.indexOf('reason');
+    const noteCol = keys.indexOf('note');
+    const region = dto.defaultRegion ?? DEFAULT_PHONE_REGION;
+
+    const existing = new Set(
+      (
+        await this.prisma.suppression.findMany({
+          where: { userId },
+          select: { phoneNumber: true },
+        })
+      ).map((s) => s.phoneNumber),
+    );
+
+    const report: SuppressionImportReport = {
+      totalRows: records.length,
+      added: 0,
+      alreadySuppressed: 0,
+      invalid: [],
+    };
+    for (const { row, cells } of records) {
+      const value = String(cells[phoneCol] ?? '').trim();
+      const phoneNumber = value ? toSuppressionPhone(value, region) : null;
+      if (!phoneNumber) {
+        report.invalid.push({
+          row,
+          value,
+          reason: value ? 'Invalid phone number' : 'Missing phone number',
+        });
+        continue;
+      }
+      if (existing.has(phoneNumber)) {
+        report.alreadySuppressed += 1;
+        continue;
+      }
+      existing.add(phoneNumber);
+
+      const rowReason =
+        reasonCol >= 0 ? String(cells[reasonCol]).trim().toUpperCase() : '';
+      const reason = Object.values(SuppressionReason).find(
+        (r) => r === rowReason,
+      );
+      const rowNote = noteCol >= 0 ? String(cells[noteCol]).trim() : '';
+
+      const created = await this.suppress(
+        userId,
+        {
+          phoneNumber,
+          reason: reason ?? dto.reason,
+          source: SuppressionSource.IMPORT,
+          note: rowNote || dto.note,
+        },
+        actorUserId,
+      );
+      if (created) report.added += 1;
+      else report.alreadySuppressed += 1;
+    }
+    return report;
+  }
+
+  /** The whole list as CSV (same columns the import accepts). */
+  async exportCsv(userId: string): Promise<string> {
+    const rows = await this.prisma.suppression.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+    const sheet = XLSX.utils.json_to_sheet(
+      rows.map((r) => ({
+        phoneNumber: r.phoneNumber,
+        reason: r.reason,
+        source: r.source,
+        note: r.note ?? '',
+        agentId: r.agentId ?? '',
+        createdAt: r.createdAt.toISOString(),
+      })),
+      {
+        header: [
+          'phoneNumber',
+          'reason',
+          'source',
+          'note',
+          'agentId',
+          'createdAt',
+        ],
+      },
+    );
+    return XLSX.utils.sheet_to_csv(sheet);
+  }
+
+  /** Audit trail of additions and removals, newest first. */
+  async listEvents(
+    userId: string,
+    query: ListSuppressionEventsQueryDto,
+  ): Promise<PaginatedSuppressionEvents> {
+    const { page, limit } = query;
+    const where: Prisma.SuppressionEventWhereInput = { userId };
+    if (query.phoneNumber) {
+      where.phoneNumber =
+        toSuppressionPhone(query.phoneNumber) ?? query.phoneNumber;
+    }
+
+    const [data, total] = await this.prisma.$transaction([
+      this.prisma.suppressionEvent.findMany({
+        where,
+        include: { actorUser: { select: ACTOR_SELECT } },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.suppressionEvent.count({ where }),
+    ]);
+    return { data, total, page, limit, totalPages: Math.ceil(total / limit) };
+  }
+
+  /* ------------------------------------------------------------------------ */
+  /*                                  Helpers                                 */
+  /* ------------------------------------------------------------------------ */
+
+  /**
+   * Add a number to the user's list with its ADDED audit event, then stop the
+   * user's outbound leads for it. Null when the number was already listed.
+   */
+  private async suppress(
+    userId: string,
+    entry: SuppressionEntry,
+    actorUserId: string | null,
+  ): Promise<Suppression | null> {
+    const existing = await this.prisma.suppression.findUnique({
+      where: {
+        userId_phoneNumber: { userId, phoneNumber: entry.phoneNumber },
+      },
+    });
+    if (existing) return null;
+
+    let created: Suppression;
+    try {
+      [created] = await this.prisma.$transaction([
+        this.prisma.suppression.create({ data: { userId, ...entry } }),
+        this.prisma.suppressionEvent.create({
+          data: {
+            userId,
+            ...entry,
+            action: SuppressionAction.ADDED,
+            actorUserId,
+          },
+        }),
+      ]);
+    } catch (e) {
+      // Added concurrently (e.g. STOP sent twice)
+      if (
+        e instanceof Prisma.PrismaClientKnownRequestError &&
+        e.code === 'P2002'
+      ) {
+        return null;
+      }
+      throw e;
+    }
+
+    await this.applyToOutboundLeads(userId, entry.phoneNumber, entry.reason);
+    return created;
+  }
+
+  /**
+   * OPT_OUT marks every lead of the number UNSUBSCRIBED across the user's
+   * campaigns; DNC marks the ones not messaged yet DNC.
+   */
+  private async applyToOutboundLeads(
+    userId: string,
+    phoneNumber: string,
+    reason: SuppressionReason,
+  ): Promise<void> {
+    const optOut = reason === SuppressionReason.OPT_OUT;
+    const { count } = await this.prisma.outboundLead.updateMany({
+      where: {
+        // leads may be stored with or without the "+"
+        phoneNumber: { in: [phoneNumber, phoneNumber.slice(1)] },
+        outboundCampaign: { agent: { userId } },
+        status: optOut
+          ? { notIn: UNTOUCHED_LEAD_STATUSES }
+          : { in: PENDING_LEAD_STATUSES },
+      },
+      data: {
+        status: optOut
+          ? OutboundLeadStatus.UNSUBSCRIBED
+          : OutboundLeadStatus.DNC,
+      },
+    });
+    if (count) {
+      this.logger.log(
+        `[suppress] ${phoneNumber}: ${count} outbound lead(s) marked ${optOut ? 'UNSUBSCRIBED' : 'DNC'}`,
+      );
+    }
+  }
+
+  /** Sender number: from a phone-number JID, else from the broadcast that reached this LID. */
+  private async resolveSenderPhone(
+    agentId: string,
+    jids: (string | null | undefined)[],
+  ): Promise<string | null> {
+    const list = [...new Set(jids.filter((j): j is string => !!j))];
+    for (const jid of list) {
+      const phone = toSuppressionPhone(jid);
+      if (phone) return phone;
+    }
+    if (!list.length) return null;
+
+    const sent = await this.prisma.outboundMessage.findFirst({
+      where: { agentId, remoteJid: { in: list } },
+      orderBy: { createdAt: 'desc' },
+      select: { outboundLead: { select: { phoneNumber: true } } },
+    });
+    return sent ? toSuppressionPhone(sent.outboundLead.phoneNumber) : null;
+  }
+}
@@ -0,0 +1,167 @@
+import { ServiceUnavailableException } from '@nestjs/common';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatOpenAI } from '@langchain/openai';
+import { ChatAnthropic } from '@langchain/anthropic';
+import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import {
+  AIModel,
+  ClaudeModel,
+  GeminiModel,
+  OpenAIModel,
+  type Agent,
+} from '@prisma/client';
+
+export type ChatModelAgentConfig = Pick<
+  Agent,
+  | 'modelType'
+  | 'openAIModel'
+  | 'claudeModel'
+  | 'geminiModel'
+  | 'useOwnApiKey'
+  | 'userProvidedApiKey'
+>;
+
+export interface ResolvedChatModel {
+  llm: BaseChatModel;
+  provider: AIModel;
+  model: string;
+}
+
+// ---------- Defaults (used when the agent has no model picked) ----------
+const DEFAULT_OPENAI_MODEL = 'gpt-4o';
+const DEFAULT_CLAUDE_MODEL = 'claude-3-5-sonnet-latest';
+const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash';
+
+// ---------- Enum → vendor model IDs ----------
+// Enum values that have no public vendor ID map to the closest released model.
+const OPENAI_MODEL_IDS: Record<OpenAIModel, string> = {
+  gpt_3_5_turbo: 'gpt-3.5-turbo',
+  gpt_4: 'gpt-4',
+  gpt_4_1: 'gpt-4.1',
+  gpt_4_1_mini: 'gpt-4.1-mini',
+  gpt_4_1_nano: 'gpt-4.1-nano',
+  gpt_5: 'gpt-5',
+  gpt_5_mini: 'gpt-5-mini',
+  gpt_5_nano: 'gpt-5-nano',
+  gpt_5_thinking: 'gpt-5',
+  gpt_5_thinking_mini: 'gpt-5-mini',
+  gpt_5_thinking_nano: 'gpt-5-nano',
+  gpt_5_thinking_pro: 'gpt-5',
+  gpt_4_turbo: 'gpt-4-turbo',
+  gpt_4_turbo_16k: 'gpt-4-turbo',
+  gpt_4_turbo_32k: 'gpt-4-turbo',
+  gpt_4_vision: 'gpt-4o',
+  gpt_4_vision_16k: 'gpt-4o',
+  gpt_5_turbo: 'gpt-5',
+  gpt_5_turbo_16k: 'gpt-5',
+  gpt_5_turbo_32k: 'gpt-5',
+  gpt_5_vision: 'gpt-5',
+};
+
+const CLAUDE_MODEL_IDS: Record<ClaudeModel, string> = {
+  claude_3_haiku: 'claude-3-haiku-20240307',
+  claude_3_sonnet: 'claude-3-sonnet-20240229',
+  claude_3_opus: 'claude-3-opus-latest',
+  claude_3_5_haiku: 'claude-3-5-haiku-latest',
+  claude_3_5_sonnet: 'claude-3-5-sonnet-latest',
+  claude_3_5_sonnet_v2: 'claude-3-5-sonnet-20241022',
+  claude_3_7_sonnet: 'claude-3-7-sonnet-latest',
+  claude_3_7_sonnet_thinking: 'claude-3-7-sonnet-latest',
+  claude_4_opus: 'claude-opus-4-0',
+  claude_4_opus_4_1: 'claude-opus-4-1',
+  claude_4_sonnet: 'claude-sonnet-4-0',
+};
+
+const GEMINI_MODEL_IDS: Record<GeminiModel, string> = {
+  gemini_1_0_nano_1: 'gemini-1.5-flash-8b',
+  gemini_1_0_nano_2: 'gemini-1.5-flash-8b',
+  gemini_1_0_pro: 'gemini-1.0-pro',
+  gemini_1_0_ultra: 'gemini-1.5-pro',
+  gemini_1_5_pro: 'gemini-1.5-pro',
+  gemini_1_5_flash: 'gemini-1.5-flash',
+  gemini_2_0_flash: 'gemini-2.0-flash',
+  gemini_2_0_flash_lite: 'gemini-2.0-flash-lite',
+  gemini_2_0_flash_preview_image_generation:
+    'gemini-2.0-flash-preview-image-generation',
+  gemini_2_0_flash_live_001: 'gemini-2.0-flash-live-001',
+  gemini_2_5_pro: 'gemini-2.5-pro',
+  gemini_2_5_flash: 'gemini-2.5-flash',
+  gemini_2_5_flash_lite: 'gemini-2.5-flash-lite',
+};
+
+/** GPT-5 family only accepts the default temperature. */
+function supportsTemperature(model: string): boolean {
+  return !model.startsWith('gpt-5');
+}
+
+function resolveApiKey(
+  agent: ChatModelAgentConfig,
+  envKey: string | undefined,
+  label: string,
+): string {
+  const apiKey = agent.useOwnApiKey ? agent.userProvidedApiKey : envKey;
+  if (!apiKey) {
+    throw new ServiceUnavailableException(
+      `${label} API key is not configured.`,
+    );
+  }
+  return apiKey;
+}
+
+/**
+ * Builds the LangChain chat model for an agent, honouring its provider,
+ * model choice and own-key settings. Throws ServiceUnavailableException
+ * when no API key is available for the selected provider.
+ */
+export function createChatModel(
+  agent: ChatModelAgentConfig,
+  opts: { temperature?: number } = {},
+): ResolvedChatModel {
+  const temperature = opts.temperature ?? 0;
+
+  switch (agent.modelType) {
+    case AIModel.CHATGPT: {
+      const apiKey = resolveApiKey(agent, process.env.OPENAI_API_KEY, 'OpenAI');
+      const model = agent.openAIModel
+        ? OPENAI_MODEL_IDS[agent.openAIModel]
+        : DEFAULT_OPENAI_MODEL;
+      const llm = new ChatOpenAI({
+        apiKey,
+        model,
+        ...(supportsTemperature(model) ? { temperature } : {}),
+      });
+      return { llm, provider: AIModel.CHATGPT, model };
+    }
+
+    case AIModel.CLAUDE: {
+      const apiKey = resolveApiKey(
+        agent,
+        process.env.ANTHROPIC_API_KEY,
+        'Anthropic',
+      );
+      const model = agent.claudeModel
+        ? CLAUDE_MODEL_IDS[agent.claudeModel]
+        : DEFAULT_CLAUDE_MODEL;
+      const llm = new ChatAnthropic({ apiKey, model, temperature });
+      return { llm, provider: AIModel.CLAUDE, model };
+    }
+
+    case AIModel.GEMINI: {
+      const apiKey = resolveApiKey(
+        agent,
+        process.env.GOOGLE_API_KEY,
+        'Google (Gemini)',
+      );
+      const model = agent.geminiModel
+        ? GEMINI_MODEL_IDS[agent.geminiModel]
+        : DEFAULT_GEMINI_MODEL;
+      const llm = new ChatGoogleGenerativeAI({ apiKey, model, temperature });
+      return { llm, provider: AIModel.GEMINI, model };
+    }
+
+    default:
+      throw new ServiceUnavailableException(
+        `Unsupported modelType: ${String(agent.modelType)}`,
+      );
+  }
+}
@@ -0,0 +1,167 @@
+import { Injectable, Logger } from '@nestjs/common';
+import OpenAI from 'openai';
+import type { ChatCompletionContentPart } from 'openai/resources/chat/completions';
+
+export type MediaExtractionKind =
+  | 'receipt'
+  | 'invoice'
+  | 'id_document'
+  | 'product'
+  | 'document'
+  | 'screenshot'
+  | 'other';
+
+/** Structured result of reading an incoming image/document. */
+export interface MediaExtraction {
+  kind: MediaExtractionKind;
+  summary: string;
+  fields: Record<string, string | number | boolean | null>;
+  text?: string;
+  model: string;
+}
+
+/**
+ * Reads incoming WhatsApp images/documents with a vision-capable OpenAI model
+ * (Agent.isImageDataExtraction). Images go in as image_url parts, PDFs as file parts.
+ */
+@Injectable()
+export class MediaExtractionService {
+  private readonly logger = new Logger(MediaExtractionService.name);
+
+  private readonly openaiEnabled = !!process.env.OPENAI_API_KEY;
+  private readonly openai = this.openaiEnabled
+    ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+    : null;
+  private readonly visionModel =
+    process.env.OPENAI_VISION_MODEL || 'gpt-4o-mini';
+
+  // Hard cap on media size we send to the model (bytes)
+  private readonly MAX_MEDIA_BYTES = 15 * 1024 * 1024;
+  private readonly MAX_TEXT_LENGTH = 4000;
+
+  get isEnabled(): boolean {
+    return !!this.openai;
+  }
+
+  /** True when the mimetype is something the vision model can read. */
+  isSupported(mimetype?: string | null): boolean {
+    if (!mimetype) return false;
+    return mimetype.startsWith('image/') || mimetype === 'application/pdf';
+  }
+
+  /**
+   * Extract structured content from an image or PDF.
+   * Returns null when disabled, unsupported, or the model fails.
+   */
+  async extract(
+    buffer: Buffer,
+    mimetype: string,
+    opts: { filename?: string | null; caption?: string | null } = {},
+  ): Promise<MediaExtraction | null> {
+    if (!this.openai || !this.isSupported(mimetype)) return null;
+    if (buffer.length === 0 || buffer.length > this.MAX_MEDIA_BYTES) {
+      this.logger.warn(`[extract] skipped: size=${buffer.length}`);
+      return null;
+    }
+
+    const dataUrl = `data:${mimetype};base64,${buffer.toString('base64')}`;
+    const mediaPart: ChatCompletionContentPart = mimetype.startsWith('image/')
+      ? { type: 'image_url', image_url: { url: dataUrl } }
+      : {
+          type: 'file',
+          file: {
+            filename: opts.filename || 'document.pdf',
+            file_data: dataUrl,
+          },
+        };
+
+    try {
+      const res = await this.openai.chat.completions.create({
+        model: this.visionModel,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          {
+            role: 'system',
+            content:
+              'You read images and documents sent by customers to a business on WhatsApp. ' +
+              'Return JSON: {"kind": "receipt"|"invoice"|"id_document"|"product"|"document"|"screenshot"|"other", ' +
+              '"summary": one or two sentences, "fields": flat object of key facts (e.g. merchant, date, total, currency, ' +
+              'full_name, document_number, date_of_birth, product_name, brand, model), "text": visible text if any}. ' +
+              'Only report what is actually visible. Use null for unreadable values.',
+          },
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: opts.caption
+                  ? `Customer caption: ${opts.caption}`
+                  : 'No caption was provided.',
+              },
+              mediaPart,
+            ],
+          },
+        ],
+      });
+
+      const raw = res.choices?.[0]?.message?.content || '{}';
+      return this.normalize(JSON.parse(raw));
+    } catch (error: any) {
+      this.logger.error(`[extract] ${error.message}`);
+      return null;
+    }
+  }
+
+  /** Render an extraction as plain text for the agent turn. */
+  toPromptText(extraction: MediaExtraction): string {
+    const lines = [
+      `Type: ${extraction.kind}`,
+      `Summary: ${extraction.summary}`,
+    ];
+    const entries = Object.entries(extraction.fields);
+    if (entries.length > 0) {
+      lines.push('Fields:');
+      for (const [k, v] of entries) lines.push(`- ${k}: ${v ?? 'unreadable'}`);
+    }
+    if (extraction.text) lines.push(`Visible text: ${extraction.text}`);
+    return lines.join('\n');
+  }
+
+  private normalize(parsed: any): MediaExtraction {
+    const kinds: MediaExtractionKind[] = [
+      'receipt',
+      'invoice',
+      'id_document',
+      'product',
+      'document',
+      'screenshot',
+      'other',
+    ];
+    const kind = kinds.includes(parsed?.kind) ? parsed.kind : 'other';
+
+    const fields: MediaExtraction['fields'] = {};
+    if (parsed?.fields && typeof parsed.fields === 'object') {
+      for (const [k, v] of Object.entries(parsed.fields)) {
+        if (v === null || ['string', 'number', 'boolean'].includes(typeof v)) {
+          fields[k] = v as string | number | boolean | null;
+        } else {
+          fields[k] = JSON.stringify(v);
+        }
+      }
+    }
+
+    const text =
+      typeof parsed?.text === 'string' && parsed.text.trim()
+        ? parsed.text.trim().slice(0, this.MAX_TEXT_LENGTH)
+        : undefined;
+
+    return {
+      kind,
+      summary: typeof parsed?.summary === 'string' ? parsed.summary.trim() : '',
+      fields,
+      text,
+      model: this.visionModel,
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { KnowledgebaseService } from 'src/agentModules/knowledgebase/knowledgebase.service';
+
+/**
+ * MemoryType.KNOWLEDGE_BASE support.
+ * Every completed exchange (customer message + assistant reply) is embedded into
+ * the agent's conversation-memory namespace; on each turn the most relevant earlier
+ * exchanges with the same senderJid are recalled alongside the recent buffer.
+ */
+@Injectable()
+export class KnowledgeMemoryService {
+  private readonly logger = new Logger(KnowledgeMemoryService.name);
+
+  private readonly TOP_K = 4;
+  private readonly MIN_SCORE = 0.3;
+  private readonly MAX_EXCHANGE_LENGTH = 1200;
+
+  constructor(private readonly kb: KnowledgebaseService) {}
+
+  /**
+   * Relevant earlier exchanges for this contact, oldest first.
+   * `before` excludes exchanges that are already in the recent buffer.
+   */
+  async recall(
+    agentId: string,
+    senderJid: string,
+    query: string,
+    before?: Date,
+  ): Promise<string[]> {
+    try {
+      const matches = await this.kb.searchConversationMemory(agentId, {
+        senderJid,
+        query,
+        topK: this.TOP_K,
+        before,
+      });
+
+      return matches
+        .filter((m) => m.score == null || m.score >= this.MIN_SCORE)
+        .sort(
+          (a, b) =>
+            (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0),
+        )
+        .map((m) => m.text);
+    } catch (error: any) {
+      this.logger.error(`[recall] ${error.message}`);
+      return [];
+    }
+  }
+
+  /** Embed one completed exchange; keyed by the AI Conversation row id. */
+  async remember(
+    agentId: string,
+    senderJid: string,
+    human: { message: string },
+    ai: { id: string; message: string; createdAt: Date },
+  ): Promise<void> {
+    try {
+      const text = `Customer: ${human.message}\nAssistant: ${ai.message}`;
+      await this.kb.indexConversationMemory(agentId, [
+        {
+          id: ai.id,
+          senderJid,
+          text:
+            text.length > this.MAX_EXCHANGE_LENGTH
+              ? text.slice(0, this.MAX_EXCHANGE_LENGTH) + '…'
+              : text,
+          createdAt: ai.createdAt,
+        },
+      ]);
+    } catch (error: any) {
+      this.logger.error(`[remember] ${error.message}`);
+    }
+  }
+}
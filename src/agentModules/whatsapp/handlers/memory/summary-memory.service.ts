@@ -0,0 +1,174 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SenderType } from '@prisma/client';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  createChatModel,
+  type ChatModelAgentConfig,
+} from '../llm/chat-model.factory';
+
+/**
+ * MemoryType.SUMMARY support.
+ * Keeps one rolling summary per (agentId, senderJid). Rows that fall outside the
+ * recent `historyLimit` window are folded into the summary incrementally, so each
+ * refresh only sends the previous summary plus the newly aged-out rows to the LLM.
+ */
+@Injectable()
+export class SummaryMemoryService {
+  private readonly logger = new Logger(SummaryMemoryService.name);
+
+  // Max rows condensed per refresh; any remainder is picked up on the next turn
+  private readonly MAX_BATCH = 40;
+  private readonly MAX_LINE_LENGTH = 500;
+
+  // Threads currently being summarized (avoid double work on bursts of messages)
+  private readonly inFlight = new Set<string>();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Current stored summary for a thread, or null if none yet. */
+  async getSummary(agentId: string, senderJid: string): Promise<string | null> {
+    try {
+      const row = await this.prisma.conversationSummary.findUnique({
+        where: { agentId_senderJid: { agentId, senderJid } },
+        select: { summary: true },
+      });
+      return row?.summary?.trim() || null;
+    } catch (error: any) {
+      this.logger.error(`[getSummary] ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Fold rows older than the last `historyLimit` messages (and newer than what
+   * was already summarized) into the stored summary. No-op while the thread
+   * still fits in the buffer window.
+   */
+  async refreshSummary(
+    agentId: string,
+    senderJid: string,
+    historyLimit: number,
+  ): Promise<void> {
+    const key = `${agentId}:${senderJid}`;
+    if (this.inFlight.has(key)) return;
+    this.inFlight.add(key);
+
+    try {
+      const existing = await this.prisma.conversationSummary.findUnique({
+        where: { agentId_senderJid: { agentId, senderJid } },
+      });
+
+      const since = existing?.summarizedUntil;
+      const pending = await this.prisma.conversation.count({
+        where: {
+          agentId,
+          senderJid,
+          ...(since ? { createdAt: { gt: since } } : {}),
+        },
+      });
+
+      const overflow = pending - historyLimit;
+      if (overflow <= 0) return;
+
+      const rows = await this.prisma.conversation.findMany({
+        where: {
+          agentId,
+          senderJid,
+          ...(since ? { createdAt: { gt: since } } : {}),
+        },
+        orderBy: { createdAt: 'asc' },
+        take: Math.min(overflow, this.MAX_BATCH),
+        select: { senderType: true, message: true, createdAt: true },
+      });
+      if (rows.length === 0) return;
+
+      const agent = await this.prisma.agent.findUnique({
+        where: { id: agentId },
+        select: {
+          modelType: true,
+          openAIModel: true,
+          claudeModel: true,
+          geminiModel: true,
+          useOwnApiKey: true,
+          userProvidedApiKey: true,
+        },
+      });
+      if (!agent) return;
+
+      const transcript = rows
+        .map((r) => {
+          const who =
+            r.senderType === SenderType.HUMAN ? 'Customer' : 'Assistant';
+          const text =
+            r.message.length > this.MAX_LINE_LENGTH
+              ? r.message.slice(0, this.MAX_LINE_LENGTH) + '…'
+              : r.message;
+          return `${who}: ${text}`;
+        })
+        .join('\n');
+
+      const summary = await this.condense(
+        agent,
+        existing?.summary ?? null,
+        transcript,
+      );
+      if (!summary) return;
+
+      const summarizedUntil = rows[rows.length - 1].createdAt;
+      await this.prisma.conversationSummary.upsert({
+        where: { agentId_senderJid: { agentId, senderJid } },
+        create: {
+          agentId,
+          senderJid,
+          summary,
+          summarizedUntil,
+          messageCount: rows.length,
+        },
+        update: {
+          summary,
+          summarizedUntil,
+          messageCount: { increment: rows.length },
+        },
+      });
+
+      this.logger.log(
+        `[refreshSummary] agentId=${agentId} jid=${senderJid} folded=${rows.length}`,
+      );
+    } catch (error: any) {
+      this.logger.error(`[refreshSummary] ${error.message}`, error.stack);
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /** Ask the agent's own model to merge the previous summary with new lines. */
+  private async condense(
+    agent: ChatModelAgentConfig,
+    previous: string | null,
+    transcript: string,
+  ): Promise<string | null> {
+    const { llm } = createChatModel(agent, { temperature: 0 });
+
+    const res = await llm.invoke([
+      new SystemMessage(
+        'You maintain a running summary of a WhatsApp conversation between a customer and an assistant. ' +
+          'Merge the existing summary with the new messages. Keep facts the assistant will need later: ' +
+          'customer name and contact details, requests, decisions, bookings, open questions and promises made. ' +
+          'Drop greetings and small talk. Write plain text, at most 200 words.',
+      ),
+      new HumanMessage(
+        `Existing summary:\n${previous || '(none)'}\n\nNew messages:\n${transcript}`,
+      ),
+    ]);
+
+    const text =
+      typeof res.content === 'string'
+        ? res.content
+        : res.content
+            .map((c: any) => (typeof c === 'string' ? c : (c?.text ?? '')))
+            .join('');
+
+    return text.trim() || null;
+  }
+}
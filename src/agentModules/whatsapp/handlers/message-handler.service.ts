@@ -3,9 +3,15 @@ import { Injectable } from '@nestjs/common';
 import type { WAMessage, WASocket } from '@whiskeysockets/baileys';
 import { downloadContentFromMessage } from '@whiskeysockets/baileys';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { MemoryType, SenderType } from '@prisma/client';
+import { MemoryType, Prisma, SenderType, VoiceReplyMode } from '@prisma/client';
 import { AIMessage, BaseMessage, HumanMessage } from '@langchain/core/messages';
-import { RunAgentService } from './run-agent.service';
+import { RunAgentService, type AgentRunContext } from './run-agent.service';
+import { SummaryMemoryService } from './memory/summary-memory.service';
+import { KnowledgeMemoryService } from './memory/knowledge-memory.service';
+import { MediaExtractionService } from './media/media-extraction.service';
+import { AppointmentReminderService } from 'src/agentModules/appointment/reminders/appointment-reminder.service';
+import { recordOutboundReply } from 'src/agentModules/outbound/outbound-lead/outbound-reply';
+import { SuppressionService } from 'src/agentModules/suppression/suppression.service';
 
 import OpenAI from 'openai';
 import { toFile } from 'openai/uploads';
@@ -24,12 +30,19 @@ export class MessageHandlerService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly runAgent: RunAgentService,
+    private readonly summaryMemory: SummaryMemoryService,
+    private readonly knowledgeMemory: KnowledgeMemoryService,
+    private readonly mediaExtraction: MediaExtractionService,
+    private readonly appointmentReminders: AppointmentReminderService,
+    private readonly suppressions: SuppressionService,
   ) { }
 
   /**
    * Main handler for incoming WhatsApp messages (text or voice).
    * - If voice: transcribe via OpenAI, then run agent with BUFFER history.
-   * - Replies with text and (if available) TTS audio.
+   * - If image/document and isImageDataExtraction: read it with a vision model.
+   * - Replies with text and, if isVoiceResponseAvailable, a PTT voice note
+   *   (always, or only for voice input, per Agent.voiceReplyMode).
    */
   public async handleMessage(socket: WASocket, msg: WAMessage, agentId: string): Promise<void> {
     const rawSenderJid = msg.key.remoteJid;
@@ -41,6 +54,7 @@ export class MessageHandlerService {
     // Extract text if any (from many possible message shapes)
     let incomingText = this.extractText(msg);
     const audioMessage = this.extractAudioMessage(msg);
+    const visualMedia = this.extractVisualMedia(msg);
     const isVoice = !incomingText && !!audioMessage;
 
     try {
@@ -55,19 +69,77 @@ export class MessageHandlerService {
           isActive: true,
           memoryType: true,
           historyLimit: true,
+          isImageDataExtraction: true,
+          isVoiceResponseAvailable: true,
+          voiceReplyMode: true,
+          ttsVoice: true,
+          ttsLanguage: true,
         },
       });
       if (!agent || !agent.isActive) return;
 
       // If it's a voice-only message, transcribe it
+      let voiceMetadata: Prisma.InputJsonObject | undefined;
       if (isVoice) {
         if (!this.openai || !this.openaiEnabled) {
           await this.safeSendText(socket, senderJid, 'Voice features are disabled (missing OPENAI_API_KEY).');
           return;
         }
         const audioBuf = await this.downloadAudioBuffer(audioMessage!);
-        const transcript = await this.transcribeAudio(audioBuf, audioMessage!.mimetype || 'audio/ogg');
+        const audioMime = audioMessage!.mimetype || 'audio/ogg';
+        const transcript = await this.transcribeAudio(audioBuf, audioMime, agent.ttsLanguage);
         incomingText = transcript?.trim();
+        voiceMetadata = {
+          voice: {
+            transcript: incomingText ?? null,
+            mimetype: audioMime,
+            seconds: typeof audioMessage!.seconds === 'number' ? audioMessage!.seconds : null,
+            language: agent.ttsLanguage ?? null,
+            model: this.openaiTranscribeModel,
+          },
+        };
+      }
+
+      // If it's an image/document and extraction is on, read it and fold the result into the turn
+      let mediaMetadata: Prisma.InputJsonObject | undefined;
+      if (
+        visualMedia &&
+        agent.isImageDataExtraction &&
+        this.mediaExtraction.isEnabled &&
+        this.mediaExtraction.isSupported(visualMedia.mimetype)
+      ) {
+        try {
+          const mediaBuf = await this.downloadMediaBuffer(visualMedia.message, visualMedia.kind);
+          const extraction = await this.mediaExtraction.extract(mediaBuf, visualMedia.mimetype, {
+            filename: visualMedia.filename,
+            caption: visualMedia.caption,
+          });
+          if (extraction) {
+            const caption = visualMedia.caption?.trim();
+            incomingText = [
+              caption || `(Customer sent a ${visualMedia.kind} without a caption)`,
+              `[Content of the ${visualMedia.kind}, read automatically]`,
+              this.mediaExtraction.toPromptText(extraction),
+            ].join('\n\n');
+            mediaMetadata = {
+              media: {
+                type: visualMedia.kind,
+                mimetype: visualMedia.mimetype,
+                filename: visualMedia.filename ?? null,
+                caption: caption ?? null,
+              },
+              extraction: {
+                kind: extraction.kind,
+                summary: extraction.summary,
+                fields: extraction.fields,
+                text: extraction.text ?? null,
+                model: extraction.model,
+              },
+            };
+          }
+        } catch {
+          // Extraction failed — fall back to the caption (if any)
+        }
       }
 
       // If no usable text after extraction/transcription, do nothing
@@ -80,9 +152,35 @@ export class MessageHandlerService {
           senderJid,
           message: incomingText,
           senderType: SenderType.HUMAN,
+          ...(mediaMetadata || voiceMetadata ? { metadata: { ...mediaMetadata, ...voiceMetadata } } : {}),
         },
       });
 
+      // A reply to a broadcast marks the outbound lead ANSWERED (even when a human has taken over)
+      const outboundReply = await recordOutboundReply(this.prisma, {
+        agentId: agent.id,
+        jids: [rawSenderJid, senderJid, msg.key.remoteJidAlt],
+      }).catch(() => null);
+
+      // STOP / UNSUBSCRIBE (or a localized variant) opts the sender out of every agent of the owner,
+      // even when a human has taken over
+      const optOut = await this.suppressions
+        .handleOptOut(agent.id, [msg.key.remoteJidAlt, rawSenderJid, senderJid], incomingText)
+        .catch(() => null);
+      if (optOut) {
+        await this.prisma.conversation.create({
+          data: {
+            agentId: agent.id,
+            senderJid,
+            message: optOut.text,
+            senderType: SenderType.AI,
+            metadata: { optOut: { phoneNumber: optOut.phoneNumber } },
+          },
+        });
+        await this.safeSendText(socket, senderJid, optOut.text);
+        return;
+      }
+
       // Check if AI is paused for this user (human intervention mode)
       const isPaused = await this.isAIPausedForUser(agentId, senderJid);
       if (isPaused) {
@@ -90,17 +188,58 @@ export class MessageHandlerService {
         return;
       }
 
+      // "confirm" / "cancel" answering an appointment reminder is handled without the agent
+      const reminderReply = await this.appointmentReminders.handleReply(agent.id, senderJid, incomingText);
+      if (reminderReply) {
+        await this.prisma.conversation.create({
+          data: {
+            agentId: agent.id,
+            senderJid,
+            message: reminderReply.text,
+            senderType: SenderType.AI,
+            metadata: {
+              reminderReply: {
+                action: reminderReply.action,
+                appointmentId: reminderReply.appointmentId,
+                reminderId: reminderReply.reminderId,
+              },
+            },
+          },
+        });
+        await this.safeSendText(socket, senderJid, reminderReply.text);
+        return;
+      }
+
       const historyLimit = this.clampHistoryLimit(agent.historyLimit);
+      const useSummary = agent.memoryType === MemoryType.SUMMARY;
+      const useKnowledge = agent.memoryType === MemoryType.KNOWLEDGE_BASE;
       const history: BaseMessage[] =
-        agent.memoryType === MemoryType.BUFFER
+        agent.memoryType === MemoryType.BUFFER || useSummary || useKnowledge
           ? await this.loadHistoryAsLCMsgs(agent.id, senderJid, historyLimit)
           : [];
 
+      const context: AgentRunContext = {};
+      if (outboundReply?.injectContext) {
+        context.outboundCampaign = outboundReply;
+      }
+      if (useSummary) {
+        context.conversationSummary = await this.summaryMemory.getSummary(agent.id, senderJid);
+      }
+      if (useKnowledge) {
+        const bufferStart = await this.findBufferStart(agent.id, senderJid, historyLimit);
+        context.relevantExchanges = await this.knowledgeMemory.recall(
+          agent.id,
+          senderJid,
+          incomingText,
+          bufferStart ?? undefined,
+        );
+      }
+
       // Run the agent with history (pass senderJid for lead capture)
-      const aiText = await this.runAgent.runAgent(incomingText, history, null, agent.id, senderJid);
+      const aiText = await this.runAgent.runAgent(incomingText, history, null, agent.id, senderJid, context);
 
       // Persist AI message
-      await this.prisma.conversation.create({
+      const aiRow = await this.prisma.conversation.create({
         data: {
           agentId: agent.id,
           senderJid,
@@ -112,11 +251,38 @@ export class MessageHandlerService {
       // Send back text
       await this.safeSendText(socket, senderJid, aiText);
 
-      // If original was voice and TTS is available, synthesize and send audio reply
-      if (isVoice && this.openai && this.openaiEnabled) {
+      // Fold turns that left the buffer window into the rolling summary (background)
+      if (useSummary) {
+        void this.summaryMemory.refreshSummary(agent.id, senderJid, historyLimit);
+      }
+
+      // Embed this exchange for later recall (background)
+      if (useKnowledge) {
+        void this.knowledgeMemory.remember(agent.id, senderJid, { message: incomingText }, aiRow);
+      }
+
+      // Voice reply: gated by the agent flag; ALWAYS, or MIRROR only when the customer sent voice
+      const wantsVoiceReply =
+        agent.isVoiceResponseAvailable && (agent.voiceReplyMode === VoiceReplyMode.ALWAYS || isVoice);
+      if (wantsVoiceReply && this.openai && this.openaiEnabled) {
         try {
-          const { audio: ttsBuf, mimetype, ptt } = await this.synthesizeSpeech(aiText);
+          const voice = agent.ttsVoice || this.openaiTtsVoice;
+          const { audio: ttsBuf, mimetype, ptt } = await this.synthesizeSpeech(aiText, voice, agent.ttsLanguage);
           await socket.sendMessage(senderJid, { audio: ttsBuf, mimetype, ptt });
+          await this.prisma.conversation.update({
+            where: { id: aiRow.id },
+            data: {
+              metadata: {
+                voiceReply: {
+                  transcript: aiText,
+                  voice,
+                  language: agent.ttsLanguage ?? null,
+                  mimetype,
+                  model: this.openaiTtsModel,
+                },
+              },
+            },
+          });
         } catch {
           // TTS failed — text was already sent
         }
@@ -183,6 +349,45 @@ export class MessageHandlerService {
     return container?.audioMessage || null;
   }
 
+  /** Find an image or document (incl. captioned documents) inside possible containers. */
+  private extractVisualMedia(msg: WAMessage): {
+    kind: 'image' | 'document';
+    message: any;
+    mimetype: string;
+    filename: string | null;
+    caption: string | null;
+  } | null {
+    const container =
+      (msg.message as any)?.ephemeralMessage?.message ||
+      (msg.message as any)?.viewOnceMessageV2?.message ||
+      (msg.message as any);
+    if (!container) return null;
+
+    if (container.imageMessage) {
+      const m = container.imageMessage;
+      return {
+        kind: 'image',
+        message: m,
+        mimetype: m.mimetype || 'image/jpeg',
+        filename: null,
+        caption: m.caption || null,
+      };
+    }
+
+    const doc = container.documentMessage || container.documentWithCaptionMessage?.message?.documentMessage;
+    if (doc) {
+      return {
+        kind: 'document',
+        message: doc,
+        mimetype: doc.mimetype || 'application/octet-stream',
+        filename: doc.fileName || null,
+        caption: doc.caption || null,
+      };
+    }
+
+    return null;
+  }
+
   /** Load last N messages and convert to LangChain BaseMessages (oldest -> newest). */
   private async loadHistoryAsLCMsgs(agentId: string, senderJid: string, limit: number): Promise<BaseMessage[]> {
     const rows = await this.prisma.conversation.findMany({
@@ -205,6 +410,17 @@ export class MessageHandlerService {
     return lc;
   }
 
+  /** createdAt of the oldest row inside the last-N buffer window (null if the thread is shorter). */
+  private async findBufferStart(agentId: string, senderJid: string, limit: number): Promise<Date | null> {
+    const row = await this.prisma.conversation.findFirst({
+      where: { agentId, senderJid },
+      orderBy: { createdAt: 'desc' },
+      skip: limit - 1,
+      select: { createdAt: true },
+    });
+    return row?.createdAt ?? null;
+  }
+
   /** Show typing indicator while running */
   private async sendTyping(socket: WASocket, jid: string): Promise<void> {
     try {
@@ -251,8 +467,18 @@ export class MessageHandlerService {
     return Buffer.concat(chunks);
   }
 
-  /** Transcribe user audio to text with OpenAI. */
-  private async transcribeAudio(buffer: Buffer, mime: string): Promise<string> {
+  /** Download image/document media as Buffer using Baileys helper. */
+  private async downloadMediaBuffer(mediaMessage: any, kind: 'image' | 'document'): Promise<Buffer> {
+    const stream = await downloadContentFromMessage(mediaMessage, kind);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /** Transcribe user audio to text with OpenAI (language hint = agent ttsLanguage). */
+  private async transcribeAudio(buffer: Buffer, mime: string, language?: string | null): Promise<string> {
     if (!this.openai) return '(transcription unavailable)';
     const filename = mime.includes('mpeg') ? 'audio.mp3' : 'audio.ogg';
     const file = await toFile(buffer, filename, { type: mime || 'audio/ogg' });
@@ -260,6 +486,7 @@ export class MessageHandlerService {
     const res = await this.openai.audio.transcriptions.create({
       file,
       model: this.openaiTranscribeModel, // 'whisper-1' or 'gpt-4o-transcribe'
+      ...(language ? { language } : {}),
     });
     const text = (res as any)?.text || '';
     return text.trim() || '(empty transcription)';
@@ -267,17 +494,35 @@ export class MessageHandlerService {
 
   /**
    * TTS via OpenAI.
-   * NOTE: SDK returns MP3 by default. WhatsApp will show it as a normal audio file (not PTT bubble).
+   * Requests Opus-in-Ogg so WhatsApp renders it as a PTT voice-note bubble.
+   * Language steering uses `instructions`, which tts-1 / tts-1-hd do not support.
    */
-  private async synthesizeSpeech(text: string): Promise<{ audio: Buffer; mimetype: string; ptt: boolean }> {
+  private async synthesizeSpeech(
+    text: string,
+    voice: string,
+    language?: string | null,
+  ): Promise<{ audio: Buffer; mimetype: string; ptt: boolean }> {
     if (!this.openai) throw new Error('OpenAI not configured');
+    const supportsInstructions = !this.openaiTtsModel.startsWith('tts-1');
+    const languageName = language ? this.languageName(language) : null;
     const speech = await this.openai.audio.speech.create({
       model: this.openaiTtsModel,
-      voice: this.openaiTtsVoice,
+      voice,
       input: text,
+      response_format: 'opus',
+      ...(supportsInstructions && languageName ? { instructions: `Speak in ${languageName}.` } : {}),
     });
     const buf = Buffer.from(await (speech as any).arrayBuffer());
-    return { audio: buf, mimetype: 'audio/mpeg', ptt: false };
+    return { audio: buf, mimetype: 'audio/ogg; codecs=opus', ptt: true };
+  }
+
+  /** ISO-639-1 code -> English language name ("bn" -> "Bangla"). */
+  private languageName(code: string): string {
+    try {
+      return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code;
+    } catch {
+      return code;
+    }
   }
 
   /* ---------------------------- Pause helpers ---------------------------- */
@@ -1,25 +1,41 @@
-// Deps: npm i googleapis luxon @langchain/openai zod
-import { Injectable, Logger } from '@nestjs/common';
+// Deps: npm i googleapis luxon @langchain/openai @langchain/anthropic @langchain/google-genai zod
+import { HttpException, Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from 'src/prisma/prisma.service';
 
-import { ChatOpenAI } from '@langchain/openai';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { ChatPromptTemplate, MessagesPlaceholder } from '@langchain/core/prompts';
 import { BaseMessage } from '@langchain/core/messages';
-import { AgentExecutor, createOpenAIToolsAgent } from 'langchain/agents';
+import { AgentExecutor, createToolCallingAgent } from 'langchain/agents';
 import { DynamicTool, type ToolInterface } from '@langchain/core/tools';
 
 import { Agent, LeadItem, BookingSettings } from '@prisma/client';
 import { createDynamicDataCollectionTool } from './tools/add-lead.toll';
 import { buildAppointmentTools } from './tools/appointment.tools';
+import { createSendEmailTool } from './tools/send-email.tool';
+import { createChatModel } from './llm/chat-model.factory';
 
 import { KnowledgebaseService } from 'src/agentModules/knowledgebase/knowledgebase.service';
 import type { KnowledgeSearchMatch } from 'src/agentModules/knowledgebase/interface/knowledgebase.interface';
+import { EmailService } from 'src/agentModules/email/email.service';
+import { BookingNotificationService } from 'src/agentModules/email/notifications/booking-notification.service';
+import { AppointmentService } from 'src/agentModules/appointment/appointment.service';
+import type { OutboundReplyContext } from 'src/agentModules/outbound/outbound-lead/outbound-reply';
 
 interface AgentWithLeadItems extends Agent {
   leadItems: LeadItem[];
   bookingSettings: BookingSettings | null;
 }
 
+/** Extra per-turn context supplied by the caller (memory, etc.). */
+export interface AgentRunContext {
+  /** Rolling summary of older turns in this thread (MemoryType.SUMMARY) */
+  conversationSummary?: string | null;
+  /** Relevant earlier exchanges with this sender (MemoryType.KNOWLEDGE_BASE) */
+  relevantExchanges?: string[];
+  /** The sender is replying to this outbound campaign's broadcast */
+  outboundCampaign?: OutboundReplyContext | null;
+}
+
 interface CompactKBResult {
   rank: number;
   text: string;
@@ -41,6 +57,9 @@ export class RunAgentService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly kb: KnowledgebaseService,
+    private readonly emailService: EmailService,
+    private readonly bookingNotifications: BookingNotificationService,
+    private readonly appointments: AppointmentService,
   ) { }
 
   /**
@@ -52,6 +71,7 @@ export class RunAgentService {
     systemPrompt: string | null,
     agentId: string,
     senderJid?: string,
+    context?: AgentRunContext,
   ): Promise<string> {
     try {
       this.logger.log(`[runAgent] agentId=${agentId}`);
@@ -65,12 +85,21 @@ export class RunAgentService {
       this.logger.log(`[runAgent] tz=${timezone}`);
       this.logger.log(`[runAgent] isLeadsActive=${agentRecord.isLeadsActive}, leadItems=${agentRecord.leadItems?.length ?? 0}`);
 
-      // Initialize LLM
-      const llm = new ChatOpenAI({
-        apiKey: process.env.OPENAI_API_KEY,
-        modelName: 'gpt-4o',
-        temperature: 0,
-      });
+      // Initialize LLM from the agent's provider/model/key settings
+      let llm: BaseChatModel;
+      try {
+        const resolved = createChatModel(agentRecord, { temperature: 0 });
+        llm = resolved.llm;
+        this.logger.log(
+          `[runAgent] provider=${resolved.provider}, model=${resolved.model}`,
+        );
+      } catch (error: any) {
+        if (error instanceof HttpException) {
+          this.logger.error(`[runAgent] LLM unavailable: ${error.message}`);
+          return `Error: ${error.message}`;
+        }
+        throw error;
+      }
 
       // Build tools array (pass senderJid for lead capture)
       const tools = await this.buildTools(agentRecord, agentId, senderJid);
@@ -83,6 +112,7 @@ export class RunAgentService {
         systemPrompt || agentRecord.prompt,
         timezone,
         agentRecord,
+        context,
       );
 
       if (tools.length > 0) {
@@ -110,7 +140,7 @@ export class RunAgentService {
       return (await this.prisma.agent.findUnique({
         where: { id: agentId },
         include: {
-          leadItems: true,
+          leadItems: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] },
           bookingSettings: true,
         },
       })) as AgentWithLeadItems | null;
@@ -149,10 +179,24 @@ export class RunAgentService {
         prisma: this.prisma,
         logger: this.logger,
         agentId,
+        notifications: this.bookingNotifications,
+        senderJid,
+        appointments: this.appointments,
       });
       tools.push(...(apptTools as unknown as ToolInterface[]));
     }
 
+    // 4. Email tool (conditional)
+    if (agentRecord.isEmailActive) {
+      tools.push(
+        createSendEmailTool({
+          emailService: this.emailService,
+          agentId,
+          logger: this.logger,
+        }) as unknown as ToolInterface,
+      );
+    }
+
     this.logger.log(`[buildTools] ${tools.length} tools enabled: ${tools.map(t => t.name).join(', ')}`);
     return tools;
   }
@@ -275,6 +319,7 @@ export class RunAgentService {
     basePrompt: string | null,
     timezone: string,
     agentRecord: AgentWithLeadItems,
+    context?: AgentRunContext,
   ): string {
     const base = basePrompt || 'You are a helpful assistant.';
 
@@ -292,7 +337,9 @@ export class RunAgentService {
         '\n# Leads',
         'Call "collect_information" tool to gather lead data from user',
         'Ask for each field one by one in a conversational manner',
-        'Only call the tool when you have collected ALL required information',
+        'You may call the tool with partial information; it saves what you have and lists what is still missing',
+        'Keep asking until the tool reports nothing is missing',
+        'If the tool reports an invalid answer (e.g. email or phone), ask the user for that field again',
       );
     } else {
       // IMPORTANT: Explicitly tell AI not to collect leads when feature is disabled
@@ -319,21 +366,85 @@ export class RunAgentService {
         '- After user picks a date, call "get_available_time" WITH {{"day":"YYYY-MM-DD"}}',
         '- Present the time slots and ask user to choose one',
         '',
-        'STEP 3: Book the Appointment',
+        'STEP 3: Collect Intake Details (if "get_appointment_intake_fields" is available)',
+        '- Call "get_appointment_intake_fields" and ask the user for EVERY field it returns',
+        '- Pass the answers as "intakeAnswers" keyed by field name; booking is refused while any are missing',
+        '',
+        'STEP 4: Book the Appointment',
         '- Once the user selects a time, IMMEDIATELY call "book_appointment_tool"',
         '- CRITICAL: You MUST call the tool with a flattened JSON object:',
         '  {{"startUtc":"...","endUtc":"..."}}',
         '- DO NOT just tell the user the appointment is booked - you MUST call the tool!',
         '- After calling, the tool will return confirmation',
         '- Then tell the user their appointment is successfully booked',
+        '- If it returns "slot_just_taken", apologise that the slot was just taken and offer its "alternatives"',
         '',
         'NEVER say "I cannot book" or "there was an error" without actually calling the tool first!',
+        '',
+        'Changing an existing appointment:',
+        '- Call "get_my_appointments" to find the customer\'s upcoming bookings and confirm which one they mean',
+        '- To cancel, call "cancel_my_appointment" with {{"appointmentId":"..."}}',
+        '- To move it, find a free slot with "get_available_time", then call "reschedule_my_appointment" with {{"appointmentId":"...","startUtc":"...","endUtc":"..."}}',
+        '- If the tool returns "slot_not_available", offer other slots',
+      );
+    }
+
+    // Add email instructions if enabled
+    if (agentRecord.isEmailActive) {
+      sections.push(
+        '\n# Email',
+        'You can send emails with the "send_email" tool when the user asks for something by email.',
+        'Ask for and confirm the email address first; never guess it.',
+        'Tell the user whether the email was sent based on the tool result.',
+      );
+    }
+
+    // Add outbound campaign context (the customer is answering our broadcast)
+    if (context?.outboundCampaign) {
+      const c = context.outboundCampaign;
+      const customFields =
+        c.customFields && typeof c.customFields === 'object' && !Array.isArray(c.customFields)
+          ? Object.entries(c.customFields).map(([k, v]) => `- ${k}: ${typeof v === 'string' ? v : JSON.stringify(v)}`)
+          : [];
+      sections.push(
+        '\n# Outbound Campaign',
+        `You messaged this customer first, in the campaign "${this.escapePromptBraces(c.campaignName)}"; they are replying to it.`,
+        'Continue that conversation: answer their reply in the light of the message you sent.',
+        ...(c.firstName ? [`Customer name: ${this.escapePromptBraces(c.firstName)}`] : []),
+        ...(c.templateText ? ['Message you sent (template):', this.escapePromptBraces(c.templateText)] : []),
+        ...(customFields.length ? ['Details on file:', ...customFields.map((l) => this.escapePromptBraces(l))] : []),
+      );
+    }
+
+    // Add memory context (summary of older turns)
+    if (context?.conversationSummary) {
+      sections.push(
+        '\n# Conversation Summary (earlier messages)',
+        this.escapePromptBraces(context.conversationSummary),
+      );
+    }
+
+    // Add recalled exchanges from conversation memory
+    if (context?.relevantExchanges?.length) {
+      sections.push(
+        '\n# Relevant Earlier Exchanges (same customer)',
+        'Use these only as background; the recent chat history takes priority.',
+        ...context.relevantExchanges.map(
+          (e, i) => `[${i + 1}]\n${this.escapePromptBraces(e)}`,
+        ),
       );
     }
 
     return base + '\n\n' + sections.join('\n');
   }
 
+  /**
+   * Escape literal braces so injected text is not parsed as template variables
+   */
+  private escapePromptBraces(text: string): string {
+    return text.replace(/{/g, '{{').replace(/}/g, '}}');
+  }
+
   /**
    * Optimize chat history to reduce token usage
    * Keep only recent messages and system context
@@ -359,7 +470,7 @@ export class RunAgentService {
     input: string,
     chat_history: BaseMessage[],
     system: string,
-    llm: ChatOpenAI,
+    llm: BaseChatModel,
     tools: ToolInterface[],
   ): Promise<string> {
     try {
@@ -370,7 +481,7 @@ export class RunAgentService {
         new MessagesPlaceholder('agent_scratchpad'),
       ]);
 
-      const agent = await createOpenAIToolsAgent({ llm, tools, prompt });
+      const agent = await createToolCallingAgent({ llm, tools, prompt });
 
       const agentExecutor = new AgentExecutor({
         agent,
@@ -396,7 +507,7 @@ export class RunAgentService {
     input: string,
     chat_history: BaseMessage[],
     system: string,
-    llm: ChatOpenAI,
+    llm: BaseChatModel,
   ): Promise<string> {
     try {
       const prompt = ChatPromptTemplate.fromMessages([
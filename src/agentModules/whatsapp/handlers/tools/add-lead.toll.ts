@@ -1,28 +1,21 @@
 import { DynamicTool } from '@langchain/core/tools';
 import { Logger } from '@nestjs/common';
-import { Prisma } from '@prisma/client';
-import { z, ZodTypeAny } from 'zod';
+import { LeadItem } from '@prisma/client';
 import { PrismaService } from 'src/prisma/prisma.service';
-
-// WORKAROUND: Define a local interface for DynamicField.
-// This resolves TypeScript errors if the Prisma client has not been generated yet.
-// The real solution is to run `npx prisma generate` in your terminal. After that,
-// you can remove this interface and use: `import { DynamicField } from '@prisma/client';`
-interface DynamicField {
-  id: string;
-  name: string;
-  description: string;
-  agentId: string;
-  createdAt: Date;
-  updatedAt: Date;
-}
+import { captureLead } from 'src/agentModules/lead/lead-merge';
+import {
+  buildLeadToolSchema,
+  leadFieldFormatHint,
+  requiredLeadFieldNames,
+  validateLeadData,
+} from 'src/agentModules/lead-Item/schema/lead-field-value.schema';
 
 interface CreateDataCollectionToolParams {
   prisma: PrismaService;
   agentId: string;
   logger: Logger;
-  /** The dynamic fields from the database that define the questions to ask. */
-  fields: DynamicField[];
+  /** The agent's LeadItems (in asking order) that define the questions and their types. */
+  fields: LeadItem[];
   /** WhatsApp phone number of the user who is submitting this lead */
   senderPhone?: string;
 }
@@ -41,17 +34,13 @@ export function createDynamicDataCollectionTool({
   try {
     const toolName = 'collect_information';
 
-    // 1. Dynamically build the Zod schema from the database fields
-    const shape: { [key: string]: ZodTypeAny } = {};
-    for (const field of fields) {
-      // The `description` from your DB is now the prompt for the AI.
-      shape[field.name] = z.string().describe(field.description);
-    }
-    const dynamicSchema = z.object(shape);
+    // 1. Build the tool schema from the LeadItem types; every field is optional
+    //    so known answers can be saved before the rest are collected.
+    const dynamicSchema = buildLeadToolSchema(fields);
 
     // 2. Dynamically build the tool's description for the AI
     const fieldDescriptions = fields
-      .map(field => `- ${field.name}: ${field.description}`)
+      .map(field => `- ${field.name}${field.required ? '' : ' (optional)'}: ${field.description} — ${leadFieldFormatHint(field)}`)
       .join('\n');
 
     const toolDescription = `Use this tool to collect specific information from the user.
@@ -63,7 +52,9 @@ IMPORTANT:
 - You must ask the user for each item listed above.
 - Ask for the information step-by-step in a natural, conversational way.
 - DO NOT make up any values. You must get all details directly from the user.
-- DO NOT call this tool until you have gathered all the required pieces of information.`;
+- You may call this tool with only the items you know so far; it saves them and tells you which items are still missing.
+- If the tool says an answer is invalid (e.g. an email or phone number), ask the user for that item again.
+- Details given again (e.g. by a returning customer) update the existing record; they never create a duplicate.`;
 
     const tool = new DynamicTool({
       name: toolName,
@@ -78,22 +69,36 @@ IMPORTANT:
             return `I am sorry, but I am missing some information. I still need to know the following: ${missingFields}. Could you please provide that?`;
           }
 
-          const validatedData = validationResult.data;
+          // Typed values for the answers given so far; invalid ones are asked again
+          const { values: validatedData, invalid } = validateLeadData(fields, validationResult.data);
+          const invalidText = Object.entries(invalid)
+            .map(([name, reason]) => `${name} (${reason})`)
+            .join(', ');
+          if (!Object.keys(validatedData).length) {
+            if (invalidText) {
+              return `These answers are invalid: ${invalidText}. Please ask the user for them again.`;
+            }
+            return `No information was provided yet. Please ask the user for: ${fields.map((f) => f.name).join(', ')}.`;
+          }
           logger.log(`Input validated. Saving collected data for agent ${agentId}.`, validatedData);
 
-          // 3. Save the dynamically collected data into the Lead model's JSON field
-          const lead = await prisma.lead.create({
-            data: {
-              agentId,
-              status: 'NEW',
-              source: 'AI Dynamic Form',
-              senderPhone: senderPhone || null,
-              data: validatedData as Prisma.JsonObject,
-            },
+          // 3. Upsert by contact: a returning customer's lead is updated, not duplicated
+          const { lead, created, missing } = await captureLead(prisma, {
+            agentId,
+            senderPhone: senderPhone || null,
+            data: validatedData,
+            requiredFields: requiredLeadFieldNames(fields),
+            source: 'AI Dynamic Form',
           });
 
-          logger.log(`Successfully created lead ${lead.id} with dynamic data.`);
+          logger.log(`${created ? 'Created' : 'Updated'} lead ${lead.id} with dynamic data (missing: ${missing.length}).`);
 
+          if (invalidText) {
+            return `Saved the valid answers, but these are invalid: ${invalidText}. Please ask the user for them again${missing.length ? ` (still missing: ${missing.join(', ')})` : ''}.`;
+          }
+          if (missing.length) {
+            return `Saved. I still need the following: ${missing.join(', ')}. Please ask the user for them, then call this tool again with the new answers.`;
+          }
           return `✅ Success! Thank you. I have recorded the information. Is there anything else I can help you with?`;
 
         } catch (error) {
@@ -1,15 +1,18 @@
 // Deps: npm i googleapis luxon
 import { Logger } from '@nestjs/common';
 import { DynamicTool } from '@langchain/core/tools';
+import { DateTime } from 'luxon';
 import { AppointmentLeadItem } from '@prisma/client';
 import { PrismaService } from 'src/prisma/prisma.service';
+import type { BookingNotificationService } from 'src/agentModules/email/notifications/booking-notification.service';
+import type { AppointmentService } from 'src/agentModules/appointment/appointment.service';
 
 import {
   createBookAppointmentTool,
   createGetAvailableTimeTool,
-  getOAuth2Client,
-  pickCalendarConnection,
-  validateCalendarConnection,
+  connectCalendarPool,
+  createManageAppointmentTools,
+  getBookingRules,
 } from './google-calendar';
 
 const TOOL_DEBUG = process.env.TOOL_DEBUG === '1';
@@ -18,12 +21,20 @@ type BuildArgs = {
   prisma: PrismaService;
   logger: Logger;
   agentId: string;
+  notifications?: BookingNotificationService;
+  /** WhatsApp chat the tools act for (stored on booked appointments) */
+  senderJid?: string;
+  /** Enables the cancel/reschedule-my-appointment tools (needs senderJid) */
+  appointments?: AppointmentService;
 };
 
 export async function buildAppointmentTools({
   prisma,
   logger,
   agentId,
+  notifications,
+  senderJid,
+  appointments,
 }: BuildArgs): Promise<DynamicTool[]> {
   // Pull everything we need in one go
   const agent = await prisma.agent.findUnique({
@@ -35,6 +46,10 @@ export async function buildAppointmentTools({
         include: { calendarConnection: true },
       },
       appointmentLeadItems: true,
+      availabilityOverrides: {
+        // Past dates never matter (one day of slack for timezones behind UTC)
+        where: { date: { gte: DateTime.utc().minus({ days: 1 }).toISODate() } },
+      },
     },
   });
 
@@ -53,71 +68,88 @@ export async function buildAppointmentTools({
     return [];
   }
 
-  const picked = pickCalendarConnection(agent);
-  if (!picked) {
-    logger.error(`[appointment.tools] No calendar connection/calendarId assigned to agent`);
-    return [];
-  }
-
-  const validation = validateCalendarConnection(picked.conn, logger);
-  if (!validation.ok) {
+  // Every assigned calendar is validated and connected (provider follows
+  // CalendarConnection.provider; tokens refreshed + persisted). The routing
+  // strategy from BookingSettings decides how free/busy is merged. Agents
+  // without an assigned calendar book against the internal ledger (Postgres only).
+  const calendars = await connectCalendarPool({ agent, prisma, logger });
+  if (!calendars) {
     logger.error(
-      `[appointment.tools] CalendarConnection invalid -> tools disabled. Fatal=[${validation.fatalIssues.join(
-        ', ',
-      )}]`,
+      `[appointment.tools] No usable calendar for strategy ${agent.bookingSettings.calendarStrategy}; tools disabled`,
     );
     return [];
   }
 
-  // Ensure we have a live access token (refresh if needed) and persist it
-  let auth;
-  try {
-    auth = await getOAuth2Client(picked.conn, prisma, logger);
-  } catch {
-    logger.error(`[appointment.tools] could not refresh Google tokens; tools disabled`);
-    return [];
-  }
-  const calendarId = picked.calendarId;
-
   const tz = agent.bookingSettings.timezone || 'UTC';
   const slotMin = agent.bookingSettings.appointmentSlot || 15;
+  const rules = getBookingRules(agent.bookingSettings);
 
-  // 1) Appointment intake schema (AppointmentLeadItem)
-  // const getAppointmentIntakeFields = new DynamicTool({
-  //   name: 'get_appointment_intake_fields',
-  //   description:
-  //     'Return the list of data fields that must be collected from the user BEFORE booking an appointment (these are AppointmentLeadItem for this agent).',
-  //   func: async () => {
-  //     const fields = (agent.appointmentLeadItems || []).map((f: AppointmentLeadItem) => ({
-  //       name: f.name,
-  //       hint: f.description ?? '',
-  //     }));
-  //     return JSON.stringify({ fields });
-  //   },
-  // });
+  // 1) Appointment intake schema (AppointmentLeadItem) — required before booking
+  const intakeFields: AppointmentLeadItem[] = agent.appointmentLeadItems || [];
+  const getAppointmentIntakeFields = new DynamicTool({
+    name: 'get_appointment_intake_fields',
+    description:
+      'Return the list of data fields that must be collected from the user BEFORE booking an appointment (these are AppointmentLeadItem for this agent). All of them are required.',
+    func: () => {
+      const fields = intakeFields.map((f) => ({
+        name: f.name,
+        hint: f.description ?? '',
+        required: true,
+      }));
+      return Promise.resolve(JSON.stringify({ fields }));
+    },
+  });
 
   // 2) Get available time
   const getAvailableTime = createGetAvailableTimeTool({
-    agent: agent as any, // casting to avoid strict type mismatch if partial
-    auth,
-    calendarId,
+    agent,
+    calendars,
     tz,
     slotMin,
     logger,
+    prisma,
+    senderJid,
   });
 
   // 3) Book appointment
   const bookAppointmentTool = createBookAppointmentTool({
     agentId,
-    auth,
-    calendarId,
+    calendars,
     tz,
     slotMin,
     logger,
     prisma,
+    notifications,
+    appointments,
+    senderJid,
+    intakeFields,
+    weekly: agent.weeklyAvailabilities,
+    overrides: agent.availabilityOverrides,
+    rules,
   });
 
-  // Expose in a helpful order: schema → availability → booking
-  // return [getAppointmentIntakeFields, getAvailableTime, bookAppointmentTool];
-  return [getAvailableTime, bookAppointmentTool];
+  // 4) Manage the sender's own bookings (list / cancel / reschedule)
+  const manageTools =
+    appointments && senderJid
+      ? createManageAppointmentTools({
+          agentId,
+          senderJid,
+          tz,
+          logger,
+          prisma,
+          appointments,
+          calendars,
+          weekly: agent.weeklyAvailabilities,
+          overrides: agent.availabilityOverrides,
+          rules,
+        })
+      : [];
+
+  // Expose in a helpful order: schema → availability → booking → manage
+  return [
+    ...(intakeFields.length ? [getAppointmentIntakeFields] : []),
+    getAvailableTime,
+    bookAppointmentTool,
+    ...manageTools,
+  ];
 }
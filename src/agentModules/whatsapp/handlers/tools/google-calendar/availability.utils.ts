@@ -1,5 +1,6 @@
 import { DateTime, Interval } from 'luxon';
-import { WeeklyAvailability } from '@prisma/client';
+import { AppointmentStatus, AvailabilityOverride, WeeklyAvailability } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
 
 const TOOL_DEBUG = process.env.TOOL_DEBUG === '1';
 
@@ -124,3 +125,230 @@ export function filterSlotsByBusy(
         logger.log(`[filterSlotsByBusy] input=${slots.length} busy=${busy.length} free=${free.length}`);
     return free;
 }
+
+// ---------- Booking rules (BookingSettings + AvailabilityOverride) ----------
+
+export type BookingRules = {
+    allowSameDayBooking: boolean;
+    bufferBeforeMin: number;
+    bufferAfterMin: number;
+    minNoticeHours: number;
+    maxDaysAhead: number;
+    /** null = no daily cap */
+    maxAppointmentsPerDay: number | null;
+};
+
+export function getBookingRules(settings: Partial<BookingRules> | null | undefined): BookingRules {
+    return {
+        allowSameDayBooking: settings?.allowSameDayBooking ?? true,
+        bufferBeforeMin: settings?.bufferBeforeMin ?? 0,
+        bufferAfterMin: settings?.bufferAfterMin ?? 0,
+        minNoticeHours: settings?.minNoticeHours ?? 0,
+        maxDaysAhead: settings?.maxDaysAhead ?? 14,
+        maxAppointmentsPerDay: settings?.maxAppointmentsPerDay ?? null,
+    };
+}
+
+type TimeBlock = { startTime: string; endTime: string };
+
+function toMinutes(hhmm: string): number {
+    const [h, m] = hhmm.split(':').map(Number);
+    return h * 60 + m;
+}
+
+/**
+ * Opening hours ("HH:MM" blocks) for one date: the weekday's WeeklyAvailability,
+ * unless an override closes the date; override windows are always added.
+ */
+export function getDayBlocks(
+    weekly: WeeklyAvailability[],
+    overrides: AvailabilityOverride[],
+    dayISO: string,
+    zone: string,
+): TimeBlock[] {
+    const dowIdx = DateTime.fromISO(dayISO, { zone }).weekday % 7;
+    const forDay = (overrides ?? []).filter((o) => o.date === dayISO);
+    const closed = forDay.some((o) => o.isClosed);
+
+    const blocks: TimeBlock[] = closed
+        ? []
+        : weekly
+              .filter((w) => DOW.indexOf(String(w.dayOfWeek)) === dowIdx)
+              .map((w) => ({ startTime: w.startTime, endTime: w.endTime }));
+
+    for (const o of forDay) {
+        if (!o.isClosed && o.startTime && o.endTime) {
+            blocks.push({ startTime: o.startTime, endTime: o.endTime });
+        }
+    }
+    return blocks.sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime));
+}
+
+/** Back-to-back slots of `slotMin` inside each block of a single date */
+export function generateDaySlots(blocks: TimeBlock[], dayISO: string, slotMin: number, zone: string) {
+    const day = DateTime.fromISO(dayISO, { zone }).startOf('day');
+    const seen = new Set<string>();
+    const slots: { startUtc: string; endUtc: string; localStart: string; localEnd: string }[] = [];
+
+    for (const block of blocks) {
+        let cursor = day.plus({ minutes: toMinutes(block.startTime) });
+        const blockEnd = day.plus({ minutes: toMinutes(block.endTime) });
+
+        while (cursor.plus({ minutes: slotMin }) <= blockEnd) {
+            const end = cursor.plus({ minutes: slotMin });
+            const startUtc = cursor.toUTC().toISO() ?? '';
+            // Overlapping weekly + override blocks must not produce duplicates
+            if (!seen.has(startUtc)) {
+                seen.add(startUtc);
+                slots.push({
+                    localStart: cursor.toISO() ?? '',
+                    localEnd: end.toISO() ?? '',
+                    startUtc,
+                    endUtc: end.toUTC().toISO() ?? '',
+                });
+            }
+            cursor = end;
+        }
+    }
+    return slots.sort((a, b) => a.startUtc.localeCompare(b.startUtc));
+}
+
+/** Earliest start allowed by minNoticeHours / allowSameDayBooking */
+export function getEarliestStart(rules: BookingRules, zone: string, now = DateTime.now()): DateTime {
+    const local = now.setZone(zone);
+    let earliest = local.plus({ hours: rules.minNoticeHours });
+    if (!rules.allowSameDayBooking) {
+        const tomorrow = local.startOf('day').plus({ days: 1 });
+        if (earliest < tomorrow) earliest = tomorrow;
+    }
+    return earliest;
+}
+
+/** Last bookable date (inclusive) of the booking horizon */
+export function getLastBookableDay(rules: BookingRules, zone: string, now = DateTime.now()): string {
+    return now.setZone(zone).startOf('day').plus({ days: rules.maxDaysAhead }).toISODate()!;
+}
+
+/**
+ * Dates in the booking horizon that have opening hours, are not before the
+ * earliest allowed start and have not hit the daily cap.
+ */
+export function getBookableDates({
+    weekly,
+    overrides,
+    rules,
+    zone,
+    daysAhead,
+    bookedPerDay,
+}: {
+    weekly: WeeklyAvailability[];
+    overrides: AvailabilityOverride[];
+    rules: BookingRules;
+    zone: string;
+    /** Optional narrower lookahead; never beyond rules.maxDaysAhead */
+    daysAhead?: number;
+    /** Active appointments per local date (for maxAppointmentsPerDay) */
+    bookedPerDay?: Map<string, number>;
+}): string[] {
+    const horizon = Math.min(daysAhead ?? rules.maxDaysAhead, rules.maxDaysAhead);
+    const earliestDay = getEarliestStart(rules, zone).startOf('day');
+    const out: string[] = [];
+
+    let cursor = DateTime.now().setZone(zone).startOf('day');
+    const end = cursor.plus({ days: horizon });
+    for (; cursor <= end; cursor = cursor.plus({ days: 1 })) {
+        if (cursor < earliestDay) continue;
+        const dayISO = cursor.toISODate()!;
+        if (isDailyCapReached(rules, bookedPerDay?.get(dayISO) ?? 0)) continue;
+        if (getDayBlocks(weekly, overrides, dayISO, zone).length) out.push(dayISO);
+    }
+    return out;
+}
+
+export function isDailyCapReached(rules: BookingRules, booked: number): boolean {
+    return rules.maxAppointmentsPerDay != null && booked >= rules.maxAppointmentsPerDay;
+}
+
+/**
+ * Active (PENDING/CONFIRMED) appointments per local date in [fromUtc, toUtc).
+ * `excludeId` leaves out the appointment being rescheduled.
+ */
+export async function countAppointmentsPerDay(
+    prisma: PrismaService,
+    agentId: string,
+    fromUtc: DateTime,
+    toUtc: DateTime,
+    zone: string,
+    excludeId?: string,
+): Promise<Map<string, number>> {
+    const rows = await prisma.appointment.findMany({
+        where: {
+            agentId,
+            status: { in: [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED] },
+            startTime: { gte: fromUtc.toJSDate(), lt: toUtc.toJSDate() },
+            ...(excludeId ? { id: { not: excludeId } } : {}),
+        },
+        select: { startTime: true },
+    });
+    const counts = new Map<string, number>();
+    for (const r of rows) {
+        const day = DateTime.fromJSDate(r.startTime).setZone(zone).toISODate()!;
+        counts.set(day, (counts.get(day) ?? 0) + 1);
+    }
+    return counts;
+}
+
+/**
+ * Why [startUtc, endUtc) cannot be booked under the rules, or null when it can.
+ * Calendar free/busy (incl. buffers) is checked separately.
+ */
+export async function checkBookingRules({
+    prisma,
+    agentId,
+    weekly,
+    overrides,
+    rules,
+    zone,
+    startUtc,
+    endUtc,
+    excludeId,
+}: {
+    prisma: PrismaService;
+    agentId: string;
+    weekly: WeeklyAvailability[];
+    overrides: AvailabilityOverride[];
+    rules: BookingRules;
+    zone: string;
+    startUtc: DateTime;
+    endUtc: DateTime;
+    /** Appointment being rescheduled (not counted towards the daily cap) */
+    excludeId?: string;
+}): Promise<null | 'too_short_notice' | 'beyond_booking_horizon' | 'outside_opening_hours' | 'daily_limit_reached'> {
+    if (startUtc < getEarliestStart(rules, zone)) return 'too_short_notice';
+
+    const startLocal = startUtc.setZone(zone);
+    const endLocal = endUtc.setZone(zone);
+    const dayISO = startLocal.toISODate()!;
+    if (dayISO > getLastBookableDay(rules, zone)) return 'beyond_booking_horizon';
+
+    const dayStart = startLocal.startOf('day');
+    const fits = getDayBlocks(weekly, overrides, dayISO, zone).some((b) => {
+        const blockStart = dayStart.plus({ minutes: toMinutes(b.startTime) });
+        const blockEnd = dayStart.plus({ minutes: toMinutes(b.endTime) });
+        return startLocal >= blockStart && endLocal <= blockEnd;
+    });
+    if (!fits) return 'outside_opening_hours';
+
+    if (rules.maxAppointmentsPerDay != null) {
+        const counts = await countAppointmentsPerDay(
+            prisma,
+            agentId,
+            dayStart.toUTC(),
+            dayStart.plus({ days: 1 }).toUTC(),
+            zone,
+            excludeId,
+        );
+        if (isDailyCapReached(rules, counts.get(dayISO) ?? 0)) return 'daily_limit_reached';
+    }
+    return null;
+}
@@ -1,37 +1,81 @@
 import { DynamicTool } from '@langchain/core/tools';
 import { Logger } from '@nestjs/common';
-import { DateTime, Interval } from 'luxon';
+import { DateTime } from 'luxon';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { AppointmentStatus } from '@prisma/client';
+import {
+    AppointmentLeadItem,
+    AppointmentStatus,
+    AvailabilityOverride,
+    WeeklyAvailability,
+} from '@prisma/client';
 import { z } from 'zod';
+import type { BookingNotificationService } from 'src/agentModules/email/notifications/booking-notification.service';
+import type { AppointmentService } from 'src/agentModules/appointment/appointment.service';
+import type { CalendarPool } from './calendar-routing.utils';
+import {
+    DailyLimitReachedError,
+    SlotTakenError,
+    holdOfferedSlots,
+    otherHoldsWhere,
+    withSlotGuard,
+} from 'src/agentModules/appointment/appointment-ledger';
 import {
     renderEventDescription,
-    getBusyWindowsFromGoogle,
-    createGoogleCalendarEvent,
+    buildIntakeSchema,
+    validateIntakeAnswers,
+    checkBookingRules,
+    getBookableDates,
+    findFreeSlotsForDay,
+    withLocalTimes,
+    type BookingRules,
 } from './index';
 
 const TOOL_DEBUG = process.env.TOOL_DEBUG === '1';
 
+/** Alternatives offered when the requested slot was just taken */
+const MAX_ALTERNATIVES = 3;
+/** Bookable days searched for alternatives, starting with the requested one */
+const ALTERNATIVE_DAYS = 3;
+
 type BookAppointmentToolDeps = {
     agentId: string;
-    auth: any;
-    calendarId: string;
+    /** Assigned calendars; the routing strategy picks the one the event is created in */
+    calendars: CalendarPool;
     tz: string;
     slotMin: number;
     logger: Logger;
     prisma: PrismaService;
+    notifications?: BookingNotificationService;
+    /** Change listeners (e.g. the .ics invite sent over WhatsApp) */
+    appointments?: AppointmentService;
+    senderJid?: string;
+    /** Required pre-booking form (AppointmentLeadItem); empty = no intake */
+    intakeFields?: AppointmentLeadItem[];
+    /** Opening hours + BookingSettings rules, re-checked before booking */
+    weekly: WeeklyAvailability[];
+    overrides: AvailabilityOverride[];
+    rules: BookingRules;
 };
 
 export function createBookAppointmentTool({
     agentId,
-    auth,
-    calendarId,
+    calendars,
     tz,
     slotMin,
     logger,
     prisma,
+    notifications,
+    appointments,
+    senderJid,
+    intakeFields = [],
+    weekly,
+    overrides,
+    rules,
 }: BookAppointmentToolDeps) {
-    console.log('[book_appointment_tool] CALLED with raw:', agentId, auth, calendarId, tz, slotMin, logger, prisma);
+    if (TOOL_DEBUG) logger.log(`[book_appointment_tool] built for agent ${agentId}: ${calendars.strategy}, ${calendars.calendars.length} calendar(s), tz=${tz}, slot=${slotMin}min`);
+
+    const intakeSchema = buildIntakeSchema(intakeFields);
+    const hasIntake = intakeFields.length > 0;
 
     const schema = z.object({
         startUtc: z.string().describe('ISO string date-time of the appointment start (UTC)'),
@@ -40,11 +84,68 @@ export function createBookAppointmentTool({
         name: z.string().optional().describe('User name (optional)'),
         phone: z.string().optional().describe('User phone number (optional)'),
         notes: z.string().optional().describe('Any specific notes or request details'),
-        intakeAnswers: z.record(z.string()).optional().describe('Key-value pairs of collected intake answers'),
+        intakeAnswers: hasIntake
+            ? intakeSchema.describe('Answers to ALL intake fields from get_appointment_intake_fields')
+            : z.record(z.string()).optional().describe('Key-value pairs of collected intake answers'),
         title: z.string().optional().describe('Title of the appointment'),
         timezone: z.string().optional().describe('Timezone of the user'),
     });
 
+    /**
+     * Free slots nearest to the one the user lost, held for this chat. Searches
+     * the requested day first, then the next bookable days.
+     */
+    async function findAlternatives(wanted: DateTime, zone: string) {
+        const firstDay = wanted.setZone(zone).toISODate()!;
+        const days = [
+            firstDay,
+            ...getBookableDates({ weekly, overrides, rules, zone }).filter((d) => d > firstDay),
+        ].slice(0, ALTERNATIVE_DAYS);
+
+        for (const dayISO of days) {
+            const found = await findFreeSlotsForDay({
+                agentId,
+                weekly,
+                overrides,
+                rules,
+                calendars,
+                prisma,
+                dayISO,
+                zone,
+                slotMin,
+            });
+            const nearest = [...found.slots]
+                .sort(
+                    (a, b) =>
+                        Math.abs(DateTime.fromISO(a.startUtc).diff(wanted).toMillis()) -
+                        Math.abs(DateTime.fromISO(b.startUtc).diff(wanted).toMillis()),
+                )
+                .slice(0, MAX_ALTERNATIVES);
+            const offered = await holdOfferedSlots(prisma, agentId, senderJid ?? null, nearest);
+            if (offered.length) {
+                return offered
+                    .sort((a, b) => a.startUtc.localeCompare(b.startUtc))
+                    .map((s) => withLocalTimes(s, zone));
+            }
+        }
+        return [];
+    }
+
+    async function slotJustTaken(wanted: DateTime, zone: string) {
+        const alternatives = await findAlternatives(wanted, zone).catch((e: any) => {
+            logger.warn(`[book_appointment_tool] could not load alternatives: ${e?.message}`);
+            return [];
+        });
+        return JSON.stringify({
+            error: 'slot_just_taken',
+            timezone: zone,
+            alternatives,
+            message: alternatives.length
+                ? 'Apologise: that slot was just taken by someone else. Offer these alternatives instead.'
+                : 'Apologise: that slot was just taken by someone else. Ask the user for another day.',
+        });
+    }
+
     const tool = new DynamicTool({
         name: 'book_appointment_tool',
         description:
@@ -63,22 +164,59 @@ export function createBookAppointmentTool({
                     return JSON.stringify({ error: 'invalid_time_range' });
                 }
 
-                const busy = await getBusyWindowsFromGoogle(
-                    auth,
-                    calendarId,
-                    startUtc.minus({ minutes: slotMin }).toISO()!,
-                    endUtc.plus({ minutes: slotMin }).toISO()!,
-                    logger,
-                );
-                const overlaps = busy.some((b) =>
-                    Interval.fromDateTimes(b.start, b.end).overlaps(Interval.fromDateTimes(startUtc, endUtc)),
-                );
-                if (overlaps) return JSON.stringify({ error: 'slot_not_available' });
-
-                const answers: Record<string, string> = input.intakeAnswers || {};
+                // Notice period, horizon, opening hours/holidays and daily cap
+                const ruleError = await checkBookingRules({
+                    prisma,
+                    agentId,
+                    weekly,
+                    overrides,
+                    rules,
+                    zone,
+                    startUtc,
+                    endUtc,
+                });
+                if (ruleError) {
+                    return JSON.stringify({
+                        error: ruleError,
+                        message: 'This time cannot be booked; offer a slot from get_available_time instead.',
+                    });
+                }
+
+                // Refuse to book until every configured intake field is answered
+                let intakeAnswers: Record<string, string> | null = null;
+                if (hasIntake) {
+                    const intake = validateIntakeAnswers(intakeSchema, input.intakeAnswers);
+                    if (!intake.ok) {
+                        return JSON.stringify({
+                            error: 'missing_intake_fields',
+                            missing: intake.missing,
+                            message: `Ask the user for: ${intake.missing.join(', ')}; then call this tool again.`,
+                        });
+                    }
+                    intakeAnswers = intake.answers;
+                }
+
+                // Re-check free/busy and route the booking to one assigned calendar
+                const target = await calendars.pickForSlot(startUtc, endUtc, {
+                    beforeMin: rules.bufferBeforeMin,
+                    afterMin: rules.bufferAfterMin,
+                });
+                if (!target) return slotJustTaken(startUtc, zone);
+
+                // Offered to (and held for) another chat a moment ago
+                const heldElsewhere = await prisma.slotHold.findFirst({
+                    where: otherHoldsWhere(agentId, senderJid ?? null, startUtc.toJSDate(), endUtc.toJSDate()),
+                    select: { id: true },
+                });
+                if (heldElsewhere) return slotJustTaken(startUtc, zone);
+                const calendar = target.client;
+
+                const answers: Record<string, string> = intakeAnswers ?? input.intakeAnswers ?? {};
                 const description = renderEventDescription(input.notes, answers);
 
                 const validEmail = input.email || answers.email;
+                const attendeeName = input.name || answers.name || null;
+                const attendeePhone = input.phone || answers.phone || null;
 
                 // Ensure intakeAnswers exists
                 if (!input.intakeAnswers) {
@@ -89,37 +227,97 @@ export function createBookAppointmentTool({
                     };
                 }
 
-                const res = await createGoogleCalendarEvent(
-                    auth,
-                    calendarId,
-                    input.title || `Appointment`,
+                const event = await calendar.createEvent({
+                    summary: input.title || `Appointment`,
                     description,
                     startUtc,
                     endUtc,
-                    validEmail
-                );
+                    attendeeEmail: validEmail,
+                });
 
-                console.log('calendar_response', res)
-                const eventId = res.data.id!;
+                if (TOOL_DEBUG) logger.log(`[book_appointment_tool] calendar event ${event.id ?? '(ledger only)'}`);
+                const eventId = event.id;
                 const meetLink = null;
-                // res.data.hangoutLink || res.data.conferenceData?.entryPoints?.[0]?.uri || null;
+                // event.link (hangoutLink / Teams joinUrl) when conferencing is enabled
+
+                // DB-level guard: overlap (with buffers) and the daily cap re-checked under a
+                // per-agent lock, so two chats cannot book the same slot or exceed the cap
+                const calendarConnectionId = target.conn?.id ?? null;
+                let appt;
+                try {
+                    appt = await withSlotGuard(
+                        prisma,
+                        {
+                            agentId,
+                            startTime: startUtc.toJSDate(),
+                            endTime: endUtc.toJSDate(),
+                            calendarConnectionId,
+                            holder: senderJid ?? null,
+                            bufferBeforeMin: rules.bufferBeforeMin,
+                            bufferAfterMin: rules.bufferAfterMin,
+                            dailyLimit:
+                                rules.maxAppointmentsPerDay != null
+                                    ? { max: rules.maxAppointmentsPerDay, zone }
+                                    : null,
+                        },
+                        (tx) =>
+                            tx.appointment.create({
+                                data: {
+                                    agentId,
+                                    startTime: startUtc.toJSDate(),
+                                    endTime: endUtc.toJSDate(),
+                                    status: AppointmentStatus.CONFIRMED,
+                                    location: meetLink ?? undefined,
+                                    notes: input.notes || null,
+                                    timezone: zone,
+                                    calendarEventId: eventId,
+                                    calendarProvider: calendar.provider,
+                                    calendarConnectionId,
+                                    attendeeName,
+                                    attendeeEmail: validEmail || null,
+                                    attendeePhone,
+                                    senderJid: senderJid ?? null,
+                                    intakeAnswers: intakeAnswers ?? undefined,
+                                },
+                            }),
+                    );
+                } catch (err) {
+                    if (!(err instanceof SlotTakenError) && !(err instanceof DailyLimitReachedError)) throw err;
+                    if (eventId) {
+                        await calendar
+                            .deleteEvent(eventId)
+                            .catch((de: any) => logger.error(`[book_appointment_tool] orphan event ${eventId}: ${de?.message}`));
+                    }
+                    if (err instanceof DailyLimitReachedError) {
+                        return JSON.stringify({
+                            error: 'daily_limit_reached',
+                            message: 'This time cannot be booked; offer a slot from get_available_time instead.',
+                        });
+                    }
+                    return slotJustTaken(startUtc, zone);
+                }
+                await calendars.markBooked(target);
 
-                const appt = await prisma.appointment.create({
-                    data: {
+                // Booking notification emails (fire-and-forget; never blocks the reply)
+                if (notifications) {
+                    void notifications.notify('CONFIRMED', {
                         agentId,
-                        startTime: startUtc.toJSDate(),
-                        endTime: endUtc.toJSDate(),
-                        status: AppointmentStatus.CONFIRMED,
-                        location: meetLink ?? undefined,
-                        notes: [input.notes || '', `eventId=${eventId}`, `timezone=${zone}`, `attendee=${validEmail || 'none'}`]
-                            .filter(Boolean)
-                            .join('\n'),
-                    } as any,
-                });
+                        appointmentId: appt.id,
+                        startTime: appt.startTime,
+                        endTime: appt.endTime,
+                        timezone: zone,
+                        attendeeName,
+                        attendeeEmail: validEmail || null,
+                        attendeePhone,
+                        location: meetLink,
+                        notes: input.notes || null,
+                    });
+                }
+                appointments?.announceBooked(appt);
 
                 return JSON.stringify({
                     appointmentId: appt.id,
-                    googleEventId: eventId,
+                    calendarEventId: eventId,
                     meetLink,
                     status: 'CONFIRMED',
                 });
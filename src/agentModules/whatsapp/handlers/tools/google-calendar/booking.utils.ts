@@ -25,3 +25,34 @@ export async function createGoogleCalendarEvent(
 
     return res;
 }
+
+export async function rescheduleGoogleCalendarEvent(
+    auth: any,
+    calendarId: string,
+    eventId: string,
+    startUtc: DateTime,
+    endUtc: DateTime,
+) {
+    const calendar = google.calendar({ version: 'v3', auth });
+    return calendar.events.patch({
+        calendarId,
+        eventId,
+        requestBody: {
+            start: { dateTime: startUtc.toISO(), timeZone: 'UTC' },
+            end: { dateTime: endUtc.toISO(), timeZone: 'UTC' },
+        },
+        sendUpdates: 'all',
+    });
+}
+
+/** Deletes the event (attendees get a cancellation). Already-deleted events are not an error. */
+export async function cancelGoogleCalendarEvent(auth: any, calendarId: string, eventId: string) {
+    const calendar = google.calendar({ version: 'v3', auth });
+    try {
+        await calendar.events.delete({ calendarId, eventId, sendUpdates: 'all' });
+    } catch (err: any) {
+        const code = Number(err?.code ?? err?.response?.status);
+        if (code === 404 || code === 410) return;
+        throw err;
+    }
+}
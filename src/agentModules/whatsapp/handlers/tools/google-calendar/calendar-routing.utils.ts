@@ -0,0 +1,298 @@
+import { Logger } from '@nestjs/common';
+import {
+    AppointmentStatus,
+    CalendarConnection,
+    CalendarRoutingStrategy,
+} from '@prisma/client';
+import { DateTime, Interval } from 'luxon';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+    connectCalendar,
+    InternalLedgerCalendarClient,
+    type BusyWindow,
+    type CalendarClient,
+} from 'src/CalendarConnection/providers';
+import { validateCalendarConnection } from './connection.utils';
+
+const TOOL_DEBUG = process.env.TOOL_DEBUG === '1';
+
+type CalendarAssignmentRow = {
+    calendarConnection: CalendarConnection | null;
+    assignedAt?: Date;
+    lastBookedAt?: Date | null;
+};
+
+/** One assigned calendar, connected and ready for free/busy + events */
+export type AssignedCalendar = {
+    /** CalendarConnection.id, or LEDGER_CALENDAR_ID */
+    id: string;
+    /** null for the internal ledger */
+    conn: CalendarConnection | null;
+    client: CalendarClient;
+    lastBookedAt: Date | null;
+};
+
+export const LEDGER_CALENDAR_ID = 'internal';
+
+/**
+ * Assignments that point at a usable calendar: the primary connection first,
+ * then in assignment order. The first entry is "the primary" for routing.
+ */
+export function orderCalendarAssignments<T extends CalendarAssignmentRow>(
+    assignments: T[],
+): (T & { calendarConnection: CalendarConnection })[] {
+    const usable = (assignments ?? []).filter(
+        (a): a is T & { calendarConnection: CalendarConnection } =>
+            !!a.calendarConnection?.calendarId,
+    );
+    return usable
+        .map((a, i) => ({ a, i }))
+        .sort((x, y) => {
+            const px = x.a.calendarConnection.isPrimary ? 0 : 1;
+            const py = y.a.calendarConnection.isPrimary ? 0 : 1;
+            if (px !== py) return px - py;
+            const tx = x.a.assignedAt?.getTime() ?? 0;
+            const ty = y.a.assignedAt?.getTime() ?? 0;
+            return tx - ty || x.i - y.i;
+        })
+        .map(({ a }) => a);
+}
+
+/** Free time required around a booking (BookingSettings.bufferBefore/AfterMin) */
+export type SlotBuffers = { beforeMin: number; afterMin: number };
+
+const NO_BUFFERS: SlotBuffers = { beforeMin: 0, afterMin: 0 };
+
+function overlapsAny(
+    busy: BusyWindow[],
+    startUtc: DateTime,
+    endUtc: DateTime,
+    buffers: SlotBuffers,
+    ignore?: Interval,
+): boolean {
+    const wanted = Interval.fromDateTimes(
+        startUtc.minus({ minutes: buffers.beforeMin }),
+        endUtc.plus({ minutes: buffers.afterMin }),
+    );
+    return busy.some((b) => {
+        const window = Interval.fromDateTimes(b.start, b.end);
+        if (ignore?.engulfs(window)) return false;
+        return window.overlaps(wanted);
+    });
+}
+
+/**
+ * The agent's assigned calendars plus the routing strategy from BookingSettings.
+ * - PRIMARY_ONLY: only the primary calendar is consulted and booked.
+ * - ALL_MUST_BE_FREE: a slot is offered only when every calendar is free; booked on the primary.
+ * - ROUND_ROBIN / LEAST_BOOKED: a slot is offered when any calendar is free (union of free time);
+ *   the booking goes to the free calendar booked longest ago / with the fewest upcoming appointments.
+ */
+export class CalendarPool {
+    constructor(
+        readonly strategy: CalendarRoutingStrategy,
+        /** Connected calendars; the first one is the primary */
+        readonly calendars: AssignedCalendar[],
+        private readonly deps: { agentId: string; prisma: PrismaService; logger: Logger },
+    ) {}
+
+    get primary(): AssignedCalendar {
+        return this.calendars[0];
+    }
+
+    /** Internal ledger mode: no CalendarConnection, Appointment rows are the calendar */
+    get isLedger(): boolean {
+        return this.primary.conn === null;
+    }
+
+    /** Calendars whose free/busy decides availability */
+    private get consulted(): AssignedCalendar[] {
+        return this.strategy === CalendarRoutingStrategy.PRIMARY_ONLY ? [this.primary] : this.calendars;
+    }
+
+    /** true → free on any calendar is enough; false → every consulted calendar must be free */
+    private get anyCalendarFree(): boolean {
+        return (
+            this.strategy === CalendarRoutingStrategy.ROUND_ROBIN ||
+            this.strategy === CalendarRoutingStrategy.LEAST_BOOKED
+        );
+    }
+
+    private async busyByCalendar(timeMinISO: string, timeMaxISO: string): Promise<Map<string, BusyWindow[]>> {
+        const entries = await Promise.all(
+            this.consulted.map(
+                async (c) => [c.id, await c.client.getBusyWindows(timeMinISO, timeMaxISO)] as const,
+            ),
+        );
+        return new Map(entries);
+    }
+
+    private freeCalendars(
+        busy: Map<string, BusyWindow[]>,
+        startUtc: DateTime,
+        endUtc: DateTime,
+        buffers: SlotBuffers,
+        ignore?: Interval,
+    ) {
+        return this.consulted.filter((c) => !overlapsAny(busy.get(c.id) ?? [], startUtc, endUtc, buffers, ignore));
+    }
+
+    private isBookable(free: AssignedCalendar[]): boolean {
+        return this.anyCalendarFree ? free.length > 0 : free.length === this.consulted.length;
+    }
+
+    /**
+     * Keep the candidate slots that can be booked under the strategy (one free/busy
+     * call per calendar). The query window is widened by the buffers.
+     */
+    async filterFreeSlots<T extends { startUtc: string; endUtc: string }>(
+        slots: T[],
+        timeMin: DateTime,
+        timeMax: DateTime,
+        buffers: SlotBuffers = NO_BUFFERS,
+    ): Promise<T[]> {
+        const busy = await this.busyByCalendar(
+            timeMin.minus({ minutes: buffers.beforeMin }).toISO()!,
+            timeMax.plus({ minutes: buffers.afterMin }).toISO()!,
+        );
+        const free = slots.filter((s) =>
+            this.isBookable(
+                this.freeCalendars(busy, DateTime.fromISO(s.startUtc), DateTime.fromISO(s.endUtc), buffers),
+            ),
+        );
+        if (TOOL_DEBUG) {
+            this.deps.logger.log(
+                `[calendar-pool] strategy=${this.strategy} calendars=${this.consulted.length} input=${slots.length} free=${free.length}`,
+            );
+        }
+        return free;
+    }
+
+    /**
+     * Calendar that should receive a booking for [startUtc, endUtc), or null when
+     * the slot (plus buffers) is no longer free. When rescheduling, `ignore` is the
+     * appointment's current slot: busy time inside it is its own event.
+     */
+    async pickForSlot(
+        startUtc: DateTime,
+        endUtc: DateTime,
+        buffers: SlotBuffers = NO_BUFFERS,
+        ignore?: Interval,
+    ): Promise<AssignedCalendar | null> {
+        const busy = await this.busyByCalendar(
+            startUtc.minus({ minutes: buffers.beforeMin }).toISO()!,
+            endUtc.plus({ minutes: buffers.afterMin }).toISO()!,
+        );
+        const free = this.freeCalendars(busy, startUtc, endUtc, buffers, ignore);
+        if (!this.isBookable(free)) return null;
+
+        switch (this.strategy) {
+            case CalendarRoutingStrategy.ROUND_ROBIN:
+                // Never-used calendars first, then the one booked longest ago
+                return [...free].sort(
+                    (a, b) => (a.lastBookedAt?.getTime() ?? 0) - (b.lastBookedAt?.getTime() ?? 0),
+                )[0];
+            case CalendarRoutingStrategy.LEAST_BOOKED:
+                return this.leastBooked(free);
+            default:
+                return this.primary;
+        }
+    }
+
+    /** Remember the routed booking (ROUND_ROBIN rotates on lastBookedAt). Never throws. */
+    async markBooked(calendar: AssignedCalendar): Promise<void> {
+        if (!calendar.conn) return;
+        const now = new Date();
+        try {
+            await this.deps.prisma.agentCalendarAssignment.update({
+                where: {
+                    agentId_calendarConnectionId: {
+                        agentId: this.deps.agentId,
+                        calendarConnectionId: calendar.id,
+                    },
+                },
+                data: { lastBookedAt: now },
+            });
+            calendar.lastBookedAt = now;
+        } catch (e: any) {
+            this.deps.logger.warn(`[calendar-pool] could not update lastBookedAt: ${e?.message}`);
+        }
+    }
+
+    private async leastBooked(free: AssignedCalendar[]): Promise<AssignedCalendar> {
+        const counts = await this.deps.prisma.appointment.groupBy({
+            by: ['calendarConnectionId'],
+            where: {
+                agentId: this.deps.agentId,
+                calendarConnectionId: { in: free.map((c) => c.id) },
+                status: { in: [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED] },
+                startTime: { gt: new Date() },
+            },
+            _count: { _all: true },
+        });
+        const byId = new Map(counts.map((c) => [c.calendarConnectionId, c._count._all]));
+        // Stable: ties keep primary-first order
+        return free.reduce((best, c) =>
+            (byId.get(c.id) ?? 0) < (byId.get(best.id) ?? 0) ? c : best,
+        );
+    }
+}
+
+/**
+ * Validate + connect the agent's assigned calendars for its routing strategy.
+ * Calendars that fail are skipped, except with PRIMARY_ONLY / ALL_MUST_BE_FREE
+ * where a missing calendar would make availability wrong (→ null, tools disabled).
+ * Without any assigned calendar the internal ledger is used.
+ */
+export async function connectCalendarPool({
+    agent,
+    prisma,
+    logger,
+}: {
+    agent: {
+        id: string;
+        calendarAssignments: CalendarAssignmentRow[];
+        bookingSettings: { calendarStrategy: CalendarRoutingStrategy } | null;
+    };
+    prisma: PrismaService;
+    logger: Logger;
+}): Promise<CalendarPool | null> {
+    const strategy = agent.bookingSettings?.calendarStrategy ?? CalendarRoutingStrategy.PRIMARY_ONLY;
+    const ordered = orderCalendarAssignments(agent.calendarAssignments);
+    if (!ordered.length) {
+        if (TOOL_DEBUG) logger.log(`[calendar-pool] no calendar assigned; using internal ledger`);
+        return new CalendarPool(
+            CalendarRoutingStrategy.PRIMARY_ONLY,
+            [
+                {
+                    id: LEDGER_CALENDAR_ID,
+                    conn: null,
+                    client: new InternalLedgerCalendarClient(prisma, agent.id),
+                    lastBookedAt: null,
+                },
+            ],
+            { agentId: agent.id, prisma, logger },
+        );
+    }
+    const wanted = strategy === CalendarRoutingStrategy.PRIMARY_ONLY ? ordered.slice(0, 1) : ordered;
+    const needsAll = strategy !== CalendarRoutingStrategy.ROUND_ROBIN && strategy !== CalendarRoutingStrategy.LEAST_BOOKED;
+
+    const calendars: AssignedCalendar[] = [];
+    for (const a of wanted) {
+        const conn = a.calendarConnection;
+        if (!validateCalendarConnection(conn, logger).ok) {
+            if (needsAll) return null;
+            continue;
+        }
+        try {
+            const client = await connectCalendar(conn, prisma, logger);
+            calendars.push({ id: conn.id, conn, client, lastBookedAt: a.lastBookedAt ?? null });
+        } catch {
+            logger.error(`[calendar-pool] could not refresh ${conn.provider} tokens for ${conn.accountEmail}`);
+            if (needsAll) return null;
+        }
+    }
+
+    if (!calendars.length) return null;
+    return new CalendarPool(strategy, calendars, { agentId: agent.id, prisma, logger });
+}
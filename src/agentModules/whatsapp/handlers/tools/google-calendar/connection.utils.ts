@@ -16,9 +16,9 @@ export function validateCalendarConnection(
         issues.push('no_connection_assigned');
         fatal.push('no_connection_assigned');
     } else {
-        if (conn.provider !== CalendarProvider.GOOGLE) {
-            issues.push('provider_not_GOOGLE');
-            fatal.push('provider_not_GOOGLE');
+        if (!Object.values(CalendarProvider).includes(conn.provider)) {
+            issues.push('provider_not_supported');
+            fatal.push('provider_not_supported');
         }
         if (!conn.calendarId) {
             issues.push('missing_calendarId');
@@ -1,71 +1,159 @@
 import { DynamicTool } from '@langchain/core/tools';
 import { Logger } from '@nestjs/common';
 import { DateTime } from 'luxon';
-import { WeeklyAvailability } from '@prisma/client';
+import { AvailabilityOverride, WeeklyAvailability } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { holdOfferedSlots } from 'src/agentModules/appointment/appointment-ledger';
+import type { CalendarPool } from './calendar-routing.utils';
 import {
     parseToolInput,
-    getApprovedDowSet,
-    getNextApprovedDates,
-    getDayWindow,
-    generateCandidateSlots,
-    getBusyWindowsFromGoogle,
-    filterSlotsByBusy,
+    getBookingRules,
+    getBookableDates,
+    getDayBlocks,
+    getEarliestStart,
+    getLastBookableDay,
+    generateDaySlots,
+    countAppointmentsPerDay,
+    isDailyCapReached,
+    type BookingRules,
 } from './index';
 
 const TOOL_DEBUG = process.env.TOOL_DEBUG === '1';
 
 type GetAvailableTimeToolDeps = {
     agent: {
+        id: string;
         weeklyAvailabilities: WeeklyAvailability[];
+        availabilityOverrides: AvailabilityOverride[];
         bookingSettings: {
             timezone: string | null;
             allowSameDayBooking: boolean;
+            bufferBeforeMin: number;
+            bufferAfterMin: number;
+            minNoticeHours: number;
+            maxDaysAhead: number;
+            maxAppointmentsPerDay: number | null;
         } | null;
     };
-    auth: any;
-    calendarId: string;
+    /** Assigned calendars (Google or Outlook); free/busy is merged per routing strategy */
+    calendars: CalendarPool;
     tz: string;
     slotMin: number;
     logger: Logger;
+    /** Daily cap counts + slot holds */
+    prisma: PrismaService;
+    /** Chat the slots are offered to; they are held for it for a few minutes */
+    senderJid?: string;
 };
 
+export type FreeSlot = { startUtc: string; endUtc: string };
+
+/** Free slots for one local date, or none plus the reason (closed, daily_limit_reached, ...) */
+export async function findFreeSlotsForDay({
+    agentId,
+    weekly,
+    overrides,
+    rules,
+    calendars,
+    prisma,
+    dayISO,
+    zone,
+    slotMin,
+}: {
+    agentId: string;
+    weekly: WeeklyAvailability[];
+    overrides: AvailabilityOverride[];
+    rules: BookingRules;
+    calendars: CalendarPool;
+    prisma: PrismaService;
+    dayISO: string;
+    zone: string;
+    slotMin: number;
+}): Promise<{ slots: FreeSlot[]; reason?: string }> {
+    const none = (reason: string) => ({ slots: [], reason });
+
+    if (dayISO > getLastBookableDay(rules, zone)) return none('beyond_booking_horizon');
+
+    const blocks = getDayBlocks(weekly, overrides, dayISO, zone);
+    if (!blocks.length) return none('closed');
+
+    const dayStart = DateTime.fromISO(dayISO, { zone }).startOf('day');
+    if (rules.maxAppointmentsPerDay != null) {
+        const counts = await countAppointmentsPerDay(
+            prisma,
+            agentId,
+            dayStart.toUTC(),
+            dayStart.plus({ days: 1 }).toUTC(),
+            zone,
+        );
+        if (isDailyCapReached(rules, counts.get(dayISO) ?? 0)) return none('daily_limit_reached');
+    }
+
+    const earliest = getEarliestStart(rules, zone);
+    const candidates = generateDaySlots(blocks, dayISO, slotMin, zone).filter(
+        (c) => DateTime.fromISO(c.startUtc) >= earliest,
+    );
+    if (!candidates.length) return none('no_slots');
+
+    const free = await calendars.filterFreeSlots(
+        candidates.map((c) => ({ startUtc: c.startUtc, endUtc: c.endUtc })),
+        DateTime.fromISO(candidates[0].startUtc),
+        DateTime.fromISO(candidates[candidates.length - 1].endUtc),
+        { beforeMin: rules.bufferBeforeMin, afterMin: rules.bufferAfterMin },
+    );
+    return free.length ? { slots: free } : none('no_slots');
+}
+
+export function withLocalTimes(slot: FreeSlot, zone: string) {
+    return {
+        ...slot,
+        localStart: DateTime.fromISO(slot.startUtc).setZone(zone).toISO(),
+        localEnd: DateTime.fromISO(slot.endUtc).setZone(zone).toISO(),
+    };
+}
+
 export function createGetAvailableTimeTool({
     agent,
-    auth,
-    calendarId,
+    calendars,
     tz,
     slotMin,
     logger,
+    prisma,
+    senderJid,
 }: GetAvailableTimeToolDeps) {
+    const rules = getBookingRules(agent.bookingSettings);
+
     return new DynamicTool({
         name: 'get_available_time',
         description: `
 Get available days and/or time slots for this agent.
-- Call WITHOUT "day" to get upcoming calendar dates whose weekday is approved in WeeklyAvailability.
-- Call WITH "day" (YYYY-MM-DD) to get time slots for that day, filtered by Google Calendar Free/Busy.
+- Call WITHOUT "day" to get upcoming bookable dates (opening hours, holidays, notice period, booking horizon and daily limit applied).
+- Call WITH "day" (YYYY-MM-DD) to get time slots for that day, filtered by the free/busy of the assigned calendar(s).
 `.trim(),
         func: async (raw: string) => {
             logger.log(`[get_available_time] CALLED with raw: ${raw}`);
             try {
                 const input = parseToolInput(raw);
                 const zone = (input.timezone ?? tz) as string;
+                const weekly = agent.weeklyAvailabilities || [];
+                const overrides = agent.availabilityOverrides || [];
 
-                // A) List *dates* based on approved WeeklyAvailability days
+                // A) List bookable *dates*
                 if (!input.day) {
-                    const daysAhead = Number.isFinite(input.daysAhead) ? input.daysAhead : 14;
-
-                    if (!agent.weeklyAvailabilities?.length) {
-                        return JSON.stringify({ timezone: zone, days: [] });
-                    }
-
-                    const approved = getApprovedDowSet(agent.weeklyAvailabilities);
-                    const days = getNextApprovedDates(
-                        approved,
-                        zone,
-                        daysAhead,
-                        !!agent.bookingSettings?.allowSameDayBooking,
-                    );
+                    const daysAhead = Number.isFinite(input.daysAhead) ? Number(input.daysAhead) : undefined;
+                    const today = DateTime.now().setZone(zone).startOf('day');
+                    const bookedPerDay =
+                        rules.maxAppointmentsPerDay != null
+                            ? await countAppointmentsPerDay(
+                                  prisma,
+                                  agent.id,
+                                  today.toUTC(),
+                                  today.plus({ days: rules.maxDaysAhead + 1 }).toUTC(),
+                                  zone,
+                              )
+                            : undefined;
 
+                    const days = getBookableDates({ weekly, overrides, rules, zone, daysAhead, bookedPerDay });
                     return JSON.stringify({ timezone: zone, days });
                 }
 
@@ -73,43 +161,29 @@ Get available days and/or time slots for this agent.
                 const dayISO = DateTime.fromISO(String(input.day), { zone }).toISODate();
                 if (!dayISO) return JSON.stringify({ error: 'invalid_day' });
 
-                const todayISO = DateTime.now().setZone(zone).toISODate();
-                if (!agent.bookingSettings!.allowSameDayBooking && dayISO === todayISO) {
-                    return JSON.stringify({ timezone: zone, day: dayISO, slots: [] });
-                }
-
-                const window = getDayWindow(agent.weeklyAvailabilities || [], dayISO, zone);
-                if (!window) {
-                    return JSON.stringify({ timezone: zone, day: dayISO, slots: [] });
+                const found = await findFreeSlotsForDay({
+                    agentId: agent.id,
+                    weekly,
+                    overrides,
+                    rules,
+                    calendars,
+                    prisma,
+                    dayISO,
+                    zone,
+                    slotMin,
+                });
+                if (!found.slots.length) {
+                    return JSON.stringify({ timezone: zone, day: dayISO, slots: [], reason: found.reason });
                 }
 
-                const { todays, minLocal, maxLocal } = window;
-                const timeMinLocalISO = minLocal.toISO();
-                const timeMaxLocalISO = maxLocal.toISO();
-
-                const candidates = generateCandidateSlots(todays, dayISO, dayISO, slotMin, zone);
-                if (!candidates.length) {
-                    return JSON.stringify({ timezone: zone, day: dayISO, slots: [] });
+                // Reserve what we offer to this chat; slots held by other chats are left out
+                const offered = await holdOfferedSlots(prisma, agent.id, senderJid ?? null, found.slots);
+                if (TOOL_DEBUG) logger.log(`[get_available_time] day=${dayISO} free=${found.slots.length} offered=${offered.length}`);
+                if (!offered.length) {
+                    return JSON.stringify({ timezone: zone, day: dayISO, slots: [], reason: 'held_by_others' });
                 }
 
-                const busy = await getBusyWindowsFromGoogle(
-                    auth,
-                    calendarId,
-                    timeMinLocalISO!,
-                    timeMaxLocalISO!,
-                    logger,
-                );
-                const free = filterSlotsByBusy(
-                    candidates.map((c) => ({ startUtc: c.startUtc, endUtc: c.endUtc })),
-                    busy,
-                    logger,
-                );
-
-                const withLocal = free.map((s) => ({
-                    ...s,
-                    localStart: DateTime.fromISO(s.startUtc).setZone(zone).toISO(),
-                    localEnd: DateTime.fromISO(s.endUtc).setZone(zone).toISO(),
-                }));
+                const withLocal = offered.map((s) => withLocalTimes(s, zone));
 
                 return JSON.stringify({ timezone: zone, day: dayISO, slots: withLocal });
             } catch (e: any) {
@@ -1,7 +1,10 @@
 export * from './common.utils';
 export * from './connection.utils';
+export * from './calendar-routing.utils';
 export * from './availability.utils';
 export * from './google-api.utils';
 export * from './booking.utils';
+export * from './intake.utils';
 export * from './get-available-time.tool';
 export * from './book-appointment.tool';
+export * from './manage-appointments.tool';
@@ -0,0 +1,40 @@
+import { AppointmentLeadItem } from '@prisma/client';
+import { z, ZodTypeAny } from 'zod';
+
+/**
+ * Build the intake form schema from the agent's AppointmentLeadItem rows
+ * (same approach as createDynamicDataCollectionTool for LeadItem).
+ * Every configured field is required and must be a non-empty string.
+ */
+export function buildIntakeSchema(fields: Pick<AppointmentLeadItem, 'name' | 'description'>[]) {
+    const shape: { [key: string]: ZodTypeAny } = {};
+    for (const field of fields) {
+        shape[field.name] = z
+            .string({ required_error: `${field.name} is required` })
+            .trim()
+            .min(1, `${field.name} is required`)
+            .describe(field.description || field.name);
+    }
+    return z.object(shape);
+}
+
+export type IntakeValidationResult =
+    | { ok: true; answers: Record<string, string> }
+    | { ok: false; missing: string[] };
+
+/** Validate collected answers; values are coerced to strings so "42" and 42 both pass. */
+export function validateIntakeAnswers(
+    schema: z.AnyZodObject,
+    answers: Record<string, unknown> | undefined,
+): IntakeValidationResult {
+    const normalized: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(answers ?? {})) {
+        normalized[k] = typeof v === 'number' || typeof v === 'boolean' ? String(v) : v;
+    }
+
+    const result = schema.safeParse(normalized);
+    if (result.success) return { ok: true, answers: result.data };
+
+    const missing = Array.from(new Set(result.error.issues.map((i) => String(i.path[0]))));
+    return { ok: false, missing };
+}
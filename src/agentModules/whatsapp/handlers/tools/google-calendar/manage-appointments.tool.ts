@@ -0,0 +1,198 @@
+import { DynamicTool } from '@langchain/core/tools';
+import { ConflictException, HttpException, Logger } from '@nestjs/common';
+import { Appointment, AvailabilityOverride, WeeklyAvailability } from '@prisma/client';
+import { DateTime, Interval } from 'luxon';
+import { z } from 'zod';
+import { PrismaService } from 'src/prisma/prisma.service';
+import type { AppointmentService } from 'src/agentModules/appointment/appointment.service';
+import type { CalendarPool } from './calendar-routing.utils';
+import { checkBookingRules, parseToolInput, type BookingRules } from './index';
+
+type ManageAppointmentsToolDeps = {
+    agentId: string;
+    senderJid: string;
+    tz: string;
+    logger: Logger;
+    prisma: PrismaService;
+    appointments: AppointmentService;
+    /** Assigned calendars, re-checked (with buffers) for the new time */
+    calendars: CalendarPool;
+    /** Opening hours + BookingSettings rules, applied to the new time like a booking */
+    weekly: WeeklyAvailability[];
+    overrides: AvailabilityOverride[];
+    rules: BookingRules;
+};
+
+function readInput(raw: unknown): any {
+    return typeof raw === 'string' ? parseToolInput(raw) : (raw ?? {});
+}
+
+function describeAppointment(appt: Appointment) {
+    const zone = appt.timezone || 'UTC';
+    const start = DateTime.fromJSDate(appt.startTime).setZone(zone);
+    const end = DateTime.fromJSDate(appt.endTime).setZone(zone);
+    return {
+        appointmentId: appt.id,
+        status: appt.status,
+        timezone: zone,
+        day: start.toISODate(),
+        start: start.toFormat('HH:mm'),
+        end: end.toFormat('HH:mm'),
+        startUtc: start.toUTC().toISO(),
+        endUtc: end.toUTC().toISO(),
+    };
+}
+
+/**
+ * Appointments belong to the chat that booked them (Appointment.senderJid);
+ * a customer can only see and change their own upcoming ones.
+ */
+async function findOwnAppointment(
+    appointments: AppointmentService,
+    agentId: string,
+    senderJid: string,
+    appointmentId: unknown,
+): Promise<Appointment | null> {
+    if (typeof appointmentId !== 'string' || !appointmentId) return null;
+    const upcoming = await appointments.listUpcomingForContact(agentId, senderJid, 50);
+    return upcoming.find((a) => a.id === appointmentId) ?? null;
+}
+
+export function createManageAppointmentTools({
+    agentId,
+    senderJid,
+    tz,
+    logger,
+    prisma,
+    appointments,
+    calendars,
+    weekly,
+    overrides,
+    rules,
+}: ManageAppointmentsToolDeps): DynamicTool[] {
+    const slotNotAvailable = JSON.stringify({
+        error: 'slot_not_available',
+        message: 'That time is no longer free; offer a slot from get_available_time instead.',
+    });
+
+    const getMyAppointments = new DynamicTool({
+        name: 'get_my_appointments',
+        description:
+            "List the customer's own upcoming appointments (id, day, start/end in the booking timezone). Call this before cancelling or rescheduling to find the appointmentId.",
+        func: async () => {
+            try {
+                const upcoming = await appointments.listUpcomingForContact(agentId, senderJid);
+                return JSON.stringify({ appointments: upcoming.map(describeAppointment) });
+            } catch (e: any) {
+                logger.error(`[get_my_appointments] ${e?.message}`);
+                return JSON.stringify({ error: 'failed_to_list_appointments' });
+            }
+        },
+    });
+
+    const cancelSchema = z.object({
+        appointmentId: z.string().describe('Id returned by get_my_appointments'),
+        reason: z.string().optional().describe('Why the customer is cancelling (optional)'),
+    });
+
+    const cancelMyAppointment = new DynamicTool({
+        name: 'cancel_my_appointment',
+        description:
+            "Cancel one of the customer's upcoming appointments. Confirm with the customer which appointment before calling.",
+        func: async (raw: any) => {
+            const input = readInput(raw);
+            try {
+                const appt = await findOwnAppointment(appointments, agentId, senderJid, input.appointmentId);
+                if (!appt) return JSON.stringify({ error: 'appointment_not_found' });
+
+                const cancelled = await appointments.cancel(agentId, appt.id, {
+                    reason: input.reason || undefined,
+                });
+                return JSON.stringify(describeAppointment(cancelled));
+            } catch (e: any) {
+                logger.error(`[cancel_my_appointment] ${e?.message}`);
+                return JSON.stringify({
+                    error: 'failed_to_cancel',
+                    detail: e instanceof HttpException ? e.message : undefined,
+                });
+            }
+        },
+    });
+    (cancelMyAppointment as any).schema = cancelSchema;
+
+    const rescheduleSchema = z.object({
+        appointmentId: z.string().describe('Id returned by get_my_appointments'),
+        startUtc: z.string().describe('ISO date-time of the new start (from get_available_time)'),
+        endUtc: z.string().optional().describe('ISO date-time of the new end (defaults to the same duration)'),
+        timezone: z.string().optional().describe('Timezone of the user'),
+    });
+
+    const rescheduleMyAppointment = new DynamicTool({
+        name: 'reschedule_my_appointment',
+        description:
+            "Move one of the customer's upcoming appointments to a new time. Use get_available_time first to pick a free slot; the new slot is re-checked against the calendar.",
+        func: async (raw: any) => {
+            const input = readInput(raw);
+            try {
+                const appt = await findOwnAppointment(appointments, agentId, senderJid, input.appointmentId);
+                if (!appt) return JSON.stringify({ error: 'appointment_not_found' });
+
+                const zone = (input.timezone ?? appt.timezone ?? tz) as string;
+                const startUtc = DateTime.fromISO(String(input.startUtc ?? ''), { zone }).toUTC();
+                const endUtc = input.endUtc ? DateTime.fromISO(String(input.endUtc), { zone }).toUTC() : null;
+                if (!startUtc.isValid || (endUtc && (!endUtc.isValid || endUtc <= startUtc))) {
+                    return JSON.stringify({ error: 'invalid_time_range' });
+                }
+                const newEndUtc =
+                    endUtc ?? startUtc.plus({ milliseconds: appt.endTime.getTime() - appt.startTime.getTime() });
+
+                // Same rules as a new booking: notice, horizon, opening hours/holidays, daily cap
+                const ruleError = await checkBookingRules({
+                    prisma,
+                    agentId,
+                    weekly,
+                    overrides,
+                    rules,
+                    zone,
+                    startUtc,
+                    endUtc: newEndUtc,
+                    excludeId: appt.id,
+                });
+                if (ruleError) {
+                    return JSON.stringify({
+                        error: ruleError,
+                        message: 'This time cannot be booked; offer a slot from get_available_time instead.',
+                    });
+                }
+
+                // Free/busy incl. buffers; the appointment's own event does not block its move
+                const target = await calendars.pickForSlot(
+                    startUtc,
+                    newEndUtc,
+                    { beforeMin: rules.bufferBeforeMin, afterMin: rules.bufferAfterMin },
+                    Interval.fromDateTimes(DateTime.fromJSDate(appt.startTime), DateTime.fromJSDate(appt.endTime)),
+                );
+                if (!target) return slotNotAvailable;
+
+                const moved = await appointments.reschedule(agentId, appt.id, {
+                    startTime: startUtc.toJSDate(),
+                    endTime: endUtc?.toJSDate(),
+                });
+                return JSON.stringify({
+                    ...describeAppointment(moved),
+                    previous: describeAppointment(appt),
+                });
+            } catch (e: any) {
+                logger.error(`[reschedule_my_appointment] ${e?.message}`);
+                if (e instanceof ConflictException) return slotNotAvailable;
+                return JSON.stringify({
+                    error: 'failed_to_reschedule',
+                    detail: e instanceof HttpException ? e.message : undefined,
+                });
+            }
+        },
+    });
+    (rescheduleMyAppointment as any).schema = rescheduleSchema;
+
+    return [getMyAppointments, cancelMyAppointment, rescheduleMyAppointment];
+}
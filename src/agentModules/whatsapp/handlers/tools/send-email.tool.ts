@@ -0,0 +1,88 @@
+import { DynamicTool } from '@langchain/core/tools';
+import { Logger } from '@nestjs/common';
+import { EmailStatus } from '@prisma/client';
+import { z } from 'zod';
+import type { EmailService } from 'src/agentModules/email/email.service';
+
+interface CreateSendEmailToolParams {
+  emailService: EmailService;
+  agentId: string;
+  logger: Logger;
+}
+
+const sendEmailToolSchema = z.object({
+  to: z.string().describe('Recipient email address, confirmed with the user'),
+  subject: z.string().describe('Short subject line'),
+  body: z.string().describe('Plain-text email body'),
+});
+
+/**
+ * Creates the `send_email` tool (added when Agent.isEmailActive is on).
+ * Delivery goes through EmailService, so every send is recorded in the Email table.
+ */
+export function createSendEmailTool({
+  emailService,
+  agentId,
+  logger,
+}: CreateSendEmailToolParams): DynamicTool {
+  const toolName = 'send_email';
+
+  const tool = new DynamicTool({
+    name: toolName,
+    description:
+      'Send an email on behalf of the business to the user (e.g. a summary, quote or requested details). ' +
+      'Input: JSON {"to":"user@example.com","subject":"...","body":"..."}. ' +
+      'Only use an email address the user gave you, and confirm it before sending.',
+    func: async (input: any): Promise<string> => {
+      try {
+        let raw = input;
+        if (typeof raw === 'string') {
+          try {
+            raw = JSON.parse(raw);
+          } catch {
+            return 'Invalid input. Provide JSON with "to", "subject" and "body".';
+          }
+        }
+
+        const parsed = sendEmailToolSchema.safeParse(raw);
+        if (!parsed.success) {
+          const missing = parsed.error.issues.map((i) => i.path[0]).join(', ');
+          return `Missing or invalid fields: ${missing}.`;
+        }
+
+        const email = await emailService.send(agentId, {
+          to: parsed.data.to.trim(),
+          subject: parsed.data.subject,
+          text: parsed.data.body,
+        });
+
+        if (email.status === EmailStatus.FAILED) {
+          logger.warn(
+            `[${toolName}] delivery failed for ${email.id}: ${email.lastError}`,
+          );
+          return JSON.stringify({
+            ok: false,
+            emailId: email.id,
+            error: 'Delivery failed',
+          });
+        }
+
+        logger.log(`[${toolName}] sent ${email.id} to ${email.recipient}`);
+        return JSON.stringify({
+          ok: true,
+          emailId: email.id,
+          to: email.recipient,
+        });
+      } catch (error: any) {
+        logger.error(`[${toolName}] ${error?.message}`);
+        const msg =
+          error?.response?.issues?.[0]?.message ?? 'Could not send the email.';
+        return JSON.stringify({ ok: false, error: msg });
+      }
+    },
+  });
+
+  (tool as any).schema = sendEmailToolSchema;
+
+  return tool;
+}
@@ -8,4 +8,21 @@ export interface IWhatsapp {
   createdAt: Date;
   updatedAt: Date;
   agentId: string;
-}
\ No newline at end of file
+}
+
+/** Delivery state of a message the agent sent, reported by WhatsApp receipts */
+export type WhatsappMessageStatus = 'SERVER_ACK' | 'DELIVERED' | 'READ' | 'FAILED';
+
+/** Passed to WhatsappService.onMessageStatus() listeners */
+export interface WhatsappMessageStatusUpdate {
+  agentId: string;
+  /** Baileys message id (key.id) returned by sendText/sendMedia */
+  messageId: string;
+  remoteJid: string;
+  status: WhatsappMessageStatus;
+  at: Date;
+}
+
+export type WhatsappMessageStatusListener = (
+  update: WhatsappMessageStatusUpdate,
+) => Promise<void> | void;
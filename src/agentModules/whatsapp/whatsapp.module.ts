@@ -3,15 +3,31 @@ import { WhatsappService } from './whatsapp.service';
 import { WhatsappController } from './whatsapp.controller';
 import { MessageHandlerService } from './handlers/message-handler.service';
 import { RunAgentService } from './handlers/run-agent.service';
+import { SummaryMemoryService } from './handlers/memory/summary-memory.service';
+import { KnowledgeMemoryService } from './handlers/memory/knowledge-memory.service';
+import { MediaExtractionService } from './handlers/media/media-extraction.service';
 import { KnowledgebaseModule } from 'src/agentModules/knowledgebase/knowledgebase.module';
+import { EmailModule } from 'src/agentModules/email/email.module';
+import { AppointmentModule } from 'src/agentModules/appointment/appointment.module';
+import { SuppressionModule } from 'src/agentModules/suppression/suppression.module';
 
 @Module({
   imports: [
     // PrismaModule not needed if @Global()
     forwardRef(() => KnowledgebaseModule),
+    EmailModule,
+    AppointmentModule,
+    SuppressionModule,
   ],
   controllers: [WhatsappController],
-  providers: [WhatsappService, MessageHandlerService, RunAgentService],
+  providers: [
+    WhatsappService,
+    MessageHandlerService,
+    RunAgentService,
+    SummaryMemoryService,
+    KnowledgeMemoryService,
+    MediaExtractionService,
+  ],
   exports: [WhatsappService],
 })
 export class WhatsappModule {}
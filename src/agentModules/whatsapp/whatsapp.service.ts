@@ -15,6 +15,9 @@ import makeWASocket, {
   SignalKeyStore,
   jidNormalizedUser,
   getBinaryNodeChild,
+  WAMessageStatus,
+  WAMessageKey,
+  proto,
 } from '@whiskeysockets/baileys';
 import { buildTcTokenFromJid } from './utils/tctoken';
 import { toDataURL } from 'qrcode';
@@ -26,6 +29,11 @@ import { v4 as uuidv4 } from 'uuid';
 
 import { PhoneNumberUtil, PhoneNumberFormat } from 'google-libphonenumber';
 import { MessageHandlerService } from './handlers/message-handler.service';
+import { SuppressionService } from 'src/agentModules/suppression/suppression.service';
+import {
+  WhatsappMessageStatus,
+  WhatsappMessageStatusListener,
+} from './interface/whatsapp.interface';
 
 /* -------------------------------------------------------------------------- */
 /*                                Buffer JSON                                 */
@@ -124,9 +132,13 @@ export class WhatsappService implements OnModuleInit {
   private readonly MIN_DELAY_MS = 2000;
   private readonly MAX_DELAY_MS = 22000;
 
+  // Receipt subscribers (e.g. broadcast delivery tracking)
+  private readonly statusListeners: WhatsappMessageStatusListener[] = [];
+
   constructor(
     private readonly prisma: PrismaService,
     private readonly messageHandler: MessageHandlerService,
+    private readonly suppressions: SuppressionService,
   ) {
     this.suppressBaileysLogs();
   }
@@ -418,6 +430,9 @@ export class WhatsappService implements OnModuleInit {
       throw new NotFoundException('WhatsApp is not connected for this agent');
     }
 
+    // Numbers on the owner's suppression list (opt-out / do-not-contact) are never messaged
+    await this.suppressions.assertCanMessage(agentId, to);
+
     // Return a promise that resolves when the message is actually sent (or at least enqueued effectively)
     // Note: We construct the promise logic inside the enqueued task to return the ID.
     // However, queuing forces us to either await the queue or return a "pending" status.
@@ -466,6 +481,7 @@ export class WhatsappService implements OnModuleInit {
     if (!to || !media?.mimeType || !media?.data) {
       throw new BadRequestException('"to", "mimeType" and "data" are required to send media.');
     }
+    await this.suppressions.assertCanMessage(agentId, to);
 
     return new Promise((resolve, reject) => {
       this.enqueueMessage(agentId, async () => {
@@ -519,6 +535,73 @@ export class WhatsappService implements OnModuleInit {
     return { mediaId: sent.id, textId, to: sent.to };
   }
 
+  /* ------------------------------------------------------------------------ */
+  /*                              Delivery Receipts                           */
+  /* ------------------------------------------------------------------------ */
+
+  /**
+   * Subscribe to server-ack / delivered / read / failed updates of messages
+   * sent by any agent. Listener errors are logged, never thrown.
+   */
+  onMessageStatus(listener: WhatsappMessageStatusListener): void {
+    this.statusListeners.push(listener);
+  }
+
+  private registerReceiptHandlers(socket: WASocket, agentId: string) {
+    // Status changes of our own messages (1:1 chats)
+    socket.ev.on('messages.update', (updates) => {
+      for (const { key, update } of updates) {
+        if (update.status === undefined || update.status === null) continue;
+        const status = this.mapMessageStatus(update.status);
+        if (status) this.emitMessageStatus(agentId, key, status, new Date());
+      }
+    });
+
+    // Per-recipient receipts (carry the receipt/read timestamps)
+    socket.ev.on('message-receipt.update', (receipts) => {
+      for (const { key, receipt } of receipts) {
+        const readTs = receipt.readTimestamp ?? receipt.playedTimestamp;
+        if (readTs) {
+          this.emitMessageStatus(agentId, key, 'READ', this.tsToDate(readTs));
+        } else if (receipt.receiptTimestamp) {
+          this.emitMessageStatus(agentId, key, 'DELIVERED', this.tsToDate(receipt.receiptTimestamp));
+        }
+      }
+    });
+  }
+
+  private mapMessageStatus(status: proto.WebMessageInfo.Status): WhatsappMessageStatus | null {
+    switch (status) {
+      case WAMessageStatus.ERROR:
+        return 'FAILED';
+      case WAMessageStatus.SERVER_ACK:
+        return 'SERVER_ACK';
+      case WAMessageStatus.DELIVERY_ACK:
+        return 'DELIVERED';
+      case WAMessageStatus.READ:
+      case WAMessageStatus.PLAYED:
+        return 'READ';
+      default:
+        return null; // PENDING
+    }
+  }
+
+  private emitMessageStatus(agentId: string, key: WAMessageKey, status: WhatsappMessageStatus, at: Date) {
+    if (!key.fromMe || !key.id || !this.statusListeners.length) return;
+    const update = { agentId, messageId: key.id, remoteJid: key.remoteJid ?? '', status, at };
+    for (const listener of this.statusListeners) {
+      void Promise.resolve()
+        .then(() => listener(update))
+        .catch((e: any) =>
+          console.error(`[WhatsApp] status listener failed for ${key.id}: ${e?.message || e}`),
+        );
+    }
+  }
+
+  private tsToDate(ts: number | { toNumber(): number }): Date {
+    return new Date((typeof ts === 'number' ? ts : ts.toNumber()) * 1000);
+  }
+
   /* ------------------------------------------------------------------------ */
   /*                            Profile Picture w/ tctoken                    */
   /* ------------------------------------------------------------------------ */
@@ -756,6 +839,9 @@ export class WhatsappService implements OnModuleInit {
           }
         });
 
+        // ------------------ RECEIPTS for messages we sent ------------------
+        this.registerReceiptHandlers(socket, agentId);
+
         // ------------------ INCOMING MESSAGES: delegate to handler ------------------
         socket.ev.on('messages.upsert', async ({ messages }) => {
           const msg = messages?.[0];
@@ -1005,6 +1091,9 @@ export class WhatsappService implements OnModuleInit {
           }
         });
 
+        // ------------------ RECEIPTS for messages we sent ------------------
+        this.registerReceiptHandlers(socket, agentId);
+
         // ------------------ INCOMING MESSAGES: delegate to handler ------------------
         socket.ev.on('messages.upsert', async ({ messages }) => {
           const msg = messages?.[0];
@@ -1087,6 +1176,9 @@ export class WhatsappService implements OnModuleInit {
       throw new BadRequestException('WhatsApp session is paused; activate the agent to resume messaging.');
     }
 
+    // Numbers on the owner's suppression list (opt-out / do-not-contact) are never messaged
+    await this.suppressions.assertCanMessage(agentId, toPhone);
+
     const socket = this.getOpenSocket(agentId);
     const jid = this.phoneToJid(toPhone);
 
@@ -11,18 +11,24 @@ import { LeadItemModule } from './agentModules/lead-Item/lead-item.module';
 import { LeadModule } from './agentModules/lead/lead.module';
 import { GoogleApiModule } from './auth/google-api/google-api.module';
 import { GoogleAuthModule } from './auth/google-auth/google-auth.module';
+import { MicrosoftAuthModule } from './auth/microsoft-auth/microsoft-auth.module';
 import { CalendarConnectionModule } from './CalendarConnection/calendar-connection.module';
 import { BookingSettingsModule } from './agentModules/booking-settings/booking-settings.module';
 import { AppointmentLeadItemModule } from './agentModules/appointment-lead-item/appointment-lead-item.module';
 
 import { LeadCustomFieldIntakeModule } from './agentModules/outbound/lead-custom-field-intake/lead-custom-field-intake.module';
 import { OutboundLeadModule } from './agentModules/outbound/outbound-lead/outbound-lead.module';
+import { SuppressionModule } from './agentModules/suppression/suppression.module';
 
 import { ScheduleModule } from '@nestjs/schedule';
 import { OutboundCampaignModule } from './agentModules/outbound/outbound-campaign/outbound-campaign.module';
 import { OutboundTemplateModule } from './agentModules/outbound-template/outbound-template.module';
 import { OutboundBroadcastModule } from './agentModules/outbound/outbound-broadcast/outbound-broadcast.module';
 import { KnowledgebaseModule } from './agentModules/knowledgebase/knowledgebase.module';
+import { EmailModule } from './agentModules/email/email.module';
+import { AppointmentModule } from './agentModules/appointment/appointment.module';
+import { AppointmentReminderModule } from './agentModules/appointment/reminders/appointment-reminder.module';
+import { AppointmentIcsModule } from './agentModules/appointment/ics/appointment-ics.module';
 import { FreeToolsModule } from './free-tools/free-tools.module';
 import { BlogModule } from './blog/blog.module';
 
@@ -41,15 +47,21 @@ import { BlogModule } from './blog/blog.module';
     LeadModule,
     GoogleApiModule,
     GoogleAuthModule,
+    MicrosoftAuthModule,
     CalendarConnectionModule,
     BookingSettingsModule,
     AppointmentLeadItemModule,
     LeadCustomFieldIntakeModule,
     OutboundLeadModule,
+    SuppressionModule,
     OutboundTemplateModule,
     OutboundCampaignModule,
     OutboundBroadcastModule,
     KnowledgebaseModule,
+    EmailModule,
+    AppointmentModule,
+    AppointmentReminderModule,
+    AppointmentIcsModule,
     FreeToolsModule,
     BlogModule,
     ScheduleModule.forRoot()
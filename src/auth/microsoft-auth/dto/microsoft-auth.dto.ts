@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+// ============================================================================
+// Request DTOs
+// ============================================================================
+
+/**
+ * Request body for Microsoft OAuth callback
+ */
+export class MicrosoftCallbackDto {
+    @ApiProperty({
+        description: 'The authorization code received from the Microsoft OAuth redirect',
+        example: 'M.C507_BAY.2.U...',
+    })
+    @IsString()
+    @IsNotEmpty()
+    code: string;
+}
+
+// ============================================================================
+// Response DTOs
+// ============================================================================
+
+/**
+ * Response for GET /auth/microsoft/url
+ */
+export class MicrosoftAuthUrlResponseDto {
+    @ApiProperty({
+        description: 'The Microsoft OAuth authorization URL to redirect the user to',
+        example: 'https://login.microsoftonline.com/common/oauth2/v2.0/authorize?client_id=...',
+    })
+    url: string;
+}
+
+/**
+ * Response for successful Microsoft OAuth callback
+ */
+export class MicrosoftCallbackResponseDto {
+    @ApiProperty({
+        description: 'Success message',
+        example: 'Outlook Calendar connected successfully.',
+    })
+    message: string;
+}
@@ -0,0 +1,63 @@
+import { Controller, Get, Post, Body, UseGuards, ValidationPipe, Req } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { MicrosoftAuthService } from './microsoft-auth.service';
+import { ClerkAuthGuard } from '../clerk-auth.guard';
+import { UserService } from 'src/user/services/user.service';
+import type { Request } from 'express';
+import {
+  MicrosoftCallbackDto,
+  MicrosoftAuthUrlResponseDto,
+  MicrosoftCallbackResponseDto,
+} from './dto/microsoft-auth.dto';
+import { AuthErrorResponseDto } from '../google-auth/dto/google-auth.dto';
+
+type ReqWithAuth = Request & {
+  auth?: {
+    clerkUserId?: string;
+    sessionId?: string;
+  };
+};
+
+@ApiTags('Authentication')
+@Controller('auth')
+export class MicrosoftAuthController {
+  constructor(
+    private readonly microsoftAuthService: MicrosoftAuthService,
+    private readonly userService: UserService,
+  ) { }
+
+  /**
+   * GET /auth/microsoft/url
+   * Starts the Microsoft (Outlook / Microsoft 365) OAuth flow.
+   */
+  @Get('microsoft/url')
+  @ApiOperation({
+    summary: 'Get Microsoft OAuth URL',
+    description: 'Returns the Microsoft authorization URL. Redirect the user to it to connect an Outlook calendar.',
+  })
+  @ApiResponse({ status: 200, description: 'Successfully generated Microsoft OAuth URL', type: MicrosoftAuthUrlResponseDto })
+  getMicrosoftAuthUrl(): MicrosoftAuthUrlResponseDto {
+    return { url: this.microsoftAuthService.generateAuthUrl() };
+  }
+
+  /**
+   * POST /auth/microsoft/callback
+   * Exchanges the authorization code and stores an OUTLOOK calendar connection.
+   */
+  @Post('microsoft/callback')
+  @UseGuards(ClerkAuthGuard)
+  @ApiBearerAuth('bearer')
+  @ApiOperation({
+    summary: 'Exchange Microsoft OAuth code for tokens',
+    description: 'Exchanges the authorization code for access and refresh tokens. Requires authentication via Clerk session token.',
+  })
+  @ApiResponse({ status: 201, description: 'Successfully connected Outlook calendar', type: MicrosoftCallbackResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Missing or invalid Bearer token', type: AuthErrorResponseDto })
+  async handleMicrosoftCallback(
+    @Req() req: ReqWithAuth,
+    @Body(new ValidationPipe()) body: MicrosoftCallbackDto,
+  ) {
+    const me = await this.userService.getFromAuth(req.auth ?? {});
+    return this.microsoftAuthService.exchangeCodeAndSaveConnection(body.code, me.id);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { MicrosoftAuthService } from './microsoft-auth.service';
+import { MicrosoftAuthController } from './microsoft-auth.controller';
+import { CalendarConnectionModule } from 'src/CalendarConnection/calendar-connection.module';
+import { UserModule } from 'src/user/user.module';
+
+@Module({
+  imports: [
+    CalendarConnectionModule, // Makes CalendarConnectionService available.
+    UserModule,
+  ],
+  controllers: [MicrosoftAuthController],
+  providers: [MicrosoftAuthService],
+})
+export class MicrosoftAuthModule {}
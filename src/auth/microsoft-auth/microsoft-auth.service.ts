@@ -0,0 +1,53 @@
+import { Injectable, InternalServerErrorException, Logger } from '@nestjs/common';
+import { CalendarProvider } from '@prisma/client';
+import { CalendarConnectionService } from 'src/CalendarConnection/calendar-connection.service';
+import { CreateCalendarConnectionDto } from 'src/CalendarConnection/dto/calendar-connection.dto';
+import { getCalendarProvider } from 'src/CalendarConnection/providers';
+
+@Injectable()
+export class MicrosoftAuthService {
+  private readonly logger = new Logger(MicrosoftAuthService.name);
+
+  constructor(private readonly connectionService: CalendarConnectionService) {}
+
+  /**
+   * Generates the Microsoft consent URL (Calendars.ReadWrite + offline_access).
+   * @returns The URL for the Microsoft consent screen.
+   */
+  generateAuthUrl(): string {
+    return getCalendarProvider(CalendarProvider.OUTLOOK).getAuthUrl();
+  }
+
+  /**
+   * Exchanges the authorization code for tokens via Microsoft Graph,
+   * reads the account email and saves an OUTLOOK calendar connection.
+   * @param code The authorization code from Microsoft's redirect.
+   * @param userId The ID of the user initiating the connection.
+   * @returns A success message object.
+   */
+  async exchangeCodeAndSaveConnection(code: string, userId: string) {
+    try {
+      this.logger.log(`Exchanging Microsoft authorization code for user: ${userId}`);
+      const result = await getCalendarProvider(CalendarProvider.OUTLOOK).exchangeCode(code);
+
+      this.logger.log(`Saving calendar connection for Microsoft account: ${result.accountEmail}`);
+      const connectionDto: CreateCalendarConnectionDto = {
+        provider: CalendarProvider.OUTLOOK,
+        accountEmail: result.accountEmail,
+        accessToken: result.accessToken,
+        refreshToken: result.refreshToken,
+        accessTokenExpiresAt: result.accessTokenExpiresAt,
+        calendarId: 'primary', // the account's default calendar
+        userId: userId,
+        isPrimary: true,
+      };
+
+      await this.connectionService.create(connectionDto);
+
+      return { message: 'Outlook Calendar connected successfully.' };
+    } catch (error) {
+      this.logger.error(`Failed to connect Outlook Calendar for user ${userId}:`, error.stack);
+      throw new InternalServerErrorException('A problem occurred while connecting your Outlook Calendar.');
+    }
+  }
+}
@@ -0,0 +1,50 @@
+// src/common/phone/phone-number.ts
+import { PhoneNumberFormat, PhoneNumberUtil } from 'google-libphonenumber';
+
+const phoneUtil = PhoneNumberUtil.getInstance();
+
+/** Region assumed for numbers written without a country code */
+export const DEFAULT_PHONE_REGION = (
+  process.env.WHATSAPP_DEFAULT_REGION || 'US'
+).toUpperCase();
+
+/** ISO 3166 region codes libphonenumber knows (e.g. "US", "BD") */
+export function isSupportedPhoneRegion(region: string): boolean {
+  return phoneUtil.getSupportedRegions().includes(region.toUpperCase());
+}
+
+/**
+ * Normalise a phone number to E.164 (+14155550123).
+ * Returns null when the number cannot be parsed or is not a valid number.
+ */
+export function toE164(
+  value: string,
+  region: string = DEFAULT_PHONE_REGION,
+): string | null {
+  try {
+    const num = phoneUtil.parseAndKeepRawInput(
+      value.trim(),
+      region.toUpperCase(),
+    );
+    return phoneUtil.isValidNumber(num)
+      ? phoneUtil.format(num, PhoneNumberFormat.E164)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Like toE164, for numbers already stored by the app: bare digits that do not
+ * parse in `region` are retried as international ("8801…" -> "+8801…").
+ */
+export function storedToE164(
+  value: string,
+  region: string = DEFAULT_PHONE_REGION,
+): string | null {
+  const raw = value.trim();
+  const e164 = toE164(raw, region);
+  if (e164 || raw.startsWith('+')) return e164;
+  const digits = raw.replace(/\D/g, '');
+  return digits ? toE164(`+${digits}`) : null;
+}
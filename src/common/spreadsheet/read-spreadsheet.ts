@@ -0,0 +1,73 @@
+// src/common/spreadsheet/read-spreadsheet.ts
+import { BadRequestException } from '@nestjs/common';
+import * as XLSX from 'xlsx';
+
+/** Raw cell values as read by xlsx (dates stay serial numbers) */
+export type SpreadsheetCell = string | number | boolean;
+
+/** The part of a multer memory-storage file the reader needs */
+export interface SpreadsheetUpload {
+  buffer: Buffer;
+  mimetype: string;
+  originalname: string;
+}
+
+export interface SpreadsheetRows {
+  headers: string[];
+  /** Non-blank data rows; `row` is the 1-based spreadsheet row number */
+  records: { row: number; cells: SpreadsheetCell[] }[];
+}
+
+/** Compare column headers case-, space-, dash- and underscore-insensitively */
+export const columnKey = (header: string) =>
+  header.toLowerCase().replace(/[\s_-]+/g, '');
+
+/**
+ * Read a .csv/.xlsx/.xls upload into headers (first row) and data rows.
+ * CSV cells are kept as text so leading "+" and zeros of phone numbers survive.
+ */
+export function readSpreadsheet(
+  file: SpreadsheetUpload,
+  sheet?: string,
+): SpreadsheetRows {
+  const ext = (file.originalname.split('.').pop() ?? '').toLowerCase();
+  const isCsv = ext === 'csv' || /csv/i.test(file.mimetype);
+  if (!isCsv && ext !== 'xlsx' && ext !== 'xls') {
+    throw new BadRequestException(
+      'Only .csv, .xlsx and .xls files are supported',
+    );
+  }
+
+  let wb: XLSX.WorkBook;
+  try {
+    wb = XLSX.read(file.buffer, { type: 'buffer', raw: isCsv });
+  } catch {
+    throw new BadRequestException('The file could not be read as CSV/XLSX');
+  }
+  const sheetName = sheet ?? wb.SheetNames[0];
+  const ws = sheetName ? wb.Sheets[sheetName] : undefined;
+  if (!ws) {
+    throw new BadRequestException(
+      sheet ? `Sheet "${sheet}" not found` : 'The file has no sheets',
+    );
+  }
+
+  const matrix = XLSX.utils.sheet_to_json<SpreadsheetCell[]>(ws, {
+    header: 1,
+    defval: '',
+    raw: true,
+    blankrows: true,
+  });
+  const headers = (matrix[0] ?? []).map((h) => String(h).trim());
+  if (!headers.some(Boolean)) {
+    throw new BadRequestException('The first row must contain column headers');
+  }
+
+  const records: SpreadsheetRows['records'] = [];
+  matrix.slice(1).forEach((cells, i) => {
+    // skip blank lines but keep spreadsheet row numbers for the report
+    if (cells.some((c) => String(c).trim() !== ''))
+      records.push({ row: i + 2, cells });
+  });
+  return { headers, records };
+}